@@ -1,16 +1,8 @@
 import { readFile } from "fs/promises";
 import { PaddleOcrService } from "../src/index";
 import * as ort from "onnxruntime-node";
-import { decode } from "fast-png";
 
 const imageFile = await readFile("examples/image.png");
-const buffer = imageFile.buffer.slice(imageFile.byteOffset, imageFile.byteOffset + imageFile.byteLength);
-const image = decode(buffer);
-const input = {
-    data: image.data as Uint8Array,
-    width: image.width,
-    height: image.height,
-};
 
 const detectOnnx = await readFile("assets/PP-OCRv5_mobile_det_infer.onnx");
 const recOnnx = await readFile("assets/PP-OCRv5_mobile_rec_infer.onnx");
@@ -27,7 +19,7 @@ const paddleOcrService = await PaddleOcrService.createInstance({
     },
 });
 
-const r = await paddleOcrService.recognize(input, {
+const r = await paddleOcrService.recognizeFile(imageFile, {
     charWhiteList: ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"],
 });
 console.log(r);
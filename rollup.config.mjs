@@ -23,4 +23,23 @@ export default [
             json(),
         ],
     },
+    {
+        input: "./src/cli/index.ts",
+        output: [
+            {
+                file: "dist/cli.js",
+                format: "es",
+                banner: "#!/usr/bin/env node",
+                sourcemap: true,
+            },
+        ],
+        external: [/^node:/, "onnxruntime-node"],
+        plugins: [
+            typescript({
+                tsconfig: "./tsconfig.json",
+                sourceMap: true,
+            }),
+            json(),
+        ],
+    },
 ];
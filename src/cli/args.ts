@@ -0,0 +1,168 @@
+import { parseArgs } from "node:util";
+import { FORMATS, type OutputFormat } from "../export/format";
+
+export interface CliOptions {
+    /** `serve` runs the HTTP server instead of recognizing files. */
+    command: "recognize" | "serve";
+    /** Image files, globs, or `-` for standard input. */
+    inputs: string[];
+    format: OutputFormat;
+    /** Directory of a model bundle with its `manifest.json`. */
+    models: string;
+    /** Detection model overriding the bundle. */
+    detection?: string;
+    /** Recognition model overriding the bundle, read with `dictionary`. */
+    recognition?: string;
+    /** Dictionary overriding the bundle. */
+    dictionary?: string;
+    whitelist?: string[];
+    maxSide?: number;
+    concurrency: number;
+    outDir?: string;
+    port: number;
+    host: string;
+    maxQueue: number;
+    /** Largest request body of the server in bytes. */
+    maxBody: number;
+    help: boolean;
+    version: boolean;
+}
+
+/**
+ * Thrown when the command line cannot be understood
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
+
+export const USAGE = `Usage: paddleocr [options] <file|glob|->...
+       paddleocr serve [options]
+
+Recognizes the text of PNG, JPEG, BMP and PNM images. Reads standard input
+when the file is "-", or when no file is given and input is piped.
+"serve" loads the models once and answers HTTP requests instead:
+POST /ocr and /detect with the image as body, GET /health.
+
+Options:
+  -f, --format <format>    text, json, tsv or hocr (default: text)
+  -m, --models <dir>       model bundle directory with a manifest.json (default: assets)
+      --det <file>         detection model, replacing the bundle's
+      --rec <file>         recognition model, replacing the bundle's (needs --dict)
+      --dict <file>        recognition dictionary, replacing the bundle's
+  -w, --whitelist <chars>  only recognize these characters
+      --max-side <px>      longest image side fed to detection (default: 960)
+  -j, --concurrency <n>    images recognized at the same time (default: 1)
+  -o, --out-dir <dir>      write one <name>.<format> file per image instead of printing
+  -p, --port <port>        port of the server (default: 8080)
+      --host <host>        address the server listens on (default: 127.0.0.1)
+      --max-queue <n>      requests waiting for the server before it answers 503 (default: 32)
+      --max-body <size>    largest request body, e.g. 512kb or 20mb (default: 20mb)
+  -h, --help               show this help
+  -v, --version            show the version
+
+Printed json is one object per line; tsv has a header row followed by one row per line.
+
+Exit codes:
+  0  success
+  1  recognition or writing the output failed, or another unexpected error
+  2  invalid command line
+  3  an input could not be read or decoded
+  4  the models could not be loaded
+`;
+
+/**
+ * Parse the arguments of the `paddleocr` command
+ * @throws {UsageError} When an option is unknown or has an invalid value
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                format: { type: "string", short: "f", default: "text" },
+                models: { type: "string", short: "m", default: "assets" },
+                det: { type: "string" },
+                rec: { type: "string" },
+                dict: { type: "string" },
+                whitelist: { type: "string", short: "w" },
+                "max-side": { type: "string" },
+                concurrency: { type: "string", short: "j", default: "1" },
+                "out-dir": { type: "string", short: "o" },
+                port: { type: "string", short: "p", default: "8080" },
+                host: { type: "string", default: "127.0.0.1" },
+                "max-queue": { type: "string", default: "32" },
+                "max-body": { type: "string", default: "20mb" },
+                help: { type: "boolean", short: "h", default: false },
+                version: { type: "boolean", short: "v", default: false },
+            },
+        });
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+    const { values, positionals } = parsed;
+    const command = positionals[0] === "serve" ? "serve" : "recognize";
+    if (command === "serve" && positionals.length > 1) {
+        throw new UsageError(`serve takes no files, got "${positionals[1]}"`);
+    }
+
+    const format = values.format as OutputFormat;
+    if (!FORMATS.includes(format)) {
+        throw new UsageError(`Unknown format "${format}", expected one of ${FORMATS.join(", ")}`);
+    }
+    if (values.rec && !values.dict) {
+        throw new UsageError("--rec needs the dictionary of the model in --dict");
+    }
+    if (values.whitelist === "") {
+        throw new UsageError("--whitelist needs at least one character");
+    }
+
+    const maxQueue = Number(values["max-queue"]);
+    if (!Number.isInteger(maxQueue) || maxQueue < 0) {
+        throw new UsageError(`--max-queue must be a non-negative integer, got "${values["max-queue"]}"`);
+    }
+
+    return {
+        command,
+        inputs: command === "serve" ? [] : positionals,
+        format,
+        models: values.models!,
+        detection: values.det,
+        recognition: values.rec,
+        dictionary: values.dict,
+        whitelist: values.whitelist ? Array.from(values.whitelist) : undefined,
+        maxSide: values["max-side"] === undefined ? undefined : positiveInteger("--max-side", values["max-side"]),
+        concurrency: positiveInteger("--concurrency", values.concurrency!),
+        outDir: values["out-dir"],
+        port: positiveInteger("--port", values.port!),
+        host: values.host!,
+        maxQueue,
+        maxBody: byteSize("--max-body", values["max-body"]!),
+        help: values.help!,
+        version: values.version!,
+    };
+}
+
+function positiveInteger(option: string, value: string): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number <= 0) {
+        throw new UsageError(`${option} must be a positive integer, got "${value}"`);
+    }
+    return number;
+}
+
+/**
+ * Parse a size in bytes with an optional `kb`, `mb` or `gb` suffix
+ */
+function byteSize(option: string, value: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i.exec(value.trim());
+    const size = match ? Math.floor(Number(match[1]) * 1024 ** " kmg".indexOf(match[2].toLowerCase() || " ")) : 0;
+    if (!size) {
+        throw new UsageError(`${option} must be a size such as 512kb or 20mb, got "${value}"`);
+    }
+    return size;
+}
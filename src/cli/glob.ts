@@ -0,0 +1,79 @@
+import { readdir } from "node:fs/promises";
+
+/**
+ * Characters making a path segment a pattern
+ */
+const MAGIC = /[*?[]/;
+
+/**
+ * List the files matching a glob with `*`, `?`, `[...]` and `**` segments, sorted by path.
+ * Paths without wildcards are returned as they are, whether they exist or not, so that
+ * reading them reports the actual error. Like shells, wildcards skip hidden entries.
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+    if (!MAGIC.test(pattern)) {
+        return [pattern];
+    }
+    const segments = pattern.split(process.platform === "win32" ? /[\\/]/ : "/");
+    if (segments[segments.length - 1] === "**") {
+        segments.push("*");
+    }
+
+    const first = segments.findIndex((segment) => MAGIC.test(segment));
+    let prefix = segments.slice(0, first).join("/");
+    if (first > 0) {
+        prefix += "/";
+    }
+    const matches = new Set<string>();
+    await walk(prefix, segments.slice(first), matches);
+    return [...matches].sort();
+}
+
+async function walk(prefix: string, segments: string[], matches: Set<string>): Promise<void> {
+    const [segment, ...rest] = segments;
+    const entries = await readdir(prefix || ".", { withFileTypes: true }).catch(() => []);
+
+    if (segment === "**") {
+        // Zero directories, then one more level
+        await walk(prefix, rest, matches);
+        for (const entry of entries) {
+            if (entry.isDirectory() && !entry.name.startsWith(".")) {
+                await walk(`${prefix}${entry.name}/`, segments, matches);
+            }
+        }
+        return;
+    }
+
+    const regex = segmentRegExp(segment);
+    for (const entry of entries) {
+        if (!regex.test(entry.name)) continue;
+        if (!rest.length) {
+            if (entry.isFile() || entry.isSymbolicLink()) matches.add(prefix + entry.name);
+        } else if (entry.isDirectory()) {
+            await walk(`${prefix}${entry.name}/`, rest, matches);
+        }
+    }
+}
+
+/**
+ * Regular expression matching the entry names of one glob segment
+ */
+function segmentRegExp(segment: string): RegExp {
+    let source = "";
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+        const end = char === "[" ? segment.indexOf("]", i + 2) : -1;
+        if (char === "*") {
+            source += ".*";
+        } else if (char === "?") {
+            source += ".";
+        } else if (end > 0) {
+            const body = segment.slice(i + 1, end).replace(/\\/g, "\\\\");
+            source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+            i = end;
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${segment.startsWith(".") ? "" : "(?!\\.)"}${source}$`);
+}
@@ -0,0 +1,278 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, extname, join, resolve } from "node:path";
+import { decodeImage } from "../decoders/decode";
+import { FORMAT_EXTENSIONS, formatPage, TSV_HEADER } from "../export/format";
+import type { ImageInput, ModelBundleManifest, PaddleOptions } from "../interface";
+import { loadModelBundle, parseModelManifest } from "../models/bundle";
+import { PaddleOcrService } from "../processor/paddle-ocr";
+import { createOcrServer } from "../server/server";
+import { parseCliArgs, USAGE, UsageError, type CliOptions } from "./args";
+import { expandGlob } from "./glob";
+
+/**
+ * Exit codes, listed in the usage text
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_INPUT = 3;
+const EXIT_MODELS = 4;
+
+/**
+ * Entry point of the `paddleocr` command
+ * @returns The exit code
+ */
+async function main(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    let files: string[] = [];
+    let code = EXIT_SUCCESS;
+    try {
+        options = parseCliArgs(argv);
+        if (options.help) {
+            process.stdout.write(USAGE);
+            return EXIT_SUCCESS;
+        }
+        if (options.version) {
+            return await printVersion();
+        }
+        if (options.command === "serve") {
+            return await serve(options);
+        }
+        if (!options.inputs.length) {
+            if (process.stdin.isTTY) throw new UsageError("No input file given");
+            options.inputs.push("-");
+        }
+        for (const pattern of options.inputs) {
+            let matches: string[];
+            try {
+                matches = pattern === "-" ? [pattern] : await expandGlob(pattern);
+            } catch (error) {
+                code ||= report(pattern, (error as Error).message, EXIT_INPUT);
+                continue;
+            }
+            if (!matches.length) {
+                code ||= report(pattern, "No files match", EXIT_INPUT);
+            }
+            files.push(...matches);
+        }
+        files = [...new Set(files)];
+        if (options.format === "hocr" && !options.outDir && files.length > 1) {
+            throw new UsageError("Printing hOCR takes a single image, use --out-dir for several");
+        }
+        if (options.outDir) {
+            assertDistinctOutputs(files, options);
+        }
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        process.stderr.write(`paddleocr: ${error.message}\nRun "paddleocr --help" for usage.\n`);
+        return EXIT_USAGE;
+    }
+    if (!files.length) {
+        return code;
+    }
+
+    if (options.outDir) {
+        try {
+            await mkdir(options.outDir, { recursive: true });
+        } catch (error) {
+            return report(options.outDir, (error as Error).message, EXIT_FAILURE);
+        }
+    }
+    let service: PaddleOcrService;
+    try {
+        service = await createService(options);
+    } catch (error) {
+        return report(options.models, (error as Error).message, EXIT_MODELS);
+    }
+
+    try {
+        if (!options.outDir && options.format === "tsv") {
+            process.stdout.write(TSV_HEADER);
+        }
+        // Images run concurrently but are printed in the order they were given
+        const outputs: (string | undefined)[] = new Array(files.length);
+        let next = 0;
+        let printed = 0;
+        const worker = async () => {
+            while (next < files.length) {
+                const index = next++;
+                const result = await processFile(service, files[index], index, files.length > 1, options);
+                code ||= result.code;
+                outputs[index] = result.output ?? "";
+                for (; printed < files.length && outputs[printed] !== undefined; printed++) {
+                    process.stdout.write(outputs[printed]!);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(options.concurrency, files.length) }, worker));
+    } finally {
+        await service.destroy();
+    }
+    return code;
+}
+
+/**
+ * Answer HTTP requests with models loaded once, until the process is interrupted
+ */
+async function serve(options: CliOptions): Promise<number> {
+    let service: PaddleOcrService;
+    try {
+        service = await createService(options);
+    } catch (error) {
+        return report(options.models, (error as Error).message, EXIT_MODELS);
+    }
+    const server = createOcrServer(service, {
+        concurrency: options.concurrency,
+        maxQueue: options.maxQueue,
+        maxBodySize: options.maxBody,
+    });
+    const address = `${options.host}:${options.port}`;
+
+    return new Promise((resolve) => {
+        const stop = (code: number) => service.destroy().then(() => resolve(code));
+        server.on("error", (error) => stop(report(address, error.message, EXIT_FAILURE)));
+        server.listen(options.port, options.host, () => {
+            process.stderr.write(`paddleocr: listening on http://${address}\n`);
+            for (const signal of ["SIGINT", "SIGTERM"]) {
+                process.once(signal, () => server.close(() => stop(EXIT_SUCCESS)));
+            }
+        });
+    });
+}
+
+/**
+ * Recognize one image, writing it to the output directory or returning what to print
+ */
+async function processFile(
+    service: PaddleOcrService,
+    file: string,
+    index: number,
+    several: boolean,
+    options: CliOptions,
+): Promise<{ code: number; output?: string }> {
+    let image: ImageInput;
+    try {
+        image = decodeImage(file === "-" ? await readStdin() : await readFile(file));
+    } catch (error) {
+        return { code: report(file, (error as Error).message, EXIT_INPUT) };
+    }
+
+    let output: string;
+    try {
+        const results = await service.recognize(image, { charWhiteList: options.whitelist });
+        const page = { file, width: image.width, height: image.height, results };
+        output = formatPage(page, options.format, Boolean(options.outDir));
+    } catch (error) {
+        return { code: report(file, (error as Error).message, EXIT_FAILURE) };
+    }
+
+    if (options.outDir) {
+        const path = outputPath(file, options);
+        try {
+            await writeFile(path, output);
+        } catch (error) {
+            return { code: report(path, (error as Error).message, EXIT_FAILURE) };
+        }
+        return { code: EXIT_SUCCESS };
+    }
+    if (several && options.format === "text") {
+        output = `${index ? "\n" : ""}==> ${file} <==\n${output}`;
+    }
+    return { code: EXIT_SUCCESS, output };
+}
+
+/**
+ * File written for an input in `--out-dir`, named after the input without its extension
+ */
+function outputPath(file: string, options: CliOptions): string {
+    const name = file === "-" ? "stdin" : basename(file, extname(file));
+    return join(options.outDir!, `${name}.${FORMAT_EXTENSIONS[options.format]}`);
+}
+
+/**
+ * @throws {UsageError} When two inputs would be written to the same file of `--out-dir`
+ */
+function assertDistinctOutputs(files: string[], options: CliOptions): void {
+    const inputs = new Map<string, string>();
+    for (const file of files) {
+        const path = outputPath(file, options);
+        const previous = inputs.get(path);
+        if (previous !== undefined) {
+            throw new UsageError(`${previous} and ${file} would both be written to ${path}`);
+        }
+        inputs.set(path, file);
+    }
+}
+
+/**
+ * Load the model bundle of `--models`, replacing its models and dictionary by those given explicitly
+ */
+async function createService(options: CliOptions): Promise<PaddleOcrService> {
+    let ort: PaddleOptions["ort"];
+    try {
+        ort = await import("onnxruntime-node");
+    } catch {
+        throw new Error('The paddleocr command needs onnxruntime-node, install it with "npm install onnxruntime-node"');
+    }
+
+    const manifestPath = join(options.models, "manifest.json");
+    const manifest: ModelBundleManifest = existsSync(manifestPath)
+        ? parseModelManifest(await readFile(manifestPath, "utf-8"))
+        : { version: "" };
+    if (options.detection) {
+        manifest.detection = { file: resolve(options.detection) };
+    }
+    if (options.recognition) {
+        manifest.recognition = { file: resolve(options.recognition), dictionary: resolve(options.dictionary!) };
+    } else if (options.dictionary && manifest.recognition) {
+        manifest.recognition = { ...manifest.recognition, dictionary: resolve(options.dictionary) };
+    }
+    if (!manifest.detection || !manifest.recognition) {
+        const [model, option] = manifest.detection ? ["recognition", "--rec"] : ["detection", "--det"];
+        throw new Error(`No ${model} model: ${manifestPath} does not exist or lacks it, and ${option} is not given`);
+    }
+
+    // Paths of the manifest are relative to the bundle, explicit ones are already absolute
+    const bundle = await loadModelBundle(manifest, (file) => readFile(resolve(options.models, file)));
+    if (options.maxSide) {
+        bundle.detection = { ...bundle.detection, maxSideLength: options.maxSide };
+    }
+    return PaddleOcrService.createInstance({ ort, ...bundle });
+}
+
+/**
+ * Print the version of the installed package, read next to the bundled command in `dist/`
+ */
+async function printVersion(): Promise<number> {
+    const path = new URL("../package.json", import.meta.url);
+    try {
+        const { version } = JSON.parse(await readFile(path, "utf-8"));
+        process.stdout.write(`${version}\n`);
+        return EXIT_SUCCESS;
+    } catch (error) {
+        return report(path.pathname, (error as Error).message, EXIT_FAILURE);
+    }
+}
+
+async function readStdin(): Promise<Uint8Array> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Print an error about a file
+ * @returns The exit code of the error
+ */
+function report(file: string, message: string, code: number): number {
+    process.stderr.write(`paddleocr: ${file === "-" ? "stdin" : file}: ${message}\n`);
+    return code;
+}
+
+process.exitCode = await main(process.argv.slice(2)).catch((error) => {
+    process.stderr.write(`paddleocr: ${(error as Error)?.message ?? error}\n`);
+    return EXIT_FAILURE;
+});
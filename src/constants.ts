@@ -1,4 +1,17 @@
-import type { DetectionServiceOptions, PaddleOptions, RecognitionServiceOptions } from "./interface";
+import type {
+    ClaheOptions,
+    ClassificationServiceOptions,
+    DecodeOptions,
+    DenoiseOptions,
+    DeskewOptions,
+    DetectionServiceOptions,
+    OrientationServiceOptions,
+    PaddleOptions,
+    RecognitionServiceOptions,
+    SauvolaOptions,
+    ScriptClassificationServiceOptions,
+    SequenceOptions,
+} from "./interface";
 
 export const DEFAULT_DETECTION_OPTIONS: Partial<DetectionServiceOptions> = {
     padding: 0,
@@ -9,6 +22,13 @@ export const DEFAULT_DETECTION_OPTIONS: Partial<DetectionServiceOptions> = {
     minimumAreaThreshold: 20,
     paddingBoxVertical: 0.4,
     paddingBoxHorizontal: 0.6,
+    boxType: "rect",
+    postprocessMode: "padding",
+    boxScoreThreshold: 0.6,
+    unclipRatio: 1.5,
+    tiling: "never",
+    tileSize: 960,
+    tileOverlap: 160,
 };
 
 export const DEFAULT_RECOGNITION_OPTIONS: Partial<RecognitionServiceOptions> = {
@@ -16,9 +36,63 @@ export const DEFAULT_RECOGNITION_OPTIONS: Partial<RecognitionServiceOptions> = {
     stdDeviation: [1.0 / 127.5, 1.0 / 127.5, 1.0 / 127.5],
     imageHeight: 48,
     charactersDictionary: [],
+    batchSize: 6,
+    verticalRatio: 1.5,
+    decoder: "greedy",
+    beamWidth: 10,
+    topK: 5,
+    lexiconMode: "boost",
+    lexiconWeight: 1,
+};
+
+export const DEFAULT_CLASSIFICATION_OPTIONS: Partial<ClassificationServiceOptions> = {
+    threshold: 0.9,
+    imageShape: [48, 192],
+    mean: [127.5, 127.5, 127.5],
+    stdDeviation: [1.0 / 127.5, 1.0 / 127.5, 1.0 / 127.5],
+};
+
+export const DEFAULT_SCRIPT_CLASSIFICATION_OPTIONS: Partial<ScriptClassificationServiceOptions> = {
+    labels: [],
+    threshold: 0.5,
+    imageShape: [48, 192],
+    mean: [127.5, 127.5, 127.5],
+    stdDeviation: [1.0 / 127.5, 1.0 / 127.5, 1.0 / 127.5],
+};
+
+export const DEFAULT_ORIENTATION_OPTIONS: Partial<OrientationServiceOptions> = {
+    resizeShortSide: 256,
+    imageSize: 224,
+    mean: [0.485 * 255, 0.456 * 255, 0.406 * 255],
+    stdDeviation: [1 / 0.229 / 255, 1 / 0.224 / 255, 1 / 0.225 / 255],
+    sampleSize: 5,
+};
+
+export const DEFAULT_PREPROCESS_OPTIONS: {
+    deskew: Required<DeskewOptions>;
+    clahe: Required<ClaheOptions>;
+    sauvola: Required<SauvolaOptions>;
+    denoise: Required<DenoiseOptions>;
+} = {
+    deskew: { maxAngle: 15, minAngle: 0.1 },
+    clahe: { tiles: 8, clipLimit: 2 },
+    sauvola: { windowSize: 25, k: 0.2, dynamicRange: 128 },
+    denoise: { radius: 1 },
+};
+
+export const DEFAULT_SEQUENCE_OPTIONS: Required<SequenceOptions> = {
+    pixelTolerance: 24,
+    changeThreshold: 0.001,
+    iouThreshold: 0.5,
+    textSimilarity: 0.8,
+    maxMissedFrames: 1,
 };
 
 export const DEFAULT_PADDLE_OPTIONS: Partial<PaddleOptions> = {
     detection: DEFAULT_DETECTION_OPTIONS,
     recognition: DEFAULT_RECOGNITION_OPTIONS,
 };
+
+export const DEFAULT_DECODE_OPTIONS: Required<DecodeOptions> = {
+    maxPixels: 100_000_000,
+};
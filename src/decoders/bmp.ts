@@ -0,0 +1,183 @@
+import type { DecodeOptions, ImageInput } from "../interface";
+import { ImageDecodeError } from "../errors";
+import { assertPixelCount } from "./limits";
+
+const BI_RGB = 0;
+const BI_RLE8 = 1;
+const BI_RLE4 = 2;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+interface Channel {
+    mask: number;
+    shift: number;
+    max: number;
+}
+
+/**
+ * Decode a Windows bitmap into 8-bit RGBA pixels. Supports OS/2 and Windows headers (up to V5),
+ * 1, 4, 8, 16, 24 and 32 bits per pixel, RLE4 and RLE8 compression, bit field masks and top-down rows.
+ */
+export function decodeBmp(bytes: Uint8Array, options?: DecodeOptions): ImageInput {
+    if (bytes[0] !== 0x42 || bytes[1] !== 0x4d || bytes.length < 26) {
+        throw new ImageDecodeError("Invalid BMP: bad signature");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const pixelOffset = view.getUint32(10, true);
+    const headerSize = view.getUint32(14, true);
+    const core = headerSize === 12;
+
+    const width = core ? view.getInt16(18, true) : view.getInt32(18, true);
+    const rawHeight = core ? view.getInt16(20, true) : view.getInt32(22, true);
+    const bitCount = core ? view.getUint16(24, true) : view.getUint16(28, true);
+    const compression = core ? BI_RGB : view.getUint32(30, true);
+    const topDown = rawHeight < 0;
+    const height = Math.abs(rawHeight);
+    if (width <= 0 || height === 0) {
+        throw new ImageDecodeError(`Invalid BMP: bad size ${width}x${rawHeight}`);
+    }
+    assertPixelCount("BMP", width, height, options);
+    if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+        throw new ImageDecodeError(`Unsupported BMP: ${bitCount} bits per pixel`);
+    }
+    if (![BI_RGB, BI_RLE8, BI_RLE4, BI_BITFIELDS, BI_ALPHABITFIELDS].includes(compression)) {
+        throw new ImageDecodeError(`Unsupported BMP: compression method ${compression}`);
+    }
+    if (pixelOffset >= bytes.length) {
+        throw new ImageDecodeError("Invalid BMP: pixel data offset exceeds the file size");
+    }
+
+    // Bit field masks live in the header from V2 on, and after a plain 40-byte header otherwise
+    let masksOffset = 14 + 40;
+    let paletteOffset = 14 + headerSize;
+    if (headerSize === 40 && compression === BI_BITFIELDS) paletteOffset += 12;
+    if (headerSize === 40 && compression === BI_ALPHABITFIELDS) paletteOffset += 16;
+    if (headerSize < 40) masksOffset = -1;
+
+    const data = new Uint8Array(width * height * 4);
+    const rowIndex = (row: number) => (topDown ? row : height - 1 - row);
+
+    if (bitCount <= 8) {
+        const entrySize = core ? 3 : 4;
+        const colorsUsed = core ? 0 : view.getUint32(46, true);
+        const paletteSize = Math.min(
+            colorsUsed || 1 << bitCount,
+            Math.floor((pixelOffset - paletteOffset) / entrySize),
+        );
+        const palette = new Uint8Array(256 * 4);
+        for (let i = 0; i < paletteSize; i++) {
+            const at = paletteOffset + i * entrySize;
+            palette.set([bytes[at + 2], bytes[at + 1], bytes[at], 255], i * 4);
+        }
+
+        const setIndex = (x: number, row: number, index: number) => {
+            if (x >= width || row >= height) return;
+            const o = (rowIndex(row) * width + x) * 4;
+            data.set(palette.subarray(index * 4, index * 4 + 4), o);
+        };
+        if (compression === BI_RLE8 || compression === BI_RLE4) {
+            decodeRle(bytes, pixelOffset, compression === BI_RLE4, setIndex);
+        } else {
+            const stride = Math.floor((bitCount * width + 31) / 32) * 4;
+            const mask = (1 << bitCount) - 1;
+            for (let row = 0; row < height; row++) {
+                const line = pixelOffset + row * stride;
+                for (let x = 0; x < width; x++) {
+                    const bit = x * bitCount;
+                    const index = (bytes[line + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & mask;
+                    setIndex(x, row, index);
+                }
+            }
+        }
+        return { width, height, data };
+    }
+
+    const bitfields = compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS;
+    let masks: number[];
+    if (bitfields && masksOffset > 0) {
+        const alpha = compression === BI_ALPHABITFIELDS || headerSize >= 56;
+        masks = [0, 4, 8, 12].map((i) => (i < 12 || alpha ? view.getUint32(masksOffset + i, true) : 0));
+    } else if (bitCount === 16) {
+        masks = [0x7c00, 0x03e0, 0x001f, 0];
+    } else {
+        masks = [0xff0000, 0x00ff00, 0x0000ff, 0];
+    }
+    const [red, green, blue, alpha] = masks.map(channel);
+
+    const stride = Math.floor((bitCount * width + 31) / 32) * 4;
+    const bytesPerPixel = bitCount / 8;
+    if (pixelOffset + stride * (height - 1) + width * bytesPerPixel > bytes.length) {
+        throw new ImageDecodeError("Invalid BMP: truncated pixel data");
+    }
+    for (let row = 0; row < height; row++) {
+        const line = pixelOffset + row * stride;
+        let o = rowIndex(row) * width * 4;
+        for (let x = 0; x < width; x++, o += 4) {
+            const at = line + x * bytesPerPixel;
+            const pixel =
+                bitCount === 16
+                    ? view.getUint16(at, true)
+                    : bitCount === 24
+                      ? bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16)
+                      : view.getUint32(at, true);
+            data[o] = sample(pixel, red);
+            data[o + 1] = sample(pixel, green);
+            data[o + 2] = sample(pixel, blue);
+            data[o + 3] = alpha.mask ? sample(pixel, alpha) : 255;
+        }
+    }
+    return { width, height, data };
+}
+
+function channel(mask: number): Channel {
+    if (!mask) return { mask: 0, shift: 0, max: 1 };
+    let shift = 0;
+    while (!((mask >>> shift) & 1)) shift++;
+    let bits = 0;
+    while ((mask >>> (shift + bits)) & 1) bits++;
+    return { mask: mask >>> 0, shift, max: 2 ** bits - 1 };
+}
+
+function sample(pixel: number, { mask, shift, max }: Channel): number {
+    if (!mask) return 0;
+    return Math.round((((pixel & mask) >>> shift) * 255) / max);
+}
+
+/**
+ * Walk RLE8 or RLE4 encoded indices, reporting every pixel as `(x, row)` counted from the bottom row
+ */
+function decodeRle(
+    bytes: Uint8Array,
+    offset: number,
+    nibbles: boolean,
+    setIndex: (x: number, row: number, index: number) => void,
+) {
+    let x = 0;
+    let row = 0;
+    while (offset + 1 < bytes.length) {
+        const count = bytes[offset++];
+        const value = bytes[offset++];
+        if (count > 0) {
+            // Encoded run, alternating both nibbles in RLE4
+            for (let i = 0; i < count; i++) {
+                setIndex(x++, row, nibbles ? (i & 1 ? value & 15 : value >> 4) : value);
+            }
+        } else if (value === 0) {
+            x = 0;
+            row++;
+        } else if (value === 1) {
+            return;
+        } else if (value === 2) {
+            x += bytes[offset++];
+            row += bytes[offset++];
+        } else {
+            // Absolute run of `value` indices, padded to a 16-bit boundary
+            const length = nibbles ? Math.ceil(value / 2) : value;
+            for (let i = 0; i < value; i++) {
+                const byte = bytes[offset + (nibbles ? i >> 1 : i)];
+                setIndex(x++, row, nibbles ? (i & 1 ? byte & 15 : byte >> 4) : byte);
+            }
+            offset += length + (length & 1);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import type { DecodeOptions, ImageInput } from "../interface";
+import { ImageDecodeError } from "../errors";
+import { decodeBmp } from "./bmp";
+import { decodeJpeg } from "./jpeg";
+import { decodePng, PNG_SIGNATURE } from "./png";
+import { decodePnm } from "./pnm";
+
+export type ImageFormat = "png" | "jpeg" | "bmp" | "pnm";
+
+/**
+ * Detect the format of an encoded image from its magic bytes, `null` when it is not supported
+ */
+export function detectImageFormat(bytes: Uint8Array | ArrayBuffer): ImageFormat | null {
+    const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    if (PNG_SIGNATURE.every((b, i) => data[i] === b)) return "png";
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "jpeg";
+    if (data[0] === 0x42 && data[1] === 0x4d) return "bmp";
+    if (data[0] === 0x50 && data[1] >= 0x31 && data[1] <= 0x37 && [0x09, 0x0a, 0x0d, 0x20].includes(data[2])) {
+        return "pnm";
+    }
+    return null;
+}
+
+/**
+ * Decode a PNG, JPEG, BMP or PNM file into RGBA pixels ready for {@link PaddleOcrService.recognize}.
+ * JPEG images are rotated according to their EXIF orientation.
+ * @throws {ImageDecodeError} When the data is invalid, or the image has more than `maxPixels` pixels
+ */
+export function decodeImage(bytes: Uint8Array | ArrayBuffer, options?: DecodeOptions): ImageInput {
+    const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    switch (detectImageFormat(data)) {
+        case "png":
+            return decodePng(data, options);
+        case "jpeg":
+            return decodeJpeg(data, true, options);
+        case "bmp":
+            return decodeBmp(data, options);
+        case "pnm":
+            return decodePnm(data, options);
+        default:
+            throw new ImageDecodeError("Unsupported image format: expected PNG, JPEG, BMP or PNM data");
+    }
+}
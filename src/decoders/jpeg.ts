@@ -0,0 +1,723 @@
+import type { DecodeOptions, ImageInput } from "../interface";
+import { ImageDecodeError } from "../errors";
+import { assertPixelCount } from "./limits";
+
+/**
+ * Natural order index of every zigzag position
+ */
+const ZIGZAG = new Int32Array([
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21,
+    28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+    47, 55, 62, 63,
+]);
+
+/**
+ * Scale factors of the AAN inverse DCT, folded into the dequantization:
+ * 1 for the DC term and `cos(k * π / 16) * √2` for the others
+ */
+const AAN_SCALES = new Float64Array(64);
+for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+        const scale = (k: number) => (k === 0 ? 1 : Math.cos((k * Math.PI) / 16) * Math.SQRT2);
+        AAN_SCALES[v * 8 + u] = scale(v) * scale(u);
+    }
+}
+
+interface HuffmanTable {
+    /** Largest code of every length, -1 when there is none. */
+    maxCode: Int32Array;
+    /** Code of the first symbol of every length. */
+    minCode: Int32Array;
+    /** Index in `values` of the first symbol of every length. */
+    valueOffset: Int32Array;
+    values: Uint8Array;
+}
+
+interface Component {
+    id: number;
+    h: number;
+    v: number;
+    quantizationTable: number;
+    blocksPerLine: number;
+    blocksPerColumn: number;
+    /** Blocks per line, padded to whole MCUs. */
+    blocksPerLineForMcu: number;
+    blocksPerColumnForMcu: number;
+    /** Coefficients of every block in natural order, 64 per block. */
+    blocks: Int16Array;
+    dcTable?: HuffmanTable;
+    acTable?: HuffmanTable;
+    prediction: number;
+}
+
+interface Frame {
+    progressive: boolean;
+    precision: number;
+    width: number;
+    height: number;
+    components: Component[];
+    maxH: number;
+    maxV: number;
+    mcusPerLine: number;
+    mcusPerColumn: number;
+}
+
+/**
+ * Decode a baseline or progressive (Huffman-coded) JPEG into 8-bit RGBA pixels, applying
+ * the EXIF orientation unless `applyOrientation` is false.
+ * Grayscale, YCbCr, RGB, CMYK and YCCK images are supported.
+ */
+export function decodeJpeg(bytes: Uint8Array, applyOrientation = true, options?: DecodeOptions): ImageInput {
+    const decoder = new JpegDecoder(bytes, options);
+    decoder.parse();
+    const image = decoder.toRgba();
+    return applyOrientation ? orient(image, decoder.orientation) : image;
+}
+
+class JpegDecoder {
+    /** EXIF orientation, 1 to 8. */
+    orientation = 1;
+
+    private readonly data: Uint8Array;
+    private readonly options?: DecodeOptions;
+    private offset = 0;
+    private frame: Frame | null = null;
+    private readonly quantizationTables: Int32Array[] = [];
+    private readonly dcTables: HuffmanTable[] = [];
+    private readonly acTables: HuffmanTable[] = [];
+    private restartInterval = 0;
+    /** Color transform flag of the Adobe APP14 segment, `null` without one. */
+    private adobeTransform: number | null = null;
+
+    constructor(data: Uint8Array, options?: DecodeOptions) {
+        this.data = data;
+        this.options = options;
+    }
+
+    parse() {
+        if (this.readUint16() !== 0xffd8) {
+            throw new ImageDecodeError("Invalid JPEG: missing SOI marker");
+        }
+        for (;;) {
+            if (this.offset + 2 > this.data.length) {
+                if (this.frame) return;
+                throw new ImageDecodeError("Invalid JPEG: unexpected end of file");
+            }
+            const marker = this.readUint16();
+            if (marker === 0xffd9) return;
+            if ((marker & 0xff00) !== 0xff00) {
+                throw new ImageDecodeError(`Invalid JPEG: expected a marker at offset ${this.offset - 2}`);
+            }
+            if (marker === 0xffff) {
+                // Fill byte before a marker
+                this.offset--;
+                continue;
+            }
+            if (marker >= 0xffd0 && marker <= 0xffd7) continue;
+
+            const length = this.readUint16();
+            const start = this.offset;
+            const end = start + length - 2;
+            if (end > this.data.length) {
+                throw new ImageDecodeError("Invalid JPEG: segment exceeds the file size");
+            }
+            const segment = this.data.subarray(start, end);
+
+            switch (marker) {
+                case 0xffe1:
+                    this.readExif(segment);
+                    break;
+                case 0xffee:
+                    if (String.fromCharCode(...segment.subarray(0, 5)) === "Adobe") {
+                        this.adobeTransform = segment[11] ?? 0;
+                    }
+                    break;
+                case 0xffdb:
+                    this.readQuantizationTables(segment);
+                    break;
+                case 0xffc0:
+                case 0xffc1:
+                case 0xffc2:
+                    this.readFrame(segment, marker === 0xffc2);
+                    break;
+                case 0xffc4:
+                    this.readHuffmanTables(segment);
+                    break;
+                case 0xffdd:
+                    this.restartInterval = (segment[0] << 8) | segment[1];
+                    break;
+                case 0xffda:
+                    this.offset = end;
+                    this.decodeScan(segment);
+                    continue;
+                default:
+                    if (marker >= 0xffc3 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8) {
+                        throw new ImageDecodeError(
+                            `Unsupported JPEG: only baseline and progressive Huffman coding are supported (SOF${marker - 0xffc0})`,
+                        );
+                    }
+            }
+            this.offset = end;
+        }
+    }
+
+    private readUint16(): number {
+        const value = (this.data[this.offset] << 8) | this.data[this.offset + 1];
+        this.offset += 2;
+        return value;
+    }
+
+    /**
+     * Read the orientation tag (0x0112) of the EXIF IFD0
+     */
+    private readExif(segment: Uint8Array) {
+        if (String.fromCharCode(...segment.subarray(0, 6)) !== "Exif\0\0") return;
+        const tiff = segment.subarray(6);
+        const little = tiff[0] === 0x49;
+        const u16 = (at: number) => (little ? tiff[at] | (tiff[at + 1] << 8) : (tiff[at] << 8) | tiff[at + 1]);
+        const u32 = (at: number) => (little ? u16(at) + u16(at + 2) * 65536 : u16(at) * 65536 + u16(at + 2));
+        if (tiff.length < 8) return;
+        const ifd = u32(4);
+        if (ifd + 2 > tiff.length) return;
+        const count = u16(ifd);
+        for (let i = 0; i < count; i++) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > tiff.length) return;
+            if (u16(entry) === 0x0112) {
+                const value = u16(entry + 8);
+                if (value >= 1 && value <= 8) this.orientation = value;
+                return;
+            }
+        }
+    }
+
+    private readQuantizationTables(segment: Uint8Array) {
+        let position = 0;
+        while (position < segment.length) {
+            const precision = segment[position] >> 4;
+            const id = segment[position++] & 15;
+            const table = new Int32Array(64);
+            for (let k = 0; k < 64; k++) {
+                if (precision) {
+                    table[ZIGZAG[k]] = (segment[position] << 8) | segment[position + 1];
+                    position += 2;
+                } else {
+                    table[ZIGZAG[k]] = segment[position++];
+                }
+            }
+            this.quantizationTables[id] = table;
+        }
+    }
+
+    private readHuffmanTables(segment: Uint8Array) {
+        let position = 0;
+        while (position < segment.length) {
+            const tableClass = segment[position] >> 4;
+            const id = segment[position++] & 15;
+            const counts = segment.subarray(position, position + 16);
+            position += 16;
+            const total = counts.reduce((sum, count) => sum + count, 0);
+            const values = segment.slice(position, position + total);
+            position += total;
+
+            const maxCode = new Int32Array(18).fill(-1);
+            const minCode = new Int32Array(17);
+            const valueOffset = new Int32Array(17);
+            let code = 0;
+            let index = 0;
+            for (let length = 1; length <= 16; length++) {
+                valueOffset[length] = index;
+                minCode[length] = code;
+                code += counts[length - 1];
+                index += counts[length - 1];
+                if (counts[length - 1]) maxCode[length] = code - 1;
+                code <<= 1;
+            }
+            (tableClass === 0 ? this.dcTables : this.acTables)[id] = { maxCode, minCode, valueOffset, values };
+        }
+    }
+
+    private readFrame(segment: Uint8Array, progressive: boolean) {
+        if (this.frame) {
+            throw new ImageDecodeError("Unsupported JPEG: multiple frames");
+        }
+        const precision = segment[0];
+        const height = (segment[1] << 8) | segment[2];
+        const width = (segment[3] << 8) | segment[4];
+        const count = segment[5];
+        if (!width || !height) {
+            throw new ImageDecodeError("Unsupported JPEG: image size is not defined in the frame header");
+        }
+        assertPixelCount("JPEG", width, height, this.options);
+        const components: Component[] = [];
+        for (let i = 0; i < count; i++) {
+            const at = 6 + i * 3;
+            components.push({
+                id: segment[at],
+                h: Math.max(1, segment[at + 1] >> 4),
+                v: Math.max(1, segment[at + 1] & 15),
+                quantizationTable: segment[at + 2],
+                blocksPerLine: 0,
+                blocksPerColumn: 0,
+                blocksPerLineForMcu: 0,
+                blocksPerColumnForMcu: 0,
+                blocks: new Int16Array(0),
+                prediction: 0,
+            });
+        }
+        const maxH = Math.max(...components.map((c) => c.h));
+        const maxV = Math.max(...components.map((c) => c.v));
+        const mcusPerLine = Math.ceil(width / 8 / maxH);
+        const mcusPerColumn = Math.ceil(height / 8 / maxV);
+        for (const component of components) {
+            component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+            component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+            component.blocksPerLineForMcu = mcusPerLine * component.h;
+            component.blocksPerColumnForMcu = mcusPerColumn * component.v;
+            component.blocks = new Int16Array(component.blocksPerLineForMcu * component.blocksPerColumnForMcu * 64);
+        }
+        this.frame = { progressive, precision, width, height, components, maxH, maxV, mcusPerLine, mcusPerColumn };
+    }
+
+    /**
+     * Decode the entropy-coded data following a scan header, leaving the offset on the next marker
+     */
+    private decodeScan(header: Uint8Array) {
+        const frame = this.frame;
+        if (!frame) {
+            throw new ImageDecodeError("Invalid JPEG: scan before frame header");
+        }
+        const count = header[0];
+        const components: Component[] = [];
+        for (let i = 0; i < count; i++) {
+            const component = frame.components.find((c) => c.id === header[1 + i * 2]);
+            if (!component) {
+                throw new ImageDecodeError("Invalid JPEG: scan references an unknown component");
+            }
+            const tables = header[2 + i * 2];
+            component.dcTable = this.dcTables[tables >> 4];
+            component.acTable = this.acTables[tables & 15];
+            components.push(component);
+        }
+        const position = 1 + count * 2;
+        const spectralStart = header[position];
+        const spectralEnd = header[position + 1];
+        const successiveHigh = header[position + 2] >> 4;
+        const successive = header[position + 2] & 15;
+
+        const data = this.data;
+        let bits = 0;
+        let bitCount = 0;
+        let offset = this.offset;
+
+        const readBit = (): number => {
+            if (bitCount > 0) return (bits >> --bitCount) & 1;
+            if (offset >= data.length) return 0;
+            bits = data[offset];
+            if (bits === 0xff) {
+                const next = data[offset + 1];
+                if (next !== 0) {
+                    // A marker ends the data: pad with zero bits without consuming it
+                    return 0;
+                }
+                offset++;
+            }
+            offset++;
+            bitCount = 7;
+            return bits >>> 7;
+        };
+        const receive = (length: number): number => {
+            let value = 0;
+            for (let i = 0; i < length; i++) value = (value << 1) | readBit();
+            return value;
+        };
+        const receiveExtend = (length: number): number => {
+            if (length === 0) return 0;
+            const value = receive(length);
+            return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+        };
+        const decodeHuffman = (table: HuffmanTable | undefined): number => {
+            if (!table) {
+                throw new ImageDecodeError("Invalid JPEG: missing Huffman table");
+            }
+            let code = readBit();
+            for (let length = 1; length <= 16; length++) {
+                if (code <= table.maxCode[length]) {
+                    return table.values[table.valueOffset[length] + code - table.minCode[length]];
+                }
+                code = (code << 1) | readBit();
+            }
+            throw new ImageDecodeError("Invalid JPEG: bad Huffman code");
+        };
+
+        let endOfBandRun = 0;
+        let refineState = 0;
+        let refineValue = 0;
+
+        const decodeBaseline = (component: Component, block: number) => {
+            const blocks = component.blocks;
+            const t = decodeHuffman(component.dcTable);
+            component.prediction += receiveExtend(t);
+            blocks[block] = component.prediction;
+            for (let k = 1; k < 64; ) {
+                const rs = decodeHuffman(component.acTable);
+                const s = rs & 15;
+                const r = rs >> 4;
+                if (s === 0) {
+                    if (r < 15) break;
+                    k += 16;
+                    continue;
+                }
+                k += r;
+                if (k > 63) break;
+                blocks[block + ZIGZAG[k]] = receiveExtend(s);
+                k++;
+            }
+        };
+        const decodeDcFirst = (component: Component, block: number) => {
+            const t = decodeHuffman(component.dcTable);
+            component.prediction += receiveExtend(t) * (1 << successive);
+            component.blocks[block] = component.prediction;
+        };
+        const decodeDcRefine = (component: Component, block: number) => {
+            if (readBit()) component.blocks[block] |= 1 << successive;
+        };
+        const decodeAcFirst = (component: Component, block: number) => {
+            if (endOfBandRun > 0) {
+                endOfBandRun--;
+                return;
+            }
+            for (let k = spectralStart; k <= spectralEnd; ) {
+                const rs = decodeHuffman(component.acTable);
+                const s = rs & 15;
+                const r = rs >> 4;
+                if (s === 0) {
+                    if (r < 15) {
+                        endOfBandRun = receive(r) + (1 << r) - 1;
+                        break;
+                    }
+                    k += 16;
+                    continue;
+                }
+                k += r;
+                if (k > 63) break;
+                component.blocks[block + ZIGZAG[k]] = receiveExtend(s) * (1 << successive);
+                k++;
+            }
+        };
+        const decodeAcRefine = (component: Component, block: number) => {
+            const blocks = component.blocks;
+            let run = 0;
+            for (let k = spectralStart; k <= spectralEnd; ) {
+                const z = block + ZIGZAG[k];
+                const sign = blocks[z] < 0 ? -1 : 1;
+                switch (refineState) {
+                    case 0: {
+                        // Read the next run/size pair
+                        const rs = decodeHuffman(component.acTable);
+                        const s = rs & 15;
+                        run = rs >> 4;
+                        if (s === 0) {
+                            if (run < 15) {
+                                endOfBandRun = receive(run) + (1 << run);
+                                refineState = 4;
+                            } else {
+                                run = 16;
+                                refineState = 1;
+                            }
+                        } else {
+                            if (s !== 1) {
+                                throw new ImageDecodeError("Invalid JPEG: bad successive approximation value");
+                            }
+                            refineValue = receiveExtend(s);
+                            refineState = run ? 2 : 3;
+                        }
+                        continue;
+                    }
+                    case 1:
+                    case 2:
+                        // Skip `run` zero coefficients, refining the non-zero ones on the way
+                        if (blocks[z]) {
+                            blocks[z] += sign * (readBit() << successive);
+                        } else if (--run === 0) {
+                            refineState = refineState === 2 ? 3 : 0;
+                        }
+                        break;
+                    case 3:
+                        // Place the new coefficient in the next zero position
+                        if (blocks[z]) {
+                            blocks[z] += sign * (readBit() << successive);
+                        } else {
+                            blocks[z] = refineValue << successive;
+                            refineState = 0;
+                        }
+                        break;
+                    case 4:
+                        // End of band: only refine
+                        if (blocks[z]) {
+                            blocks[z] += sign * (readBit() << successive);
+                        }
+                        break;
+                }
+                k++;
+            }
+            if (refineState === 4 && --endOfBandRun === 0) {
+                refineState = 0;
+            }
+        };
+
+        const decodeBlock = !frame.progressive
+            ? decodeBaseline
+            : spectralStart === 0
+              ? successiveHigh === 0
+                  ? decodeDcFirst
+                  : decodeDcRefine
+              : successiveHigh === 0
+                ? decodeAcFirst
+                : decodeAcRefine;
+        const blockOffset = (component: Component, row: number, column: number) =>
+            64 * (row * component.blocksPerLineForMcu + column);
+
+        const single = components.length === 1;
+        const totalMcus = single
+            ? components[0].blocksPerLine * components[0].blocksPerColumn
+            : frame.mcusPerLine * frame.mcusPerColumn;
+
+        let mcu = 0;
+        while (mcu < totalMcus) {
+            const mcusToRead = this.restartInterval ? Math.min(totalMcus - mcu, this.restartInterval) : totalMcus;
+            for (const component of components) component.prediction = 0;
+            endOfBandRun = 0;
+            refineState = 0;
+
+            for (let n = 0; n < mcusToRead; n++, mcu++) {
+                if (single) {
+                    const component = components[0];
+                    const row = Math.floor(mcu / component.blocksPerLine);
+                    const column = mcu % component.blocksPerLine;
+                    decodeBlock(component, blockOffset(component, row, column));
+                } else {
+                    const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+                    const mcuColumn = mcu % frame.mcusPerLine;
+                    for (const component of components) {
+                        for (let j = 0; j < component.v; j++) {
+                            for (let i = 0; i < component.h; i++) {
+                                const row = mcuRow * component.v + j;
+                                const column = mcuColumn * component.h + i;
+                                decodeBlock(component, blockOffset(component, row, column));
+                            }
+                        }
+                    }
+                }
+            }
+
+            // Byte-align and look for the restart marker, skipping any garbage before it
+            bitCount = 0;
+            while (
+                offset + 1 < data.length &&
+                !(data[offset] === 0xff && data[offset + 1] !== 0 && data[offset + 1] !== 0xff)
+            ) {
+                offset++;
+            }
+            if (offset + 1 >= data.length) break;
+            const marker = (data[offset] << 8) | data[offset + 1];
+            if (marker >= 0xffd0 && marker <= 0xffd7) {
+                offset += 2;
+            } else {
+                break;
+            }
+        }
+        this.offset = offset;
+    }
+
+    /**
+     * Dequantize and inverse-transform every component, upsample and convert to RGBA
+     */
+    toRgba(): ImageInput {
+        const frame = this.frame;
+        if (!frame) {
+            throw new ImageDecodeError("Invalid JPEG: no frame found");
+        }
+        const { width, height, maxH, maxV, precision } = frame;
+        const planes = frame.components.map((component) => this.buildPlane(component, precision));
+
+        const count = frame.components.length;
+        const ids = frame.components.map((c) => c.id);
+        const rgbIds = ids[0] === 0x52 && ids[1] === 0x47 && ids[2] === 0x42;
+        const ycc = count === 3 ? this.adobeTransform !== 0 && !rgbIds : this.adobeTransform === 2;
+
+        // Upsample every component to the full image size
+        const samples = frame.components.map((component, c) => {
+            const { data, stride } = planes[c];
+            const columns = new Int32Array(width);
+            for (let x = 0; x < width; x++) columns[x] = Math.floor((x * component.h) / maxH);
+            const full = new Uint8Array(width * height);
+            for (let y = 0; y < height; y++) {
+                const row = Math.floor((y * component.v) / maxV) * stride;
+                for (let x = 0, o = y * width; x < width; x++, o++) full[o] = data[row + columns[x]];
+            }
+            return full;
+        });
+
+        const output = new Uint8Array(width * height * 4);
+        const [c0, c1, c2, c3] = samples;
+        for (let i = 0, o = 0; i < width * height; i++, o += 4) {
+            let r = c0[i];
+            let g = r;
+            let b = r;
+            if (count >= 3) {
+                if (ycc) {
+                    const cb = c1[i] - 128;
+                    const cr = c2[i] - 128;
+                    r = r + 1.402 * cr;
+                    g = g - 0.344136 * cb - 0.714136 * cr;
+                    b = b + 1.772 * cb;
+                } else {
+                    g = c1[i];
+                    b = c2[i];
+                }
+            }
+            if (count === 4) {
+                // Adobe CMYK is stored inverted
+                const k = this.adobeTransform !== null ? c3[i] : 255 - c3[i];
+                if (this.adobeTransform === null) {
+                    r = 255 - r;
+                    g = 255 - g;
+                    b = 255 - b;
+                }
+                r = (r * k) / 255;
+                g = (g * k) / 255;
+                b = (b * k) / 255;
+            }
+            output[o] = clampSample(r, 255);
+            output[o + 1] = clampSample(g, 255);
+            output[o + 2] = clampSample(b, 255);
+            output[o + 3] = 255;
+        }
+        return { width, height, data: output };
+    }
+
+    private buildPlane(component: Component, precision: number): { data: Uint8Array; stride: number } {
+        const table = this.quantizationTables[component.quantizationTable];
+        if (!table) {
+            throw new ImageDecodeError("Invalid JPEG: missing quantization table");
+        }
+        const stride = component.blocksPerLineForMcu * 8;
+        const data = new Uint8Array(stride * component.blocksPerColumnForMcu * 8);
+        const scaled = new Float64Array(64);
+        for (let i = 0; i < 64; i++) scaled[i] = table[i] * AAN_SCALES[i];
+        const coefficients = new Float64Array(64);
+        const levelShift = 1 << (precision - 1);
+        const maxValue = (1 << precision) - 1;
+        const shift = precision - 8;
+
+        for (let row = 0; row < component.blocksPerColumn; row++) {
+            for (let column = 0; column < component.blocksPerLine; column++) {
+                const offset = 64 * (row * component.blocksPerLineForMcu + column);
+                let hasAc = false;
+                for (let i = 0; i < 64; i++) {
+                    coefficients[i] = component.blocks[offset + i] * scaled[i];
+                    if (i && coefficients[i]) hasAc = true;
+                }
+
+                const base = row * 8 * stride + column * 8;
+                if (!hasAc) {
+                    const value = clampSample(coefficients[0] / 8 + levelShift, maxValue) >> shift;
+                    for (let y = 0; y < 8; y++) data.fill(value, base + y * stride, base + y * stride + 8);
+                    continue;
+                }
+                for (let x = 0; x < 8; x++) idct1d(coefficients, x, 8);
+                for (let y = 0; y < 8; y++) {
+                    idct1d(coefficients, y * 8, 1);
+                    for (let x = 0; x < 8; x++) {
+                        const value = coefficients[y * 8 + x] / 8 + levelShift;
+                        data[base + y * stride + x] = clampSample(value, maxValue) >> shift;
+                    }
+                }
+            }
+        }
+        return { data, stride };
+    }
+}
+
+/**
+ * In-place one-dimensional AAN inverse DCT of the 8 values at `start`, `start + step`, ...
+ * (the floating-point variant of libjpeg)
+ */
+function idct1d(values: Float64Array, start: number, step: number) {
+    const at = (k: number) => start + k * step;
+    // Even part
+    const even0 = values[at(0)];
+    const even2 = values[at(2)];
+    const even4 = values[at(4)];
+    const even6 = values[at(6)];
+    const sum04 = even0 + even4;
+    const difference04 = even0 - even4;
+    const sum26 = even2 + even6;
+    const rotated26 = (even2 - even6) * 1.414213562 - sum26;
+    const e0 = sum04 + sum26;
+    const e3 = sum04 - sum26;
+    const e1 = difference04 + rotated26;
+    const e2 = difference04 - rotated26;
+
+    // Odd part
+    const z13 = values[at(5)] + values[at(3)];
+    const z10 = values[at(5)] - values[at(3)];
+    const z11 = values[at(1)] + values[at(7)];
+    const z12 = values[at(1)] - values[at(7)];
+    const o7 = z11 + z13;
+    const o11 = (z11 - z13) * 1.414213562;
+    const z5 = (z10 + z12) * 1.847759065;
+    const o10 = 1.0823922 * z12 - z5;
+    const o12 = -2.61312593 * z10 + z5;
+    const o6 = o12 - o7;
+    const o5 = o11 - o6;
+    const o4 = o10 + o5;
+
+    values[at(0)] = e0 + o7;
+    values[at(7)] = e0 - o7;
+    values[at(1)] = e1 + o6;
+    values[at(6)] = e1 - o6;
+    values[at(2)] = e2 + o5;
+    values[at(5)] = e2 - o5;
+    values[at(4)] = e3 + o4;
+    values[at(3)] = e3 - o4;
+}
+
+function clampSample(value: number, maxValue: number): number {
+    return value < 0 ? 0 : value > maxValue ? maxValue : Math.round(value);
+}
+
+/**
+ * Transform pixels according to an EXIF orientation so that they display upright
+ */
+function orient(image: ImageInput, orientation: number): ImageInput {
+    if (orientation <= 1 || orientation > 8) return image;
+    const { width, height, data } = image;
+    const swap = orientation >= 5;
+    const outWidth = swap ? height : width;
+    const outHeight = swap ? width : height;
+    const output = new Uint8Array(data.length);
+    const source: Record<number, (x: number, y: number) => [number, number]> = {
+        2: (x, y) => [width - 1 - x, y],
+        3: (x, y) => [width - 1 - x, height - 1 - y],
+        4: (x, y) => [x, height - 1 - y],
+        5: (x, y) => [y, x],
+        6: (x, y) => [y, height - 1 - x],
+        7: (x, y) => [width - 1 - y, height - 1 - x],
+        8: (x, y) => [width - 1 - y, x],
+    };
+    const map = source[orientation];
+    for (let y = 0; y < outHeight; y++) {
+        for (let x = 0; x < outWidth; x++) {
+            const [sx, sy] = map(x, y);
+            const from = (sy * width + sx) * 4;
+            const to = (y * outWidth + x) * 4;
+            output[to] = data[from];
+            output[to + 1] = data[from + 1];
+            output[to + 2] = data[from + 2];
+            output[to + 3] = data[from + 3];
+        }
+    }
+    return { width: outWidth, height: outHeight, data: output };
+}
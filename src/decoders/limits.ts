@@ -0,0 +1,17 @@
+import type { DecodeOptions } from "../interface";
+import { DEFAULT_DECODE_OPTIONS } from "../constants";
+import { ImageDecodeError } from "../errors";
+
+/**
+ * Refuse an image whose header declares more than `maxPixels` pixels
+ * @param format Name of the format in the error message, e.g. `"PNG"`
+ * @throws {ImageDecodeError} When the image is too large
+ */
+export function assertPixelCount(format: string, width: number, height: number, options: DecodeOptions = {}): void {
+    const { maxPixels } = { ...DEFAULT_DECODE_OPTIONS, ...options };
+    if (width * height > maxPixels) {
+        throw new ImageDecodeError(
+            `${format} image of ${width}x${height} pixels exceeds the limit of ${maxPixels} pixels`,
+        );
+    }
+}
@@ -0,0 +1,250 @@
+import type { DecodeOptions, ImageInput } from "../interface";
+import { ImageDecodeError } from "../errors";
+import { inflate } from "../utils/zlib";
+import { assertPixelCount } from "./limits";
+
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Adam7 passes as `[xStart, yStart, xStep, yStep]`
+ */
+const ADAM7_PASSES = [
+    [0, 0, 8, 8],
+    [4, 0, 8, 8],
+    [0, 4, 4, 8],
+    [2, 0, 4, 4],
+    [0, 2, 2, 4],
+    [1, 0, 2, 2],
+    [0, 1, 1, 2],
+];
+
+/**
+ * Largest expansion of DEFLATE, whose longest match of 258 bytes takes at least 2 bits
+ */
+const MAX_DEFLATE_RATIO = 1032;
+
+/** Samples per pixel of every PNG color type. */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decode a PNG file into 8-bit RGBA pixels. Supports every color type and bit depth,
+ * palettes with `tRNS` transparency and Adam7 interlacing; 16-bit samples are reduced to 8 bits.
+ */
+export function decodePng(bytes: Uint8Array, options?: DecodeOptions): ImageInput {
+    if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+        throw new ImageDecodeError("Invalid PNG: bad signature");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    let colorType = 0;
+    let interlaced = false;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (data.length !== length) {
+            throw new ImageDecodeError(`Invalid PNG: truncated ${type} chunk`);
+        }
+        offset += 12 + length;
+
+        if (type === "IHDR") {
+            width = view.getUint32(data.byteOffset - bytes.byteOffset);
+            height = view.getUint32(data.byteOffset - bytes.byteOffset + 4);
+            [bitDepth, colorType] = [data[8], data[9]];
+            if (data[10] !== 0 || data[11] !== 0) {
+                throw new ImageDecodeError("Invalid PNG: unknown compression or filter method");
+            }
+            interlaced = data[12] === 1;
+        } else if (type === "PLTE") {
+            palette = data;
+        } else if (type === "tRNS") {
+            transparency = data;
+        } else if (type === "IDAT") {
+            idat.push(data);
+        } else if (type === "IEND") {
+            break;
+        }
+    }
+
+    const channels = CHANNELS[colorType];
+    if (!width || !height || !channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+        throw new ImageDecodeError(`Invalid PNG: unsupported header (color type ${colorType}, bit depth ${bitDepth})`);
+    }
+    assertPixelCount("PNG", width, height, options);
+    if (colorType === 3 && !palette) {
+        throw new ImageDecodeError("Invalid PNG: missing palette");
+    }
+    if (!idat.length) {
+        throw new ImageDecodeError("Invalid PNG: no image data");
+    }
+
+    // Size of the filtered scanlines of every pass, each starting with its filter type
+    const passes = interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+    const expected = passes.reduce((sum, [x0, y0, dx, dy]) => {
+        const passWidth = Math.ceil((width - x0) / dx);
+        const passHeight = Math.ceil((height - y0) / dy);
+        return passWidth > 0 && passHeight > 0
+            ? sum + passHeight * (1 + Math.ceil((passWidth * channels * bitDepth) / 8))
+            : sum;
+    }, 0);
+    const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+    idat.reduce((position, chunk) => (compressed.set(chunk, position), position + chunk.length), 0);
+    let raw: Uint8Array;
+    try {
+        // A forged header must not size the buffer beyond what the data can expand to
+        raw = inflate(compressed, Math.min(expected, compressed.length * MAX_DEFLATE_RATIO));
+    } catch (error) {
+        throw new ImageDecodeError(`Invalid PNG: ${(error as Error).message}`);
+    }
+
+    if (raw.length < expected) {
+        throw new ImageDecodeError("Invalid PNG: image data is truncated");
+    }
+
+    const output = new Uint8Array(width * height * 4);
+    const writePixels = createPixelWriter(output, width, colorType, bitDepth, palette, transparency);
+    let position = 0;
+    for (const [x0, y0, dx, dy] of passes) {
+        const passWidth = Math.ceil((width - x0) / dx);
+        const passHeight = Math.ceil((height - y0) / dy);
+        if (passWidth <= 0 || passHeight <= 0) continue;
+        const stride = Math.ceil((passWidth * channels * bitDepth) / 8);
+        const bytesPerPixel = Math.max(1, (channels * bitDepth) >> 3);
+        let previous = new Uint8Array(stride);
+        for (let row = 0; row < passHeight; row++) {
+            const line = raw.slice(position + 1, position + 1 + stride);
+            unfilter(raw[position], line, previous, bytesPerPixel);
+            position += 1 + stride;
+            writePixels(line, y0 + row * dy, x0, dx, passWidth);
+            previous = line;
+        }
+    }
+    return { width, height, data: output };
+}
+
+function unfilter(filter: number, line: Uint8Array, previous: Uint8Array, bpp: number) {
+    switch (filter) {
+        case 0:
+            return;
+        case 1:
+            for (let i = bpp; i < line.length; i++) line[i] += line[i - bpp];
+            return;
+        case 2:
+            for (let i = 0; i < line.length; i++) line[i] += previous[i];
+            return;
+        case 3:
+            for (let i = 0; i < line.length; i++) {
+                line[i] += ((i >= bpp ? line[i - bpp] : 0) + previous[i]) >> 1;
+            }
+            return;
+        case 4:
+            for (let i = 0; i < line.length; i++) {
+                const a = i >= bpp ? line[i - bpp] : 0;
+                const b = previous[i];
+                const c = i >= bpp ? previous[i - bpp] : 0;
+                const p = a + b - c;
+                const pa = Math.abs(p - a);
+                const pb = Math.abs(p - b);
+                const pc = Math.abs(p - c);
+                line[i] += pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+            }
+            return;
+        default:
+            throw new ImageDecodeError(`Invalid PNG: unknown filter type ${filter}`);
+    }
+}
+
+/**
+ * Converter from an unfiltered scanline to RGBA pixels at `(x0 + i * dx, y)`
+ */
+function createPixelWriter(
+    output: Uint8Array,
+    width: number,
+    colorType: number,
+    bitDepth: number,
+    palette: Uint8Array | null,
+    transparency: Uint8Array | null,
+) {
+    const channels = CHANNELS[colorType];
+    const maxValue = (1 << Math.min(bitDepth, 8)) - 1;
+    // Sample `index` of the line, scaled to 8 bits
+    const sample = (line: Uint8Array, index: number): number => {
+        if (bitDepth === 8) return line[index];
+        if (bitDepth === 16) return line[index * 2];
+        const bit = index * bitDepth;
+        const value = (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxValue;
+        return colorType === 3 ? value : Math.round((value * 255) / maxValue);
+    };
+    // Full-precision sample, compared against tRNS color keys
+    const rawSample = (line: Uint8Array, index: number): number => {
+        if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+        if (bitDepth === 8) return line[index];
+        const bit = index * bitDepth;
+        return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxValue;
+    };
+    const key =
+        transparency && (colorType === 0 || colorType === 2)
+            ? Array.from(
+                  { length: colorType === 0 ? 1 : 3 },
+                  (_, i) => (transparency[i * 2] << 8) | transparency[i * 2 + 1],
+              )
+            : null;
+
+    const write = (o: number, r: number, g: number, b: number, a: number) => {
+        output[o] = r;
+        output[o + 1] = g;
+        output[o + 2] = b;
+        output[o + 3] = a;
+    };
+
+    return (line: Uint8Array, y: number, x0: number, dx: number, count: number) => {
+        for (let i = 0; i < count; i++) {
+            const o = (y * width + x0 + i * dx) * 4;
+            const s = i * channels;
+            switch (colorType) {
+                case 0: {
+                    const gray = sample(line, s);
+                    write(o, gray, gray, gray, key && rawSample(line, s) === key[0] ? 0 : 255);
+                    break;
+                }
+                case 2: {
+                    const transparent =
+                        key &&
+                        rawSample(line, s) === key[0] &&
+                        rawSample(line, s + 1) === key[1] &&
+                        rawSample(line, s + 2) === key[2];
+                    write(o, sample(line, s), sample(line, s + 1), sample(line, s + 2), transparent ? 0 : 255);
+                    break;
+                }
+                case 3: {
+                    const index = sample(line, s);
+                    const alpha = transparency && index < transparency.length ? transparency[index] : 255;
+                    write(
+                        o,
+                        palette![index * 3] ?? 0,
+                        palette![index * 3 + 1] ?? 0,
+                        palette![index * 3 + 2] ?? 0,
+                        alpha,
+                    );
+                    break;
+                }
+                case 4: {
+                    const gray = sample(line, s);
+                    write(o, gray, gray, gray, sample(line, s + 1));
+                    break;
+                }
+                case 6:
+                    write(o, sample(line, s), sample(line, s + 1), sample(line, s + 2), sample(line, s + 3));
+                    break;
+            }
+        }
+    };
+}
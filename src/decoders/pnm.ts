@@ -0,0 +1,149 @@
+import type { DecodeOptions, ImageInput } from "../interface";
+import { ImageDecodeError } from "../errors";
+import { assertPixelCount } from "./limits";
+
+/**
+ * Channel count of the PAM (`P7`) tuple types
+ */
+const TUPLE_TYPES: Record<string, number> = {
+    BLACKANDWHITE: 1,
+    GRAYSCALE: 1,
+    GRAYSCALE_ALPHA: 2,
+    RGB: 3,
+    RGB_ALPHA: 4,
+};
+
+/**
+ * Decode a Netpbm image into 8-bit RGBA pixels: plain and raw PBM, PGM and PPM (`P1` to `P6`)
+ * and PAM (`P7`), with maximum values up to 65535
+ */
+export function decodePnm(bytes: Uint8Array, options?: DecodeOptions): ImageInput {
+    const magic = String.fromCharCode(bytes[0], bytes[1]);
+    if (!/^P[1-7]$/.test(magic)) {
+        throw new ImageDecodeError("Invalid PNM: bad magic number");
+    }
+    const kind = Number(magic[1]);
+    let offset = 2;
+
+    /** Next whitespace-separated header token, skipping `#` comments */
+    const token = (): string => {
+        for (;;) {
+            while (offset < bytes.length && isSpace(bytes[offset])) offset++;
+            if (bytes[offset] !== 0x23) break;
+            while (offset < bytes.length && bytes[offset] !== 0x0a && bytes[offset] !== 0x0d) offset++;
+        }
+        const start = offset;
+        while (offset < bytes.length && !isSpace(bytes[offset]) && bytes[offset] !== 0x23) offset++;
+        if (start === offset) {
+            throw new ImageDecodeError("Invalid PNM: unexpected end of file");
+        }
+        return String.fromCharCode(...bytes.subarray(start, offset));
+    };
+    const integer = (): number => {
+        const value = token();
+        if (!/^\d+$/.test(value)) {
+            throw new ImageDecodeError(`Invalid PNM: expected a number, found "${value}"`);
+        }
+        return Number(value);
+    };
+
+    let width: number;
+    let height: number;
+    let channels: number;
+    let maxValue: number;
+    let bitmap = kind === 1 || kind === 4;
+    if (kind === 7) {
+        const header: Record<string, string> = {};
+        for (let key = token(); key !== "ENDHDR"; key = token()) {
+            header[key] = token();
+        }
+        width = Number(header.WIDTH);
+        height = Number(header.HEIGHT);
+        channels = Number(header.DEPTH);
+        maxValue = Number(header.MAXVAL);
+        if (
+            header.TUPLTYPE &&
+            TUPLE_TYPES[header.TUPLTYPE] !== undefined &&
+            TUPLE_TYPES[header.TUPLTYPE] !== channels
+        ) {
+            throw new ImageDecodeError(`Invalid PNM: tuple type ${header.TUPLTYPE} with depth ${channels}`);
+        }
+        // Unlike PBM, PAM bitmaps store 1 for white
+        bitmap = false;
+    } else {
+        width = integer();
+        height = integer();
+        channels = kind === 3 || kind === 6 ? 3 : 1;
+        maxValue = bitmap ? 1 : integer();
+    }
+    if (!(width > 0 && height > 0) || !(channels >= 1 && channels <= 4) || !(maxValue >= 1 && maxValue <= 65535)) {
+        throw new ImageDecodeError(
+            `Invalid PNM: bad header (${width}x${height}, depth ${channels}, maxval ${maxValue})`,
+        );
+    }
+    assertPixelCount("PNM", width, height, options);
+
+    const count = width * height * channels;
+    const samples = new Uint16Array(count);
+    if (kind <= 3) {
+        for (let i = 0; i < count; i++) {
+            if (kind === 1) {
+                // Plain PBM digits do not need separating whitespace
+                while (offset < bytes.length && (isSpace(bytes[offset]) || bytes[offset] === 0x23)) {
+                    if (bytes[offset] === 0x23) token();
+                    else offset++;
+                }
+                samples[i] = bytes[offset++] === 0x31 ? 1 : 0;
+            } else {
+                samples[i] = integer();
+            }
+        }
+    } else {
+        // A single whitespace character separates the header from the raster
+        offset++;
+        if (kind === 4) {
+            const stride = Math.ceil(width / 8);
+            if (offset + stride * height > bytes.length) {
+                throw new ImageDecodeError("Invalid PNM: truncated raster");
+            }
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    samples[y * width + x] = (bytes[offset + y * stride + (x >> 3)] >> (7 - (x & 7))) & 1;
+                }
+            }
+        } else {
+            const wide = maxValue > 255;
+            if (offset + count * (wide ? 2 : 1) > bytes.length) {
+                throw new ImageDecodeError("Invalid PNM: truncated raster");
+            }
+            for (let i = 0; i < count; i++) {
+                samples[i] = wide ? (bytes[offset + i * 2] << 8) | bytes[offset + i * 2 + 1] : bytes[offset + i];
+            }
+        }
+    }
+
+    const data = new Uint8Array(width * height * 4);
+    const scale = (value: number) => Math.round((Math.min(value, maxValue) * 255) / maxValue);
+    for (let i = 0, o = 0; i < width * height; i++, o += 4) {
+        const s = i * channels;
+        if (bitmap) {
+            // PBM stores 1 for black
+            const value = samples[s] ? 0 : 255;
+            data[o] = data[o + 1] = data[o + 2] = value;
+            data[o + 3] = 255;
+        } else if (channels <= 2) {
+            data[o] = data[o + 1] = data[o + 2] = scale(samples[s]);
+            data[o + 3] = channels === 2 ? scale(samples[s + 1]) : 255;
+        } else {
+            data[o] = scale(samples[s]);
+            data[o + 1] = scale(samples[s + 1]);
+            data[o + 2] = scale(samples[s + 2]);
+            data[o + 3] = channels === 4 ? scale(samples[s + 3]) : 255;
+        }
+    }
+    return { width, height, data };
+}
+
+function isSpace(byte: number): boolean {
+    return byte === 0x20 || (byte >= 0x09 && byte <= 0x0d);
+}
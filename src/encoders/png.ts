@@ -0,0 +1,96 @@
+import type { ImageInput } from "../interface";
+import { PNG_SIGNATURE } from "../decoders/png";
+import { crc32, deflate } from "../utils/zlib";
+
+/** PNG color type of every channel count: gray, gray + alpha, RGB and RGBA. */
+const COLOR_TYPES: Record<number, number> = { 1: 0, 2: 4, 3: 2, 4: 6 };
+
+/**
+ * Encode 8-bit pixels as a PNG file. The channel count (1 to 4) is taken from `channels`
+ * or derived from the data length. Every row uses the filter with the smallest sum of
+ * absolute differences, as libpng does.
+ */
+export function encodePng(image: ImageInput & { channels?: number }): Uint8Array {
+    const { width, height, data } = image;
+    const channels = image.channels ?? data.length / (width * height);
+    const colorType = COLOR_TYPES[channels];
+    if (colorType === undefined || data.length !== width * height * channels) {
+        throw new Error(`Cannot encode ${data.length} bytes as a ${width}x${height} PNG`);
+    }
+
+    const stride = width * channels;
+    const filtered = new Uint8Array((stride + 1) * height);
+    const candidate = new Uint8Array(stride);
+    for (let y = 0; y < height; y++) {
+        const row = data.subarray(y * stride, (y + 1) * stride);
+        const previous = y > 0 ? data.subarray((y - 1) * stride, y * stride) : null;
+        let bestFilter = 0;
+        let bestScore = Infinity;
+        for (let filter = 0; filter <= 4; filter++) {
+            let score = 0;
+            for (let i = 0; i < stride; i++) {
+                const a = i >= channels ? row[i - channels] : 0;
+                const b = previous ? previous[i] : 0;
+                const c = previous && i >= channels ? previous[i - channels] : 0;
+                const value = (row[i] - predict(filter, a, b, c)) & 0xff;
+                candidate[i] = value;
+                score += value < 128 ? value : 256 - value;
+            }
+            if (score < bestScore) {
+                bestScore = score;
+                bestFilter = filter;
+                filtered.set(candidate, y * (stride + 1) + 1);
+            }
+        }
+        filtered[y * (stride + 1)] = bestFilter;
+    }
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    header.set([8, colorType, 0, 0, 0], 8);
+
+    const chunks = [chunk("IHDR", header), chunk("IDAT", deflate(filtered)), chunk("IEND", new Uint8Array(0))];
+    const output = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((sum, c) => sum + c.length, 0));
+    output.set(PNG_SIGNATURE, 0);
+    let offset = PNG_SIGNATURE.length;
+    for (const c of chunks) {
+        output.set(c, offset);
+        offset += c.length;
+    }
+    return output;
+}
+
+function predict(filter: number, a: number, b: number, c: number): number {
+    switch (filter) {
+        case 1:
+            return a;
+        case 2:
+            return b;
+        case 3:
+            return (a + b) >> 1;
+        case 4: {
+            const p = a + b - c;
+            const pa = Math.abs(p - a);
+            const pb = Math.abs(p - b);
+            const pc = Math.abs(p - c);
+            return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+        }
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Length, type, data and CRC of a PNG chunk
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+    const output = new Uint8Array(data.length + 12);
+    const view = new DataView(output.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) output[4 + i] = type.charCodeAt(i);
+    output.set(data, 8);
+    view.setUint32(data.length + 8, crc32(output.subarray(4, data.length + 8)));
+    return output;
+}
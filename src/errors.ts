@@ -0,0 +1,43 @@
+/**
+ * Thrown when input bytes are not a supported or valid image
+ */
+export class ImageDecodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ImageDecodeError";
+    }
+}
+
+/**
+ * Thrown when a model, its manifest or its dictionary does not match what the services expect
+ */
+export class ModelValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ModelValidationError";
+    }
+}
+
+/**
+ * Thrown when a run is cancelled through its `AbortSignal`
+ */
+export class OcrAbortError extends Error {
+    /** The `reason` of the aborted signal. */
+    readonly reason: unknown;
+
+    constructor(reason?: unknown) {
+        super("The OCR run was aborted");
+        this.name = "OcrAbortError";
+        this.reason = reason;
+    }
+}
+
+/**
+ * Stop a run between two inference calls once its signal is aborted
+ * @throws {OcrAbortError} When `signal` is aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new OcrAbortError(signal.reason);
+    }
+}
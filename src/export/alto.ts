@@ -0,0 +1,111 @@
+import type { Box } from "../interface";
+import type { PageLayout } from "../layout/layout";
+import { assemblePageLayout, pageSize, type ExportOptions } from "./page";
+import { findElements, parseXml, writeXml, xmlElement, type XmlElement } from "./xml";
+
+const ALTO_NAMESPACE = "http://www.loc.gov/standards/alto/ns-v4#";
+const ALTO_SCHEMA = "http://www.loc.gov/standards/alto/v4/alto-4-4.xsd";
+
+function position(box: Box): Record<string, number> {
+    return { HPOS: box.x, VPOS: box.y, WIDTH: box.width, HEIGHT: box.height };
+}
+
+/**
+ * Export a page layout as an ALTO v4 document with pixel measurements
+ */
+export function toAlto(layout: PageLayout, options: ExportOptions = {}): string {
+    const { width, height } = pageSize(layout);
+
+    const blocks = layout.blocks.map((block, b) =>
+        xmlElement(
+            "TextBlock",
+            { ID: `block_${b + 1}`, ...position(block.box) },
+            block.lines.map((line, l) => {
+                const children = line.words.flatMap((word, w) => {
+                    const string = xmlElement("String", {
+                        ID: `string_${b + 1}_${l + 1}_${w + 1}`,
+                        CONTENT: word.text,
+                        WC: Number(word.confidence.toFixed(4)),
+                        ...position(word.box),
+                    });
+                    const next = line.words[w + 1];
+                    if (!next) return [string];
+                    // The space element lies between the two words along the reading direction
+                    const space =
+                        line.direction === "vertical"
+                            ? {
+                                  HPOS: word.box.x,
+                                  VPOS: word.box.y + word.box.height,
+                                  WIDTH: Math.max(0, next.box.y - word.box.y - word.box.height),
+                              }
+                            : {
+                                  HPOS: word.box.x + word.box.width,
+                                  VPOS: word.box.y,
+                                  WIDTH: Math.max(0, next.box.x - word.box.x - word.box.width),
+                              };
+                    return [string, xmlElement("SP", space)];
+                });
+                return xmlElement("TextLine", { ID: `line_${b + 1}_${l + 1}`, ...position(line.box) }, children);
+            }),
+        ),
+    );
+
+    const description = xmlElement("Description", {}, [
+        xmlElement("MeasurementUnit", {}, ["pixel"]),
+        ...(options.imageName
+            ? [xmlElement("sourceImageInformation", {}, [xmlElement("fileName", {}, [options.imageName])])]
+            : []),
+        xmlElement("Processing", { ID: "processing_1" }, [
+            xmlElement("processingSoftware", {}, [xmlElement("softwareName", {}, ["paddleocr.js"])]),
+        ]),
+    ]);
+    const page = xmlElement("Page", { ID: "page_1", PHYSICAL_IMG_NR: 1, WIDTH: width, HEIGHT: height }, [
+        xmlElement("PrintSpace", { HPOS: 0, VPOS: 0, WIDTH: width, HEIGHT: height }, blocks),
+    ]);
+    const alto = xmlElement(
+        "alto",
+        {
+            xmlns: ALTO_NAMESPACE,
+            "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+            "xsi:schemaLocation": `${ALTO_NAMESPACE} ${ALTO_SCHEMA}`,
+        },
+        [description, xmlElement("Layout", {}, [page])],
+    );
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${writeXml(alto)}\n`;
+}
+
+/**
+ * Parse the first page of an ALTO document back into a page layout
+ */
+export function parseAlto(source: string): PageLayout {
+    const root = parseXml(source);
+    const [page] = findElements(root, "Page");
+    if (!page) {
+        throw new Error("Invalid ALTO: no Page element found");
+    }
+
+    const blocks = findElements(page, "TextBlock").map((block) => ({
+        box: readPosition(block),
+        lines: findElements(block, "TextLine").map((line) => ({
+            box: readPosition(line),
+            words: findElements(line, "String")
+                .map((string) => ({
+                    text: string.attributes.CONTENT ?? "",
+                    box: readPosition(string),
+                    confidence: Number(string.attributes.WC ?? 0),
+                }))
+                .filter((word) => word.text),
+        })),
+    }));
+
+    return assemblePageLayout(blocks, optionalNumber(page.attributes.WIDTH), optionalNumber(page.attributes.HEIGHT));
+}
+
+function readPosition(element: XmlElement): Box {
+    const { HPOS, VPOS, WIDTH, HEIGHT } = element.attributes;
+    return { x: Number(HPOS ?? 0), y: Number(VPOS ?? 0), width: Number(WIDTH ?? 0), height: Number(HEIGHT ?? 0) };
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+    return value === undefined || !Number.isFinite(Number(value)) ? undefined : Number(value);
+}
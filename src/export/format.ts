@@ -0,0 +1,66 @@
+import { analyzeLayout } from "../layout/layout";
+import type { RecognitionResult } from "../processor/recognition";
+import { toHocr } from "./hocr";
+
+/**
+ * Output formats of the command line and the HTTP server
+ */
+export type OutputFormat = "text" | "json" | "tsv" | "hocr";
+
+export const FORMATS: OutputFormat[] = ["text", "json", "tsv", "hocr"];
+
+/**
+ * Recognized text of one image
+ */
+export interface OutputPage {
+    /** Path of the image, `-` when it was read from standard input or a request. */
+    file: string;
+    width: number;
+    height: number;
+    results: RecognitionResult[];
+}
+
+export const TSV_HEADER = "file\tx\ty\twidth\theight\tconfidence\ttext\n";
+
+/**
+ * File extension of every output format
+ */
+export const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+    text: "txt",
+    json: "json",
+    tsv: "tsv",
+    hocr: "hocr",
+};
+
+/**
+ * Serialize a page in an output format
+ * @param standalone Whether the page gets its own file: json is then indented and tsv has its header
+ */
+export function formatPage(page: OutputPage, format: OutputFormat, standalone: boolean): string {
+    const { file, width, height, results } = page;
+    switch (format) {
+        case "text":
+            return `${analyzeLayout(results, { width, height }).text}\n`;
+        case "json":
+            return `${JSON.stringify({ file, width, height, results }, null, standalone ? 2 : undefined)}\n`;
+        case "tsv":
+            return (standalone ? TSV_HEADER : "") + results.map((result) => tsvRow(file, result)).join("");
+        case "hocr":
+            return toHocr(analyzeLayout(results, { width, height }), { imageName: file === "-" ? undefined : file });
+    }
+}
+
+function tsvRow(file: string, result: RecognitionResult): string {
+    const { x, y, width, height } = result.box;
+    const cells = [
+        file,
+        Math.round(x),
+        Math.round(y),
+        Math.round(width),
+        Math.round(height),
+        result.confidence.toFixed(4),
+        result.text,
+    ];
+    // Tabs and line breaks inside a cell would shift the columns
+    return `${cells.map((cell) => String(cell).replace(/[\t\r\n]/g, " ")).join("\t")}\n`;
+}
@@ -0,0 +1,150 @@
+import type { Box } from "../interface";
+import type { LayoutWord, PageLayout } from "../layout/layout";
+import { assemblePageLayout, pageSize, type ExportOptions, type ParsedBlock } from "./page";
+import { findElements, parseXml, textContent, writeXml, xmlElement, type XmlElement } from "./xml";
+
+const OCR_SYSTEM = "paddleocr.js";
+
+/**
+ * Classes of hOCR elements read as text lines
+ */
+const LINE_CLASSES = ["ocr_line", "ocr_header", "ocr_caption", "ocr_textfloat"];
+
+function bboxTitle(box: Box): string {
+    return `bbox ${box.x} ${box.y} ${box.x + box.width} ${box.y + box.height}`;
+}
+
+function confidenceTitle(confidence: number): string {
+    return `x_wconf ${Math.round(confidence * 100)}`;
+}
+
+/**
+ * Export a page layout as an hOCR 1.2 (XHTML) document
+ */
+export function toHocr(layout: PageLayout, options: ExportOptions = {}): string {
+    const { width, height } = pageSize(layout);
+    const image = options.imageName ? `image "${options.imageName.replace(/"/g, "")}"; ` : "";
+
+    const blocks = layout.blocks.map((block, b) => {
+        const lines = block.lines.map((line, l) => {
+            const words = line.words.map((word, w) =>
+                xmlElement(
+                    "span",
+                    {
+                        class: "ocrx_word",
+                        id: `word_1_${b + 1}_${l + 1}_${w + 1}`,
+                        title: `${bboxTitle(word.box)}; ${confidenceTitle(word.confidence)}`,
+                    },
+                    [word.text],
+                ),
+            );
+            return xmlElement(
+                "span",
+                {
+                    class: "ocr_line",
+                    id: `line_1_${b + 1}_${l + 1}`,
+                    title: `${bboxTitle(line.box)}; ${confidenceTitle(line.confidence)}`,
+                },
+                words,
+            );
+        });
+        const paragraph = xmlElement(
+            "p",
+            { class: "ocr_par", id: `par_1_${b + 1}`, title: bboxTitle(block.box) },
+            lines,
+        );
+        return xmlElement("div", { class: "ocr_carea", id: `block_1_${b + 1}`, title: bboxTitle(block.box) }, [
+            paragraph,
+        ]);
+    });
+
+    const page = xmlElement(
+        "div",
+        { class: "ocr_page", id: "page_1", title: `${image}${bboxTitle({ x: 0, y: 0, width, height })}; ppageno 0` },
+        blocks,
+    );
+    const head = xmlElement("head", {}, [
+        xmlElement("title", {}, [options.imageName ?? ""]),
+        xmlElement("meta", { "http-equiv": "Content-Type", content: "text/html;charset=utf-8" }),
+        xmlElement("meta", { name: "ocr-system", content: OCR_SYSTEM }),
+        xmlElement("meta", {
+            name: "ocr-capabilities",
+            content: "ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf",
+        }),
+    ]);
+    const html = xmlElement("html", { xmlns: "http://www.w3.org/1999/xhtml", "xml:lang": "en", lang: "en" }, [
+        head,
+        xmlElement("body", {}, [page]),
+    ]);
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+        writeXml(html),
+        "",
+    ].join("\n");
+}
+
+/**
+ * Parse the first page of an hOCR document back into a page layout.
+ * Content areas (or paragraphs, when there are none) become blocks.
+ */
+export function parseHocr(source: string): PageLayout {
+    const root = parseXml(source);
+    const [page] = findElements(root, (e) => hasClass(e, "ocr_page"));
+    if (!page) {
+        throw new Error("Invalid hOCR: no ocr_page element found");
+    }
+    const pageBox = parseTitle(page).bbox;
+
+    const isLine = (e: XmlElement) => LINE_CLASSES.some((name) => hasClass(e, name));
+    let areas = findElements(page, (e) => hasClass(e, "ocr_carea"));
+    if (!areas.length) areas = findElements(page, (e) => hasClass(e, "ocr_par"));
+    if (!areas.length) areas = [page];
+
+    const blocks: ParsedBlock[] = areas.map((area) => ({
+        box: parseTitle(area).bbox,
+        lines: findElements(area, isLine).map((line) => {
+            const title = parseTitle(line);
+            const words: LayoutWord[] = findElements(line, (e) => hasClass(e, "ocrx_word"))
+                .map((word) => {
+                    const wordTitle = parseTitle(word);
+                    return {
+                        text: textContent(word).trim(),
+                        box: wordTitle.bbox ?? title.bbox!,
+                        confidence: wordTitle.confidence ?? title.confidence ?? 0,
+                    };
+                })
+                .filter((word) => word.text);
+            return {
+                box: title.bbox ?? { x: 0, y: 0, width: 0, height: 0 },
+                confidence: title.confidence,
+                words,
+                text: textContent(line),
+            };
+        }),
+    }));
+
+    return assemblePageLayout(blocks, pageBox?.width, pageBox?.height);
+}
+
+function hasClass(element: XmlElement, name: string): boolean {
+    return (element.attributes.class ?? "").split(/\s+/).includes(name);
+}
+
+/**
+ * Read the `bbox` and `x_wconf` properties of an hOCR `title` attribute
+ */
+function parseTitle(element: XmlElement): { bbox?: Box; confidence?: number } {
+    const result: { bbox?: Box; confidence?: number } = {};
+    for (const property of (element.attributes.title ?? "").split(";")) {
+        const [key, ...values] = property.trim().split(/\s+/);
+        if (key === "bbox" && values.length >= 4) {
+            const [x0, y0, x1, y1] = values.map(Number);
+            result.bbox = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+        } else if (key === "x_wconf" && values.length) {
+            result.confidence = Number(values[0]) / 100;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,146 @@
+import type { Box } from "../interface";
+import type { PageLayout } from "../layout/layout";
+import { rectToQuad } from "../utils/geometry";
+import { assemblePageLayout, pageSize, parsePoints, type ExportOptions } from "./page";
+import { findElements, parseXml, textContent, writeXml, xmlElement, type XmlElement } from "./xml";
+
+const PAGE_NAMESPACE = "http://schema.primaresearch.org/PAGE/gts/pagecontent/2019-07-15";
+
+function coords(box: Box): XmlElement {
+    return xmlElement("Coords", {
+        points: rectToQuad(box)
+            .map((p) => `${p.x},${p.y}`)
+            .join(" "),
+    });
+}
+
+function textEquiv(text: string, confidence?: number): XmlElement {
+    const conf = confidence === undefined ? undefined : Number(Math.min(1, Math.max(0, confidence)).toFixed(4));
+    return xmlElement("TextEquiv", { conf }, [xmlElement("Unicode", {}, text ? [text] : [])]);
+}
+
+/**
+ * Export a page layout as a PAGE XML (2019-07-15) document, with an explicit reading order
+ */
+export function toPageXml(layout: PageLayout, options: ExportOptions = {}): string {
+    const { width, height } = pageSize(layout);
+    const now = new Date().toISOString();
+
+    const regions = layout.blocks.map((block, b) => {
+        const lines = block.lines.map((line, l) => {
+            const words = line.words.map((word, w) =>
+                xmlElement("Word", { id: `r${b + 1}l${l + 1}w${w + 1}` }, [
+                    coords(word.box),
+                    textEquiv(word.text, word.confidence),
+                ]),
+            );
+            return xmlElement("TextLine", { id: `r${b + 1}l${l + 1}` }, [
+                coords(line.box),
+                ...words,
+                textEquiv(line.text, line.confidence),
+            ]);
+        });
+        return xmlElement("TextRegion", { id: `r${b + 1}`, type: "paragraph" }, [
+            coords(block.box),
+            ...lines,
+            textEquiv(block.text),
+        ]);
+    });
+
+    const readingOrder = xmlElement("ReadingOrder", {}, [
+        xmlElement(
+            "OrderedGroup",
+            { id: "ro1" },
+            layout.blocks.map((_, b) => xmlElement("RegionRefIndexed", { index: b, regionRef: `r${b + 1}` })),
+        ),
+    ]);
+    const page = xmlElement(
+        "Page",
+        { imageFilename: options.imageName ?? "", imageWidth: width, imageHeight: height },
+        layout.blocks.length ? [readingOrder, ...regions] : [],
+    );
+    const metadata = xmlElement("Metadata", {}, [
+        xmlElement("Creator", {}, ["paddleocr.js"]),
+        xmlElement("Created", {}, [now]),
+        xmlElement("LastChange", {}, [now]),
+    ]);
+    const root = xmlElement(
+        "PcGts",
+        {
+            xmlns: PAGE_NAMESPACE,
+            "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+            "xsi:schemaLocation": `${PAGE_NAMESPACE} ${PAGE_NAMESPACE}/pagecontent.xsd`,
+        },
+        [metadata, page],
+    );
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${writeXml(root)}\n`;
+}
+
+/**
+ * Parse a PAGE XML document back into a page layout, following its reading order when present
+ */
+export function parsePageXml(source: string): PageLayout {
+    const root = parseXml(source);
+    const [page] = findElements(root, "Page");
+    if (!page) {
+        throw new Error("Invalid PAGE XML: no Page element found");
+    }
+
+    const regions = findElements(page, "TextRegion");
+    const order = findElements(page, "RegionRefIndexed")
+        .sort((a, b) => Number(a.attributes.index) - Number(b.attributes.index))
+        .map((ref) => ref.attributes.regionRef);
+    const rank = (region: XmlElement) => {
+        const index = order.indexOf(region.attributes.id);
+        return index === -1 ? order.length : index;
+    };
+    // Array.prototype.sort is stable, so regions missing from the reading order keep document order
+    regions.sort((a, b) => rank(a) - rank(b));
+
+    const blocks = regions.map((region) => ({
+        box: readCoords(region),
+        lines: childElements(region, "TextLine").map((line) => {
+            const equiv = readTextEquiv(line);
+            return {
+                box: readCoords(line),
+                confidence: equiv.confidence,
+                text: equiv.text,
+                words: childElements(line, "Word")
+                    .map((word) => {
+                        const wordEquiv = readTextEquiv(word);
+                        return {
+                            text: wordEquiv.text.trim(),
+                            box: readCoords(word),
+                            confidence: wordEquiv.confidence ?? equiv.confidence ?? 0,
+                        };
+                    })
+                    .filter((word) => word.text),
+            };
+        }),
+    }));
+
+    const number = (value?: string) => (value === undefined ? undefined : Number(value));
+    return assemblePageLayout(blocks, number(page.attributes.imageWidth), number(page.attributes.imageHeight));
+}
+
+function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter((child): child is XmlElement => typeof child !== "string" && child.name === name);
+}
+
+function readCoords(element: XmlElement): Box {
+    const [coordsElement] = childElements(element, "Coords");
+    return parsePoints(coordsElement?.attributes.points ?? "");
+}
+
+/**
+ * Text and confidence of an element's own `TextEquiv`, preferring the lowest index
+ */
+function readTextEquiv(element: XmlElement): { text: string; confidence?: number } {
+    const [equiv] = childElements(element, "TextEquiv").sort(
+        (a, b) => Number(a.attributes.index ?? 0) - Number(b.attributes.index ?? 0),
+    );
+    if (!equiv) return { text: "" };
+    const [unicode] = childElements(equiv, "Unicode");
+    const conf = equiv.attributes.conf;
+    return { text: unicode ? textContent(unicode) : "", confidence: conf === undefined ? undefined : Number(conf) };
+}
@@ -0,0 +1,100 @@
+import { DEFAULT_RECOGNITION_OPTIONS } from "../constants";
+import type { Box, Point } from "../interface";
+import { splitWords, type LayoutBlock, type LayoutLine, type LayoutWord, type PageLayout } from "../layout/layout";
+import { boundingBox, enclosingBox, textLineDirection } from "../utils/geometry";
+
+export interface ExportOptions {
+    /** File name of the page image, referenced by the exported document. */
+    imageName?: string;
+}
+
+/**
+ * Line read back from an exported document, before being assembled into a {@link LayoutLine}
+ */
+export interface ParsedLine {
+    box: Box;
+    /** Confidence of the line, averaged from the words when absent. */
+    confidence?: number;
+    /** Words of the line; the line text is split at whitespace when empty. */
+    words: LayoutWord[];
+    text?: string;
+}
+
+export interface ParsedBlock {
+    box?: Box;
+    lines: ParsedLine[];
+}
+
+/**
+ * Page size of a layout, falling back to the extent of its blocks
+ */
+export function pageSize(layout: PageLayout): { width: number; height: number } {
+    const extent = layout.blocks.length ? enclosingBox(layout.blocks.map((b) => b.box)) : null;
+    return {
+        width: layout.width ?? (extent ? extent.x + extent.width : 0),
+        height: layout.height ?? (extent ? extent.y + extent.height : 0),
+    };
+}
+
+/**
+ * Rebuild a {@link PageLayout} from parsed blocks, deriving texts, confidences and line directions
+ * the same way {@link analyzeLayout} does
+ */
+export function assemblePageLayout(blocks: ParsedBlock[], width?: number, height?: number): PageLayout {
+    const layoutBlocks: LayoutBlock[] = blocks
+        .map((block) => ({ ...block, lines: block.lines.filter((line) => line.words.length || line.text?.trim()) }))
+        .filter((block) => block.lines.length)
+        .map((block) => {
+            const lines = block.lines.map(assembleLine);
+            const vertical = lines.filter((line) => line.direction === "vertical").length * 2 > lines.length;
+            return {
+                text: lines.map((line) => line.text).join("\n"),
+                box: block.box ?? enclosingBox(lines.map((line) => line.box)),
+                confidence: mean(lines.map((line) => line.confidence)),
+                direction: vertical ? "vertical" : "horizontal",
+                column: 0,
+                lines,
+            };
+        });
+
+    const page: PageLayout = {
+        text: layoutBlocks.map((block) => block.text).join("\n\n"),
+        confidence: mean(layoutBlocks.flatMap((block) => block.lines.map((line) => line.confidence))),
+        blocks: layoutBlocks,
+    };
+    if (width !== undefined) page.width = width;
+    if (height !== undefined) page.height = height;
+    return page;
+}
+
+function assembleLine(parsed: ParsedLine): LayoutLine {
+    const direction = textLineDirection(parsed.box, DEFAULT_RECOGNITION_OPTIONS.verticalRatio!);
+    const text = parsed.words.length ? parsed.words.map((word) => word.text).join(" ") : parsed.text!.trim();
+    const confidence = parsed.confidence ?? mean(parsed.words.map((word) => word.confidence));
+    const result = { text, box: parsed.box, confidence, direction };
+    return {
+        text,
+        box: parsed.box,
+        confidence,
+        direction,
+        words: parsed.words.length ? parsed.words : splitWords(result),
+        results: [result],
+    };
+}
+
+/**
+ * Box of a `"x1,y1 x2,y2 ..."` point list
+ */
+export function parsePoints(points: string): Box {
+    const parsed: Point[] = points
+        .trim()
+        .split(/\s+/)
+        .map((pair) => pair.split(",").map(Number))
+        .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
+        .map(([x, y]) => ({ x, y }));
+    return parsed.length ? boundingBox(parsed) : { x: 0, y: 0, width: 0, height: 0 };
+}
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
@@ -0,0 +1,373 @@
+import type { ImageInput } from "../interface";
+import type { RecognitionResult } from "../processor/recognition";
+import { deflate } from "../utils/zlib";
+
+export interface PdfPage {
+    /** Page image, embedded as is. */
+    image: ImageInput;
+    /** Recognition results of the page, in the image's pixel coordinates. */
+    results: RecognitionResult[];
+    /** Resolution of this page's image, overriding {@link PdfOptions.dpi}. */
+    dpi?: number;
+}
+
+export interface PdfOptions {
+    /**
+     * Resolution of the page images, which sets the physical page size.
+     * @default 300
+     */
+    dpi?: number;
+    /** Document title stored in the PDF metadata. */
+    title?: string;
+}
+
+/** Advance width of every glyph of the text layer font, in 1/1000 em. */
+const GLYPH_WIDTH = 500;
+/** Ascent and descent of the text layer font, in 1/1000 em. */
+const FONT_ASCENT = 800;
+const FONT_DESCENT = -200;
+
+/**
+ * Build a searchable PDF: every page shows its image, with the recognized text laid over it
+ * as invisible text (render mode 3) fitted to each result box, so it can be selected,
+ * searched and copied.
+ *
+ * The text uses an embedded glyphless TrueType font through a `Type0` font with
+ * `Identity-H` encoding. Every distinct character gets its own CID and a `ToUnicode`
+ * entry, which covers CJK, Latin and characters outside the Basic Multilingual Plane alike.
+ */
+export function toPdf(pages: PdfPage | PdfPage[], options: PdfOptions = {}): Uint8Array {
+    const pageList = Array.isArray(pages) ? pages : [pages];
+    const document = new PdfDocument();
+    const catalogId = document.reserve();
+    const pagesId = document.reserve();
+    const fontId = document.reserve();
+    const cids = new Map<string, number>();
+
+    const pageIds = pageList.map((page) => {
+        const dpi = page.dpi ?? options.dpi ?? 300;
+        const scale = 72 / dpi;
+        const { width, height } = page.image;
+        const imageId = document.add(imageXObject(page.image));
+        const content = [
+            `q ${num(width * scale)} 0 0 ${num(height * scale)} 0 0 cm /Im1 Do Q`,
+            ...page.results.map((result) => textCommand(result, height, scale, cids)).filter((c) => c),
+        ].join("\n");
+        const contentId = document.add(stream("", encodeLatin1(content)));
+        return document.add(
+            `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(width * scale)} ${num(height * scale)}] ` +
+                `/Resources << /XObject << /Im1 ${imageId} 0 R >> /Font << /F1 ${fontId} 0 R >> >> ` +
+                `/Contents ${contentId} 0 R >>`,
+        );
+    });
+
+    writeFont(document, fontId, cids);
+    document.set(
+        pagesId,
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    );
+    document.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    const info = [`/Producer ${textString("paddleocr.js")}`];
+    if (options.title) info.push(`/Title ${textString(options.title)}`);
+    const infoId = document.add(`<< ${info.join(" ")} >>`);
+    return document.build(catalogId, infoId);
+}
+
+/**
+ * Invisible text drawing a result into its box. Horizontal lines are scaled to the box width;
+ * vertical lines run downwards and are scaled to the box height.
+ */
+function textCommand(result: RecognitionResult, imageHeight: number, scale: number, cids: Map<string, number>) {
+    const chars = [...result.text];
+    const { x, y, width, height } = result.box;
+    if (!chars.length || width <= 0 || height <= 0) return "";
+
+    const hex = chars
+        .map((char) => {
+            let cid = cids.get(char);
+            if (cid === undefined) {
+                cid = cids.size + 1;
+                cids.set(char, cid);
+            }
+            return cid.toString(16).padStart(4, "0");
+        })
+        .join("");
+
+    const vertical = result.direction === "vertical";
+    const size = (vertical ? width : height) * scale;
+    const length = (vertical ? height : width) * scale;
+    const stretch = (length / ((chars.length * GLYPH_WIDTH * size) / 1000)) * 100;
+    const baseline = (-FONT_DESCENT / 1000) * size;
+    const matrix = vertical
+        ? `0 -1 1 0 ${num(x * scale + baseline)} ${num((imageHeight - y) * scale)}`
+        : `1 0 0 1 ${num(x * scale)} ${num((imageHeight - y - height) * scale + baseline)}`;
+    return `BT 3 Tr /F1 ${num(size)} Tf ${num(stretch)} Tz ${matrix} Tm <${hex}> Tj ET`;
+}
+
+/**
+ * Page image as an XObject, flattened onto white when it has an alpha channel
+ */
+function imageXObject(image: ImageInput): Uint8Array {
+    const { width, height, data } = image;
+    const channels = data.length / (width * height);
+    if (!Number.isInteger(channels) || channels < 1 || channels > 4) {
+        throw new Error(`Invalid image data for size ${width}x${height}. Expected 1, 3, or 4 channels.`);
+    }
+
+    const gray = channels <= 2;
+    const pixels = new Uint8Array(width * height * (gray ? 1 : 3));
+    for (let i = 0; i < width * height; i++) {
+        const alpha = channels === 2 || channels === 4 ? data[i * channels + channels - 1] / 255 : 1;
+        const blend = (value: number) => Math.round(value * alpha + 255 * (1 - alpha));
+        if (gray) {
+            pixels[i] = blend(data[i * channels]);
+        } else {
+            for (let c = 0; c < 3; c++) pixels[i * 3 + c] = blend(data[i * channels + c]);
+        }
+    }
+    const colorSpace = gray ? "/DeviceGray" : "/DeviceRGB";
+    return stream(
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8`,
+        pixels,
+    );
+}
+
+/**
+ * Type0 font over the glyphless CIDFont, mapping every CID to glyph 1
+ */
+function writeFont(document: PdfDocument, fontId: number, cids: Map<string, number>) {
+    const fontFile = glyphlessTrueType();
+    const fontFileId = document.add(stream(`/Length1 ${fontFile.length}`, fontFile));
+    const descriptorId = document.add(
+        `<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 ` +
+            `/FontBBox [0 ${FONT_DESCENT} ${GLYPH_WIDTH} ${FONT_ASCENT}] /ItalicAngle 0 ` +
+            `/Ascent ${FONT_ASCENT} /Descent ${FONT_DESCENT} /CapHeight ${FONT_ASCENT} /StemV 80 ` +
+            `/FontFile2 ${fontFileId} 0 R >>`,
+    );
+
+    const cidToGid = new Uint8Array((cids.size + 1) * 2);
+    for (let cid = 1; cid <= cids.size; cid++) cidToGid[cid * 2 + 1] = 1;
+    const cidToGidId = document.add(stream("", cidToGid));
+
+    const cidFontId = document.add(
+        `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont ` +
+            `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+            `/FontDescriptor ${descriptorId} 0 R /DW ${GLYPH_WIDTH} /CIDToGIDMap ${cidToGidId} 0 R >>`,
+    );
+    const toUnicodeId = document.add(stream("", encodeLatin1(toUnicodeCMap(cids))));
+    document.set(
+        fontId,
+        `<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H ` +
+            `/DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`,
+    );
+}
+
+function toUnicodeCMap(cids: Map<string, number>): string {
+    const entries = [...cids].map(([char, cid]) => {
+        const utf16 = [...Array(char.length)].map((_, i) => char.charCodeAt(i).toString(16).padStart(4, "0"));
+        return `<${cid.toString(16).padStart(4, "0")}> <${utf16.join("")}>`;
+    });
+    const sections: string[] = [];
+    // A bfchar section holds at most 100 entries
+    for (let i = 0; i < entries.length; i += 100) {
+        const chunk = entries.slice(i, i + 100);
+        sections.push(`${chunk.length} beginbfchar\n${chunk.join("\n")}\nendbfchar`);
+    }
+    return [
+        "/CIDInit /ProcSet findresource begin",
+        "12 dict begin",
+        "begincmap",
+        "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+        "/CMapName /Adobe-Identity-UCS def",
+        "/CMapType 2 def",
+        "1 begincodespacerange",
+        "<0000> <FFFF>",
+        "endcodespacerange",
+        ...sections,
+        "endcmap",
+        "CMapName currentdict /CMap defineresource pop",
+        "end",
+        "end",
+    ].join("\n");
+}
+
+/**
+ * Minimal TrueType font with an empty `.notdef` and one empty glyph, both {@link GLYPH_WIDTH} wide.
+ * It only carries the tables PDF requires for an embedded CIDFontType2 font, plus `cmap` and `post`.
+ */
+function glyphlessTrueType(): Uint8Array {
+    const u16 = (...values: number[]) => values.flatMap((v) => [(v >> 8) & 0xff, v & 0xff]);
+    const u32 = (...values: number[]) => values.flatMap((v) => [...u16(v >>> 16), ...u16(v & 0xffff)]);
+    const tables: [string, number[]][] = [
+        // Format 4 subtable with the mandatory 0xFFFF end segment only
+        ["cmap", [...u16(0, 1, 3, 1), ...u32(12), ...u16(4, 24, 0, 2, 2, 0, 0, 0xffff, 0, 0xffff, 1, 0)]],
+        // Both glyphs are empty; the padding keeps the table from being read as missing
+        ["glyf", [0, 0, 0, 0]],
+        [
+            "head",
+            [
+                ...u32(0x00010000, 0x00010000, 0, 0x5f0f3cf5),
+                ...u16(0x000b, 1000),
+                ...u32(0, 0, 0, 0),
+                ...u16(0, FONT_DESCENT & 0xffff, GLYPH_WIDTH, FONT_ASCENT, 0, 3, 2, 0, 0),
+            ],
+        ],
+        [
+            "hhea",
+            [
+                ...u32(0x00010000),
+                ...u16(
+                    FONT_ASCENT,
+                    FONT_DESCENT & 0xffff,
+                    0,
+                    GLYPH_WIDTH,
+                    0,
+                    0,
+                    GLYPH_WIDTH,
+                    1,
+                    0,
+                    0,
+                    0,
+                    0,
+                    0,
+                    0,
+                    0,
+                    2,
+                ),
+            ],
+        ],
+        ["hmtx", u16(GLYPH_WIDTH, 0, GLYPH_WIDTH, 0)],
+        ["loca", u16(0, 0, 0)],
+        ["maxp", [...u32(0x00010000), ...u16(2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0)]],
+        ["post", [...u32(0x00030000, 0), ...u16(0xff9c, 50), ...u32(1, 0, 0, 0, 0)]],
+    ];
+
+    const checksum = (bytes: ArrayLike<number>, offset = 0, length = bytes.length) => {
+        let sum = 0;
+        for (let i = 0; i < length; i += 4) {
+            const at = (k: number) => (i + k < length ? bytes[offset + i + k] : 0);
+            sum = (sum + ((at(0) << 24) | (at(1) << 16) | (at(2) << 8) | at(3))) >>> 0;
+        }
+        return sum;
+    };
+
+    const entrySelector = Math.floor(Math.log2(tables.length));
+    const searchRange = 2 ** entrySelector * 16;
+    const header = [
+        ...u32(0x00010000),
+        ...u16(tables.length, searchRange, entrySelector, tables.length * 16 - searchRange),
+    ];
+    let offset = header.length + tables.length * 16;
+    const directory: number[] = [];
+    const body: number[] = [];
+    for (const [tag, data] of tables) {
+        directory.push(...[...tag].map((c) => c.charCodeAt(0)), ...u32(checksum(data), offset, data.length));
+        const padded = [...data, ...Array((4 - (data.length % 4)) % 4).fill(0)];
+        body.push(...padded);
+        offset += padded.length;
+    }
+    const font = new Uint8Array([...header, ...directory, ...body]);
+
+    // head.checkSumAdjustment makes the whole font sum up to 0xB1B0AFBA
+    const headOffset =
+        header.length +
+        directory.length +
+        tables
+            .slice(
+                0,
+                tables.findIndex(([tag]) => tag === "head"),
+            )
+            .reduce((sum, [, data]) => sum + Math.ceil(data.length / 4) * 4, 0);
+    font.set(u32((0xb1b0afba - checksum(font)) >>> 0), headOffset + 8);
+    return font;
+}
+
+/**
+ * Stream object with Flate-compressed data
+ */
+function stream(dictionary: string, data: Uint8Array): Uint8Array {
+    const compressed = deflate(data);
+    const head = `<< ${dictionary ? `${dictionary} ` : ""}/Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`;
+    return concat([encodeLatin1(head), compressed, encodeLatin1("\nendstream")]);
+}
+
+/**
+ * PDF text string, UTF-16BE with a byte order mark
+ */
+function textString(text: string): string {
+    const units = [...Array(text.length)].map((_, i) => text.charCodeAt(i).toString(16).padStart(4, "0"));
+    return `<FEFF${units.join("")}>`;
+}
+
+function num(value: number): string {
+    return Number(value.toFixed(3)).toString();
+}
+
+function encodeLatin1(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+    return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+}
+
+/**
+ * Indirect objects of a PDF file, serialized with a cross-reference table
+ */
+class PdfDocument {
+    private readonly objects: (Uint8Array | null)[] = [];
+
+    reserve(): number {
+        this.objects.push(null);
+        return this.objects.length;
+    }
+
+    add(content: string | Uint8Array): number {
+        const id = this.reserve();
+        this.set(id, content);
+        return id;
+    }
+
+    set(id: number, content: string | Uint8Array) {
+        this.objects[id - 1] = typeof content === "string" ? encodeLatin1(content) : content;
+    }
+
+    build(rootId: number, infoId: number): Uint8Array {
+        // The binary comment marks the file as containing binary data
+        const parts: Uint8Array[] = [encodeLatin1("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n")];
+        let offset = parts[0].length;
+        const offsets: number[] = [];
+        this.objects.forEach((content, index) => {
+            if (!content) {
+                throw new Error(`PDF object ${index + 1} was reserved but never written`);
+            }
+            offsets.push(offset);
+            const object = concat([encodeLatin1(`${index + 1} 0 obj\n`), content, encodeLatin1("\nendobj\n")]);
+            parts.push(object);
+            offset += object.length;
+        });
+
+        const xref = [
+            "xref",
+            `0 ${this.objects.length + 1}`,
+            "0000000000 65535 f ",
+            ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+            "trailer",
+            `<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R >>`,
+            "startxref",
+            String(offset),
+            "%%EOF",
+            "",
+        ].join("\n");
+        parts.push(encodeLatin1(xref));
+        return concat(parts);
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * Minimal XML writer and reader used by the exporters, so they run without a DOM
+ */
+
+export interface XmlElement {
+    /** Tag name without namespace prefix. */
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+/**
+ * HTML elements without a closing tag, accepted unclosed when reading hOCR
+ */
+const VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+};
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+        if (entity[0] === "#") {
+            const code = entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity] ?? match;
+    });
+}
+
+/**
+ * Serialize an element tree with two-space indentation. Elements holding text are kept on one line.
+ */
+export function writeXml(element: XmlElement, depth = 0): string {
+    const indent = "  ".repeat(depth);
+    const attributes = Object.entries(element.attributes)
+        .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+        .join("");
+    if (!element.children.length) {
+        return `${indent}<${element.name}${attributes}/>`;
+    }
+    if (element.children.some((child) => typeof child === "string")) {
+        const content = element.children
+            .map((child) => (typeof child === "string" ? escapeXml(child) : writeXml(child).trim()))
+            .join("");
+        return `${indent}<${element.name}${attributes}>${content}</${element.name}>`;
+    }
+    const children = element.children.map((child) => writeXml(child as XmlElement, depth + 1)).join("\n");
+    return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+}
+
+/**
+ * Shorthand to build an element, dropping undefined attributes
+ */
+export function xmlElement(
+    name: string,
+    attributes: Record<string, string | number | undefined> = {},
+    children: XmlNode[] = [],
+): XmlElement {
+    const defined: Record<string, string> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+        if (value !== undefined) defined[key] = String(value);
+    }
+    return { name, attributes: defined, children };
+}
+
+/**
+ * Parse a document into its root element. Comments, processing instructions and doctypes are
+ * skipped; unclosed HTML void elements and mismatched closing tags are tolerated.
+ */
+export function parseXml(source: string): XmlElement {
+    const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+    const stack: XmlElement[] = [root];
+    const tagPattern =
+        /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(source))) {
+        const parent = stack[stack.length - 1];
+        appendText(parent, source.slice(position, match.index));
+        position = tagPattern.lastIndex;
+
+        const [, cdata, closing, opening, attributeSource, selfClosing] = match;
+        if (cdata !== undefined) {
+            parent.children.push(cdata);
+        } else if (closing !== undefined) {
+            const name = localName(closing);
+            const index = stack.map((e) => e.name).lastIndexOf(name);
+            if (index > 0) stack.length = index;
+        } else if (opening !== undefined) {
+            const element: XmlElement = {
+                name: localName(opening),
+                attributes: parseAttributes(attributeSource),
+                children: [],
+            };
+            parent.children.push(element);
+            if (!selfClosing && !VOID_ELEMENTS.has(element.name.toLowerCase())) {
+                stack.push(element);
+            }
+        }
+    }
+    appendText(stack[stack.length - 1], source.slice(position));
+
+    const element = root.children.find((child): child is XmlElement => typeof child !== "string");
+    if (!element) {
+        throw new Error("Invalid XML: no root element found");
+    }
+    return element;
+}
+
+function appendText(parent: XmlElement, text: string) {
+    if (text.trim()) parent.children.push(decodeEntities(text));
+}
+
+function localName(name: string): string {
+    return name.slice(name.indexOf(":") + 1);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source))) {
+        attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    }
+    return attributes;
+}
+
+/**
+ * Outermost descendants matching a tag name or predicate, in document order
+ */
+export function findElements(element: XmlElement, match: string | ((element: XmlElement) => boolean)): XmlElement[] {
+    const test = typeof match === "string" ? (e: XmlElement) => e.name === match : match;
+    const found: XmlElement[] = [];
+    for (const child of element.children) {
+        if (typeof child === "string") continue;
+        if (test(child)) found.push(child);
+        else found.push(...findElements(child, test));
+    }
+    return found;
+}
+
+/**
+ * Concatenated text content of an element
+ */
+export function textContent(element: XmlElement): string {
+    return element.children.map((child) => (typeof child === "string" ? child : textContent(child))).join("");
+}
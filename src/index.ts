@@ -1,9 +1,120 @@
-export { PaddleOcrService, type FlattenedPaddleOcrResult, type PaddleOcrResult } from "./processor/paddle-ocr";
+export {
+    PaddleOcrService,
+    type DebugArtifacts,
+    type FlattenedPaddleOcrResult,
+    type PaddleOcrDebugResult,
+    type PaddleOcrResult,
+} from "./processor/paddle-ocr";
 
-export type { Box, DetectionServiceOptions, PaddleOptions, RecognitionServiceOptions } from "./interface";
+export type {
+    AffineMatrix,
+    Box,
+    ClaheOptions,
+    ClassificationServiceOptions,
+    DecodeOptions,
+    DenoiseOptions,
+    DeskewOptions,
+    DetectionServiceOptions,
+    LanguageModelOptions,
+    ModelBundleManifest,
+    ModelManifestEntry,
+    OcrProgress,
+    OcrStage,
+    OrientationServiceOptions,
+    PageAngle,
+    PageOrientation,
+    PaddleOptions,
+    Point,
+    PreprocessStep,
+    PreprocessTransform,
+    Quad,
+    RecognitionRegion,
+    RecognitionServiceOptions,
+    SauvolaOptions,
+    Script,
+    ScriptClassificationServiceOptions,
+    ScriptPrediction,
+    SequenceOptions,
+    StageHooks,
+    TextDirection,
+    TextOrientation,
+} from "./interface";
 
-export { DetectionService, type PreprocessDetectionResult } from "./processor/detection";
+export { DetectionService, type DetectionArtifacts, type PreprocessDetectionResult } from "./processor/detection";
 
-export { RecognitionService, type RecognitionResult } from "./processor/recognition";
+export {
+    RecognitionService,
+    type RecognitionAlternative,
+    type RecognitionResult,
+    type RecognitionResultCallback,
+    type RecognizedCharacter,
+} from "./processor/recognition";
 
-export { DEFAULT_DETECTION_OPTIONS, DEFAULT_PADDLE_OPTIONS, DEFAULT_RECOGNITION_OPTIONS } from "./constants";
+export { ClassificationService } from "./processor/classification";
+
+export { OrientationService } from "./processor/orientation";
+
+export { ScriptClassificationService } from "./processor/script";
+
+export { FrameSequence, type TextTrack, type TextTrackEvent } from "./processor/sequence";
+
+export {
+    analyzeLayout,
+    splitWords,
+    type LayoutBlock,
+    type LayoutLine,
+    type LayoutOptions,
+    type LayoutWord,
+    type PageLayout,
+} from "./layout/layout";
+
+export {
+    extractTable,
+    tableToCsv,
+    tableToHtml,
+    tableToMarkdown,
+    type Table,
+    type TableCell,
+    type TableOptions,
+} from "./layout/table";
+
+export {
+    findAnchors,
+    locateFields,
+    type ExtractedField,
+    type FormTemplate,
+    type LocatedField,
+    type TemplateAnchor,
+    type TemplateField,
+    type TemplateOptions,
+} from "./layout/template";
+
+export type { ExportOptions } from "./export/page";
+export { parseHocr, toHocr } from "./export/hocr";
+export { parseAlto, toAlto } from "./export/alto";
+export { parsePageXml, toPageXml } from "./export/page-xml";
+export { toPdf, type PdfOptions, type PdfPage } from "./export/pdf";
+
+export { decodeImage, detectImageFormat, type ImageFormat } from "./decoders/decode";
+export { decodeBmp } from "./decoders/bmp";
+export { decodeJpeg } from "./decoders/jpeg";
+export { decodePng } from "./decoders/png";
+export { decodePnm } from "./decoders/pnm";
+export { ImageDecodeError, ModelValidationError, OcrAbortError } from "./errors";
+export { loadModelBundle, parseModelManifest, type ModelFileReader } from "./models/bundle";
+export { encodePng } from "./encoders/png";
+export { Image } from "./utils/image";
+export { annotate, heatmap, type Annotation } from "./utils/debug";
+export { identifyScript } from "./utils/script";
+
+export {
+    DEFAULT_CLASSIFICATION_OPTIONS,
+    DEFAULT_DECODE_OPTIONS,
+    DEFAULT_DETECTION_OPTIONS,
+    DEFAULT_ORIENTATION_OPTIONS,
+    DEFAULT_PADDLE_OPTIONS,
+    DEFAULT_PREPROCESS_OPTIONS,
+    DEFAULT_RECOGNITION_OPTIONS,
+    DEFAULT_SCRIPT_CLASSIFICATION_OPTIONS,
+    DEFAULT_SEQUENCE_OPTIONS,
+} from "./constants";
@@ -7,6 +7,18 @@ export interface ImageInput {
     data: Uint8Array;
 }
 
+/**
+ * Options of the image decoders.
+ */
+export interface DecodeOptions {
+    /**
+     * Largest accepted pixel count. Larger images are refused from their header, before their
+     * pixels are allocated, as a few bytes of a file can declare gigabytes of pixels.
+     * @default 100_000_000
+     */
+    maxPixels?: number;
+}
+
 /**
  * Parameters for the text detection service.
  */
@@ -55,7 +67,65 @@ export interface DetectionServiceOptions {
      */
     minimumAreaThreshold?: number;
 
+    /**
+     * Probability above which a pixel of the detection map is considered text.
+     * PaddleOCR's DB post-process uses 0.3.
+     * @default 0.5
+     */
     textPixelThreshold?: number;
+
+    /**
+     * How detected regions are turned into boxes.
+     * - `"padding"`: dilate the text mask and pad each box by
+     *   `paddingBoxVertical` / `paddingBoxHorizontal`.
+     * - `"db"`: PaddleOCR's DB post-process. Boxes scoring below `boxScoreThreshold`
+     *   are dropped and the rest are expanded by `unclipRatio`.
+     * @default "padding"
+     */
+    postprocessMode?: "padding" | "db";
+
+    /**
+     * Minimum mean probability inside a box for it to be kept, used by the `"db"` post-process.
+     * @default 0.6
+     */
+    boxScoreThreshold?: number;
+
+    /**
+     * Expansion ratio of the `"db"` post-process. Each side of a box is offset by
+     * `area * unclipRatio / perimeter`.
+     * @default 1.5
+     */
+    unclipRatio?: number;
+
+    /**
+     * Split large images into overlapping tiles that are detected at near-native resolution,
+     * so that small text is not lost when shrinking to `maxSideLength`.
+     * - `"auto"`: tile when the longest side exceeds twice `tileSize`.
+     * - `"always"` / `"never"`: force tiling on or off.
+     * @default "never"
+     */
+    tiling?: "auto" | "always" | "never";
+
+    /**
+     * Side length of each tile, in pixels of the input image.
+     * @default 960
+     */
+    tileSize?: number;
+
+    /**
+     * Overlap between neighboring tiles, in pixels. Should exceed the height of the largest text line.
+     * @default 160
+     */
+    tileOverlap?: number;
+
+    /**
+     * Shape of the detected regions.
+     * - `"rect"`: axis-aligned boxes around each text region.
+     * - `"quad"`: minimum-area rotated rectangles, exposed as `Box.points`.
+     *   Recognition warps each quad into an upright strip before reading it.
+     * @default "rect"
+     */
+    boxType?: "rect" | "quad";
 }
 
 /**
@@ -91,6 +161,412 @@ export interface RecognitionServiceOptions {
      * recognition result decoding.
      */
     charactersDictionary?: string[];
+
+    /**
+     * Maximum number of text lines recognized in one inference call.
+     * Lines are grouped by aspect ratio and right-padded to a common width.
+     * @default 6
+     */
+    batchSize?: number;
+
+    /**
+     * Lines whose crop is at least this many times taller than wide are treated as vertical
+     * (top-to-bottom) text and rotated before recognition. Set to `Infinity` to disable.
+     * @default 1.5
+     */
+    verticalRatio?: number;
+
+    /**
+     * CTC decoding strategy.
+     * - `"greedy"`: best class per timestep.
+     * - `"beam"`: prefix beam search, which also reports alternative texts and can use a lexicon.
+     * @default "greedy"
+     */
+    decoder?: "greedy" | "beam";
+
+    /**
+     * Number of prefixes kept per timestep by the beam search decoder.
+     * @default 10
+     */
+    beamWidth?: number;
+
+    /**
+     * Number of alternative texts reported by the beam search decoder.
+     * @default 5
+     */
+    topK?: number;
+
+    /**
+     * Known words (serial numbers, product codes, domain vocabulary) used by the beam search decoder.
+     * Words are matched between whitespace in the decoded text.
+     */
+    lexicon?: string[];
+
+    /**
+     * How the lexicon is applied by the beam search decoder.
+     * - `"boost"`: prefer lexicon words by adding `lexiconWeight` per matched character.
+     * - `"constrain"`: only emit lexicon words.
+     * @default "boost"
+     */
+    lexiconMode?: "boost" | "constrain";
+
+    /**
+     * Log-probability bonus per character of a lexicon word in `"boost"` mode.
+     * @default 1
+     */
+    lexiconWeight?: number;
+}
+
+/**
+ * Parameters for the text-line orientation classification service.
+ */
+export interface ClassificationServiceOptions {
+    /**
+     * ArrayBuffer containing the ONNX model for text-line orientation classification.
+     */
+    modelBuffer?: ArrayBuffer;
+
+    /**
+     * Crops predicted as 180° are only rotated when the prediction confidence exceeds this value.
+     * @default 0.9
+     */
+    threshold?: number;
+
+    /**
+     * Input size of the classifier as [height, width]. Crops are resized to the height
+     * and right-padded up to the width.
+     * @default [48, 192]
+     */
+    imageShape?: [number, number];
+
+    /**
+     * Per-channel mean values used to normalize input pixels [R, G, B].
+     * @default [127.5, 127.5, 127.5]
+     */
+    mean?: [number, number, number];
+
+    /**
+     * Per-channel standard deviation values used to normalize input pixels [R, G, B].
+     * @default [1 / 127.5, 1 / 127.5, 1 / 127.5]
+     */
+    stdDeviation?: [number, number, number];
+}
+
+/**
+ * Writing systems told apart by script identification.
+ * `kana` covers Japanese, whose lines mix kana with Han characters.
+ */
+export type Script = "han" | "kana" | "hangul" | "latin" | "cyrillic" | "greek" | "arabic" | "devanagari" | "thai";
+
+/**
+ * A recognition model registered under a language key, with its own dictionary and normalization.
+ */
+export interface LanguageModelOptions extends Partial<RecognitionServiceOptions> {
+    /**
+     * Scripts this model reads. With `language: "auto"`, lines identified as one of
+     * these scripts are read by this model.
+     */
+    scripts?: Script[];
+}
+
+/**
+ * Parameters for the optional script identification model used by `language: "auto"`.
+ */
+export interface ScriptClassificationServiceOptions {
+    /**
+     * ArrayBuffer containing the ONNX model classifying the script or language of a text line.
+     */
+    modelBuffer?: ArrayBuffer;
+
+    /**
+     * Language key of each output class of the model, in order. Classes without a registered
+     * recognition model are read by the default one.
+     */
+    labels?: string[];
+
+    /**
+     * Lines predicted with a confidence at or below this value are read by the default model.
+     * @default 0.5
+     */
+    threshold?: number;
+
+    /**
+     * Input size of the classifier as [height, width]. Crops are resized to the height
+     * and right-padded up to the width.
+     * @default [48, 192]
+     */
+    imageShape?: [number, number];
+
+    /**
+     * Per-channel mean values used to normalize input pixels [R, G, B].
+     * @default [127.5, 127.5, 127.5]
+     */
+    mean?: [number, number, number];
+
+    /**
+     * Per-channel standard deviation values used to normalize input pixels [R, G, B].
+     * @default [1 / 127.5, 1 / 127.5, 1 / 127.5]
+     */
+    stdDeviation?: [number, number, number];
+}
+
+/**
+ * Script or language of a text line predicted by the script classification service.
+ */
+export interface ScriptPrediction {
+    /** Predicted language key, from `labels`. */
+    language: string;
+    confidence: number;
+}
+
+/**
+ * Text-line angle predicted by the classification service.
+ */
+export interface TextOrientation {
+    angle: 0 | 180;
+    confidence: number;
+}
+
+/**
+ * Parameters for the page orientation service.
+ */
+export interface OrientationServiceOptions {
+    /**
+     * ArrayBuffer containing the ONNX model for document orientation classification
+     * (PP-LCNet doc orientation). When omitted, the orientation is estimated from
+     * the aspect ratio of detected boxes and the recognition confidence.
+     */
+    modelBuffer?: ArrayBuffer;
+
+    /**
+     * Images are resized so that their short side matches this length before being center cropped.
+     * @default 256
+     */
+    resizeShortSide?: number;
+
+    /**
+     * Side length of the square center crop fed to the model.
+     * @default 224
+     */
+    imageSize?: number;
+
+    /**
+     * Per-channel mean values used to normalize input pixels [R, G, B].
+     * @default [0.485, 0.456, 0.406]
+     */
+    mean?: [number, number, number];
+
+    /**
+     * Per-channel standard deviation values used to normalize input pixels [R, G, B].
+     * @default [0.229, 0.224, 0.225]
+     */
+    stdDeviation?: [number, number, number];
+
+    /**
+     * Number of the largest detected boxes recognized per candidate angle
+     * by the heuristic used when no model is given.
+     * @default 5
+     */
+    sampleSize?: number;
+}
+
+/**
+ * Clockwise rotation of a page's content, in degrees.
+ */
+export type PageAngle = 0 | 90 | 180 | 270;
+
+/**
+ * Page orientation predicted by the orientation service.
+ */
+export interface PageOrientation {
+    angle: PageAngle;
+    confidence: number;
+}
+
+/**
+ * Parameters of the `deskew` preprocessing step.
+ */
+export interface DeskewOptions {
+    /**
+     * Largest skew searched in either direction, in degrees.
+     * @default 15
+     */
+    maxAngle?: number;
+
+    /**
+     * Skews below this angle, in degrees, are left uncorrected.
+     * @default 0.1
+     */
+    minAngle?: number;
+}
+
+/**
+ * Parameters of the `clahe` preprocessing step (contrast limited adaptive histogram equalization).
+ */
+export interface ClaheOptions {
+    /**
+     * Number of tiles along each side of the image. Every tile gets its own equalization,
+     * interpolated between neighboring tiles.
+     * @default 8
+     */
+    tiles?: number;
+
+    /**
+     * Histogram bins are clipped at this multiple of the average bin count, limiting noise amplification.
+     * @default 2
+     */
+    clipLimit?: number;
+}
+
+/**
+ * Parameters of the `sauvola` adaptive binarization step.
+ */
+export interface SauvolaOptions {
+    /**
+     * Side length of the window the local mean and deviation are computed over, in pixels.
+     * @default 25
+     */
+    windowSize?: number;
+
+    /**
+     * Sensitivity to the local deviation: higher values turn more pixels into background.
+     * @default 0.2
+     */
+    k?: number;
+
+    /**
+     * Dynamic range of the standard deviation.
+     * @default 128
+     */
+    dynamicRange?: number;
+}
+
+/**
+ * Parameters of the `denoise` preprocessing step, a median filter.
+ */
+export interface DenoiseOptions {
+    /**
+     * Radius of the square filter window, in pixels.
+     * @default 1
+     */
+    radius?: number;
+}
+
+/**
+ * A document preprocessing step, given by name to use its defaults or as an object with parameters.
+ * - `"grayscale"`: convert colors to luminance.
+ * - `"deskew"`: estimate the skew of the text lines with a projection profile and rotate it away.
+ * - `"clahe"`: local contrast normalization for uneven lighting.
+ * - `"sauvola"`: adaptive binarization into black text on white.
+ * - `"denoise"`: median filter removing speckles.
+ */
+export type PreprocessStep =
+    | "grayscale"
+    | "deskew"
+    | "clahe"
+    | "sauvola"
+    | "denoise"
+    | { type: "grayscale" }
+    | ({ type: "deskew" } & DeskewOptions)
+    | ({ type: "clahe" } & ClaheOptions)
+    | ({ type: "sauvola" } & SauvolaOptions)
+    | ({ type: "denoise" } & DenoiseOptions);
+
+/**
+ * Affine transform `[a, b, c, d, e, f]` mapping `(x, y)` to `(a * x + b * y + c, d * x + e * y + f)`.
+ */
+export type AffineMatrix = [number, number, number, number, number, number];
+
+/**
+ * Geometric transform applied by a preprocessing step.
+ */
+export interface PreprocessTransform {
+    type: "deskew";
+    /** Detected skew of the content, in degrees clockwise. The image was rotated back by this angle. */
+    angle: number;
+    /** Maps points of the image before the step onto the transformed image. */
+    matrix: AffineMatrix;
+    /** Size of the transformed image. */
+    width: number;
+    height: number;
+}
+
+/**
+ * A model file of a bundle with the input normalization it was trained with.
+ */
+export interface ModelManifestEntry {
+    /** Path of the ONNX file, resolved by the reader passed to the loader. */
+    file: string;
+    /**
+     * Per-channel mean [R, G, B] on pixels scaled to 0-1, as in PaddleOCR's `inference.yml`.
+     * Pixels are normalized as `(pixel / 255 - mean) / std`.
+     */
+    mean?: [number, number, number];
+    /** Per-channel standard deviation [R, G, B] on pixels scaled to 0-1. */
+    std?: [number, number, number];
+}
+
+/**
+ * Manifest describing a set of models that work together, usually stored as `manifest.json` next to them.
+ * Load it with {@link loadModelBundle}.
+ */
+export interface ModelBundleManifest {
+    /** Human-readable name, e.g. `"PP-OCRv5 mobile"`. */
+    name?: string;
+    /** Version of the models, e.g. `"5.0"`. */
+    version: string;
+    detection?: ModelManifestEntry;
+    recognition?: ModelManifestEntry & {
+        /**
+         * Dictionary file with one character per line, the first line being the empty CTC blank,
+         * or the entries themselves.
+         */
+        dictionary: string | string[];
+        /** Height of the model input, in pixels. */
+        imageHeight?: number;
+    };
+    classification?: ModelManifestEntry & {
+        /** Input size as [height, width]. */
+        imageShape?: [number, number];
+    };
+    orientation?: ModelManifestEntry & {
+        /** Side length of the square model input. */
+        imageSize?: number;
+    };
+}
+
+/**
+ * Options of a frame sequence tracking text across the frames of a video.
+ */
+export interface SequenceOptions {
+    /**
+     * Luminance difference, out of 255, below which a pixel counts as unchanged, absorbing compression noise.
+     * @default 24
+     */
+    pixelTolerance?: number;
+    /**
+     * Share of changed pixels below which a frame skips detection, and a tracked text region
+     * keeps its text without being recognized again.
+     * @default 0.001
+     */
+    changeThreshold?: number;
+    /**
+     * Minimum intersection over union of a detected box with the box of a tracked text to continue it.
+     * @default 0.5
+     */
+    iouThreshold?: number;
+    /**
+     * Minimum similarity, from 0 to 1 after edit distance, of a recognized text with a tracked
+     * text to continue it. A region whose text changes more ends its track and starts a new one.
+     * @default 0.8
+     */
+    textSimilarity?: number;
+    /**
+     * Frames in a row a tracked text may go undetected before it is considered gone.
+     * Frames skipping detection count as well, showing what the last analyzed frame showed.
+     * @default 1
+     */
+    maxMissedFrames?: number;
 }
 
 /**
@@ -110,8 +586,40 @@ export interface PaddleOptions {
 
     /**
      * Controls parameters for text recognition.
+     * This is the default model, also reachable as the language `"default"`.
      */
     recognition?: Partial<RecognitionServiceOptions>;
+
+    /**
+     * Additional recognition models keyed by language, e.g. `{ korean: {...}, cyrillic: {...} }`.
+     * They share the detection model and are picked with the `language` recognition option.
+     */
+    languages?: Record<string, LanguageModelOptions>;
+
+    /**
+     * Optional script identification model for `language: "auto"`. Without it,
+     * the script is guessed from the characters the default model reads.
+     */
+    scriptClassification?: Partial<ScriptClassificationServiceOptions>;
+
+    /**
+     * Controls parameters for the optional text-line orientation classifier.
+     * The stage is skipped when no model buffer is given.
+     */
+    classification?: Partial<ClassificationServiceOptions>;
+
+    /**
+     * Enables page orientation detection. Rotated pages are turned upright before
+     * detection and the result boxes are mapped back to the input's coordinates.
+     */
+    orientation?: Partial<OrientationServiceOptions>;
+
+    /**
+     * Preprocessing steps run in order on every image before detection, e.g.
+     * `["deskew", "grayscale", { type: "clahe", clipLimit: 3 }]`.
+     * Result boxes are mapped back through geometric steps into the input's coordinates.
+     */
+    preprocess?: PreprocessStep[];
 }
 
 /**
@@ -119,6 +627,68 @@ export interface PaddleOptions {
  */
 export interface RecognitionOptions {
     charWhiteList?: string[];
+
+    /**
+     * Key of the recognition model reading the lines, from `languages` or `"default"`.
+     * `"auto"` identifies the script of every line and routes it to the model reading that script.
+     * @default "default"
+     */
+    language?: string;
+
+    /**
+     * Format the whole text of every line has to match, e.g. `\d{4}-\d{2}-\d{2}` or `[A-Z]{2}\d{6}`.
+     * Supports literals, `.`, `\d \w \s` (and negations), character classes, groups,
+     * alternation and the quantifiers `? * + {n} {n,} {n,m}`.
+     * Results report whether a matching text was found in `patternMatched`.
+     */
+    pattern?: string;
+
+    /**
+     * Cancels the run. It stops before the next inference call and rejects with an `OcrAbortError`.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Called as the run advances, with the stage and its completed and total steps:
+     * detection passes, classified lines and recognized lines.
+     */
+    onProgress?: (progress: OcrProgress) => void;
+}
+
+/**
+ * Stage of a recognition run reported to `onProgress`.
+ */
+export type OcrStage = "detection" | "classification" | "recognition";
+
+/**
+ * Progress of a recognition run.
+ */
+export interface OcrProgress {
+    stage: OcrStage;
+    /** Steps of the stage done so far. */
+    completed: number;
+    /** Steps of the stage: detection tiles, or text lines. */
+    total: number;
+}
+
+/**
+ * Cancellation and progress hooks of a single service call.
+ */
+export interface StageHooks {
+    signal?: AbortSignal;
+    /** Called before the first and after every inference call. */
+    onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * A text region given by the caller instead of detection, with its own decoding options.
+ * `charWhiteList` and `pattern` replace those of the call for this region only.
+ */
+export interface RecognitionRegion extends Omit<RecognitionOptions, "signal" | "onProgress"> {
+    /** Area of the text line: a rectangle, or the four corners of a rotated line. */
+    box: Box | Quad;
+    /** Name copied to the result, e.g. the form field the region belongs to. */
+    label?: string;
 }
 
 /**
@@ -133,4 +703,27 @@ export interface Box {
     width: number;
     /** Height of the box in pixels. */
     height: number;
+    /**
+     * Corners of the rotated text region when detection runs with `boxType: "quad"`.
+     * The rectangle fields above then hold the bounding box of these points.
+     */
+    points?: Quad;
 }
+
+/**
+ * Reading direction of a text line: left to right, or top to bottom.
+ */
+export type TextDirection = "horizontal" | "vertical";
+
+/**
+ * A point in image pixel coordinates.
+ */
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Four corner points ordered top-left, top-right, bottom-right, bottom-left.
+ */
+export type Quad = [Point, Point, Point, Point];
@@ -0,0 +1,294 @@
+import type { Box, TextDirection } from "../interface";
+import type { RecognitionResult } from "../processor/recognition";
+import { enclosingBox } from "../utils/geometry";
+
+/**
+ * A whitespace-separated word of a recognized line
+ */
+export interface LayoutWord {
+    text: string;
+    box: Box;
+    confidence: number;
+}
+
+/**
+ * A visual line: recognition results sharing a row (or a column, for vertical text)
+ */
+export interface LayoutLine {
+    text: string;
+    box: Box;
+    confidence: number;
+    direction: TextDirection;
+    words: LayoutWord[];
+    /** Recognition results the line was assembled from, in reading order. */
+    results: RecognitionResult[];
+}
+
+/**
+ * A block of consecutive lines, such as a paragraph or a heading
+ */
+export interface LayoutBlock {
+    text: string;
+    box: Box;
+    confidence: number;
+    direction: TextDirection;
+    /** Index of the column the block belongs to within its region, in reading order. */
+    column: number;
+    lines: LayoutLine[];
+}
+
+/**
+ * Page → blocks → lines → words hierarchy of a recognition run, in reading order
+ */
+export interface PageLayout {
+    /** Text of the page: words joined by spaces, lines by newlines and blocks by blank lines. */
+    text: string;
+    confidence: number;
+    /** Page size, when given in the layout options. */
+    width?: number;
+    height?: number;
+    blocks: LayoutBlock[];
+}
+
+export interface LayoutOptions {
+    /** Page width in pixels, copied to the result. */
+    width?: number;
+    /** Page height in pixels, copied to the result. */
+    height?: number;
+    /**
+     * Minimum empty space between two blocks stacked vertically, as a multiple of the median line height.
+     * @default 0.8
+     */
+    paragraphGap?: number;
+    /**
+     * Minimum empty space between two columns, as a multiple of the median line height.
+     * @default 1.5
+     */
+    columnGap?: number;
+}
+
+const DEFAULT_LAYOUT_OPTIONS: Required<Pick<LayoutOptions, "paragraphGap" | "columnGap">> = {
+    paragraphGap: 0.8,
+    columnGap: 1.5,
+};
+
+/**
+ * Group recognition results into blocks, lines and words with a multi-column reading order.
+ *
+ * Blocks are found by a recursive XY-cut: the result set is split at the widest empty
+ * horizontal or vertical band until no band is wide enough. Vertical bands separate
+ * columns, read left to right (right to left for vertical text); horizontal bands separate
+ * blocks, read top to bottom.
+ */
+export function analyzeLayout(results: RecognitionResult[], options: LayoutOptions = {}): PageLayout {
+    const { paragraphGap, columnGap } = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
+    const valid = results.filter((r) => r.box.width > 0 && r.box.height > 0);
+    const lineSize = median(valid.map((r) => (r.direction === "vertical" ? r.box.width : r.box.height))) || 1;
+
+    const leaves: { results: RecognitionResult[]; column: number }[] = [];
+    xyCut(valid, 0, {
+        horizontalGap: paragraphGap * lineSize,
+        verticalGap: columnGap * lineSize,
+        leaves,
+    });
+
+    const blocks = leaves.map(({ results, column }) => buildBlock(results, column));
+    const page: PageLayout = {
+        text: blocks.map((block) => block.text).join("\n\n"),
+        confidence: mean(valid.map((r) => r.confidence)),
+        blocks,
+    };
+    if (options.width !== undefined) page.width = options.width;
+    if (options.height !== undefined) page.height = options.height;
+    return page;
+}
+
+interface XyCutContext {
+    horizontalGap: number;
+    verticalGap: number;
+    leaves: { results: RecognitionResult[]; column: number }[];
+}
+
+/**
+ * Recursively split results at the most significant empty band, appending leaves in reading order
+ */
+function xyCut(results: RecognitionResult[], column: number, context: XyCutContext) {
+    if (results.length <= 1) {
+        if (results.length) context.leaves.push({ results, column });
+        return;
+    }
+
+    const rows = findGaps(
+        results.map((r) => [r.box.y, r.box.y + r.box.height]),
+        context.horizontalGap,
+    );
+    const columns = findGaps(
+        results.map((r) => [r.box.x, r.box.x + r.box.width]),
+        context.verticalGap,
+    );
+    const rowScore = rows.length ? Math.max(...rows.map((g) => g.size)) / context.horizontalGap : 0;
+    const columnScore = columns.length ? Math.max(...columns.map((g) => g.size)) / context.verticalGap : 0;
+
+    if (!rows.length && !columns.length) {
+        context.leaves.push({ results, column });
+        return;
+    }
+
+    if (columnScore >= rowScore) {
+        const groups = splitAt(results, columns, (r) => r.box.x + r.box.width / 2);
+        if (majorityVertical(results)) groups.reverse();
+        groups.forEach((group, i) => xyCut(group, i, context));
+    } else {
+        const groups = splitAt(results, rows, (r) => r.box.y + r.box.height / 2);
+        groups.forEach((group) => xyCut(group, column, context));
+    }
+}
+
+/**
+ * Empty bands of at least `minSize` between the covered intervals of a projection
+ */
+function findGaps(intervals: [number, number][], minSize: number): { at: number; size: number }[] {
+    const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+    const gaps: { at: number; size: number }[] = [];
+    let end = sorted[0][1];
+    for (const [start, stop] of sorted.slice(1)) {
+        if (start - end >= minSize) {
+            gaps.push({ at: (start + end) / 2, size: start - end });
+        }
+        end = Math.max(end, stop);
+    }
+    return gaps;
+}
+
+/**
+ * Partition results at the gap positions, ordered along the axis
+ */
+function splitAt(
+    results: RecognitionResult[],
+    gaps: { at: number }[],
+    center: (r: RecognitionResult) => number,
+): RecognitionResult[][] {
+    const cuts = gaps.map((g) => g.at).sort((a, b) => a - b);
+    const groups: RecognitionResult[][] = cuts.map(() => []).concat([[]]);
+    for (const result of results) {
+        const c = center(result);
+        let index = 0;
+        while (index < cuts.length && c > cuts[index]) index++;
+        groups[index].push(result);
+    }
+    return groups.filter((group) => group.length);
+}
+
+/**
+ * Assemble the lines of a block: results overlapping by more than half of the
+ * smaller one along the cross axis share a line
+ */
+function buildBlock(results: RecognitionResult[], column: number): LayoutBlock {
+    const direction: TextDirection = majorityVertical(results) ? "vertical" : "horizontal";
+    const vertical = direction === "vertical";
+    const start = (r: RecognitionResult) => (vertical ? r.box.x : r.box.y);
+    const size = (r: RecognitionResult) => (vertical ? r.box.width : r.box.height);
+    const along = (r: RecognitionResult) => (vertical ? r.box.y : r.box.x);
+
+    const sorted = [...results].sort((a, b) =>
+        vertical ? b.box.x + b.box.width - (a.box.x + a.box.width) : start(a) - start(b),
+    );
+    const groups: RecognitionResult[][] = [];
+    for (const result of sorted) {
+        const line = groups.find((group) =>
+            group.some((other) => {
+                const overlap =
+                    Math.min(start(result) + size(result), start(other) + size(other)) -
+                    Math.max(start(result), start(other));
+                return overlap > Math.min(size(result), size(other)) / 2;
+            }),
+        );
+        if (line) line.push(result);
+        else groups.push([result]);
+    }
+
+    const lines = groups.map((group) =>
+        buildLine(
+            group.sort((a, b) => along(a) - along(b)),
+            direction,
+        ),
+    );
+    return {
+        text: lines.map((line) => line.text).join("\n"),
+        box: enclosingBox(results.map((r) => r.box)),
+        confidence: mean(results.map((r) => r.confidence)),
+        direction,
+        column,
+        lines,
+    };
+}
+
+function buildLine(results: RecognitionResult[], direction: TextDirection): LayoutLine {
+    const words = results.flatMap(splitWords);
+    return {
+        text: results.map((r) => r.text).join(" "),
+        box: enclosingBox(results.map((r) => r.box)),
+        confidence: mean(results.map((r) => r.confidence)),
+        direction,
+        words,
+        results,
+    };
+}
+
+/**
+ * Split a recognition result into words at whitespace. Word boxes come from the character
+ * boxes when available, otherwise from the line box proportionally to the character count.
+ */
+export function splitWords(result: RecognitionResult): LayoutWord[] {
+    const characters = result.characters?.length
+        ? result.characters
+        : [...result.text].map((char, i, chars) => ({
+              char,
+              confidence: result.confidence,
+              box: proportionalBox(result.box, i, chars.length, result.direction === "vertical"),
+          }));
+
+    const words: LayoutWord[] = [];
+    let current: typeof characters = [];
+    const flush = () => {
+        if (!current.length) return;
+        words.push({
+            text: current.map((c) => c.char).join(""),
+            box: enclosingBox(current.map((c) => c.box)),
+            confidence: mean(current.map((c) => c.confidence)),
+        });
+        current = [];
+    };
+    for (const character of characters) {
+        if (/^\s*$/.test(character.char)) flush();
+        else current.push(character);
+    }
+    flush();
+    return words;
+}
+
+function proportionalBox(box: Box, index: number, count: number, vertical: boolean): Box {
+    if (vertical) {
+        const y0 = box.y + (box.height * index) / count;
+        const y1 = box.y + (box.height * (index + 1)) / count;
+        return { x: box.x, y: Math.floor(y0), width: box.width, height: Math.ceil(y1) - Math.floor(y0) };
+    }
+    const x0 = box.x + (box.width * index) / count;
+    const x1 = box.x + (box.width * (index + 1)) / count;
+    return { x: Math.floor(x0), y: box.y, width: Math.ceil(x1) - Math.floor(x0), height: box.height };
+}
+
+function majorityVertical(results: RecognitionResult[]): boolean {
+    return results.filter((r) => r.direction === "vertical").length * 2 > results.length;
+}
+
+function mean(values: number[]): number {
+    const finite = values.filter((v) => Number.isFinite(v));
+    return finite.length ? finite.reduce((sum, v) => sum + v, 0) / finite.length : 0;
+}
+
+function median(values: number[]): number {
+    if (!values.length) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,346 @@
+import type { Box } from "../interface";
+import type { RecognitionResult } from "../processor/recognition";
+import { enclosingBox } from "../utils/geometry";
+
+/**
+ * A cell of a reconstructed table. Cells spanning several columns appear once, at their first column.
+ */
+export interface TableCell {
+    /** Cell text. Lines of a multi-line cell are separated by newlines. */
+    text: string;
+    box: Box;
+    confidence: number;
+    /** Index of the row. */
+    row: number;
+    /** Index of the first column covered by the cell. */
+    column: number;
+    /** Number of columns covered by the cell. */
+    columnSpan: number;
+    /** Recognition results that make up the cell, empty for empty cells. */
+    results: RecognitionResult[];
+}
+
+export interface Table {
+    /** Cells of every row, ordered by column. The column spans of a row add up to `columnCount`. */
+    rows: TableCell[][];
+    columnCount: number;
+    box: Box;
+}
+
+export interface TableOptions {
+    /** Only use results whose center lies inside this region. */
+    region?: Box;
+    /**
+     * Minimum empty space between two columns, as a multiple of the median line height.
+     * @default 0.8
+     */
+    columnGap?: number;
+    /**
+     * Fraction of the text lines allowed to cross a column gap, such as headers spanning several columns.
+     * @default 0.25
+     */
+    spanningRatio?: number;
+    /**
+     * Merge a text line into the row above when it is closer than `rowGap` times the median
+     * line height, leaves the row's first column empty and only continues cells of that row.
+     * @default true
+     */
+    multilineCells?: boolean;
+    /**
+     * Maximum empty space between the lines of a multi-line cell, as a multiple of the median line height.
+     * @default 0.6
+     */
+    rowGap?: number;
+}
+
+const DEFAULT_TABLE_OPTIONS: Required<Omit<TableOptions, "region">> = {
+    columnGap: 0.8,
+    spanningRatio: 0.25,
+    multilineCells: true,
+    rowGap: 0.6,
+};
+
+interface TextLine {
+    results: RecognitionResult[];
+    top: number;
+    bottom: number;
+}
+
+/**
+ * Reconstruct a table from recognized text boxes.
+ *
+ * Results are first grouped into text lines by vertical overlap. Column boundaries are the
+ * horizontal bands crossed by few enough lines, and sparse lines close to the line above are
+ * treated as the continuation of multi-line cells.
+ */
+export function extractTable(results: RecognitionResult[], options: TableOptions = {}): Table {
+    const { columnGap, spanningRatio, multilineCells, rowGap } = { ...DEFAULT_TABLE_OPTIONS, ...options };
+    const region = options.region;
+    const items = results.filter((r) => {
+        if (r.box.width <= 0 || r.box.height <= 0) return false;
+        if (!region) return true;
+        const cx = r.box.x + r.box.width / 2;
+        const cy = r.box.y + r.box.height / 2;
+        return cx >= region.x && cx <= region.x + region.width && cy >= region.y && cy <= region.y + region.height;
+    });
+    if (!items.length) {
+        return { rows: [], columnCount: 0, box: region ?? { x: 0, y: 0, width: 0, height: 0 } };
+    }
+
+    const lineHeight = median(items.map((r) => r.box.height));
+    const lines = groupLines(items);
+    const separators = findColumnSeparators(lines, columnGap * lineHeight, Math.floor(lines.length * spanningRatio));
+    const columnOf = (x: number) => separators.filter((s) => x > s).length;
+    const spanOf = (box: Box): [number, number] => {
+        const first = columnOf(box.x);
+        return [first, Math.max(first, columnOf(box.x + box.width))];
+    };
+
+    // Group lines into rows, merging continuation lines of multi-line cells
+    const rows: TextLine[][] = [];
+    for (const line of lines) {
+        const previous = rows[rows.length - 1];
+        if (multilineCells && previous && isContinuation(previous, line, rowGap * lineHeight, spanOf)) {
+            previous.push(line);
+        } else {
+            rows.push([line]);
+        }
+    }
+
+    const columnCount = separators.length + 1;
+    const tableBox = enclosingBox(items.map((r) => r.box));
+    const bounds = [tableBox.x, ...separators, tableBox.x + tableBox.width];
+
+    const grid = rows.map((rowLines, rowIndex) => {
+        const top = Math.min(...rowLines.map((l) => l.top));
+        const bottom = Math.max(...rowLines.map((l) => l.bottom));
+
+        // Results whose column spans overlap end up in the same cell
+        const groups: { span: [number, number]; results: RecognitionResult[] }[] = [];
+        for (const result of rowLines.flatMap((l) => l.results)) {
+            const span = spanOf(result.box);
+            const overlapping = groups.filter((g) => g.span[0] <= span[1] && span[0] <= g.span[1]);
+            const merged = {
+                span: [
+                    Math.min(span[0], ...overlapping.map((g) => g.span[0])),
+                    Math.max(span[1], ...overlapping.map((g) => g.span[1])),
+                ] as [number, number],
+                results: [...overlapping.flatMap((g) => g.results), result],
+            };
+            groups.splice(0, groups.length, ...groups.filter((g) => !overlapping.includes(g)), merged);
+        }
+        groups.sort((a, b) => a.span[0] - b.span[0]);
+
+        const cells: TableCell[] = [];
+        let column = 0;
+        const pushEmpty = (until: number) => {
+            for (; column < until; column++) {
+                cells.push({
+                    text: "",
+                    box: {
+                        x: bounds[column],
+                        y: top,
+                        width: bounds[column + 1] - bounds[column],
+                        height: bottom - top,
+                    },
+                    confidence: 0,
+                    row: rowIndex,
+                    column,
+                    columnSpan: 1,
+                    results: [],
+                });
+            }
+        };
+        for (const group of groups) {
+            pushEmpty(group.span[0]);
+            cells.push({
+                text: cellText(group.results, rowLines),
+                box: enclosingBox(group.results.map((r) => r.box)),
+                confidence: mean(group.results.map((r) => r.confidence)),
+                row: rowIndex,
+                column: group.span[0],
+                columnSpan: group.span[1] - group.span[0] + 1,
+                results: group.results,
+            });
+            column = group.span[1] + 1;
+        }
+        pushEmpty(columnCount);
+        return cells;
+    });
+
+    return { rows: grid, columnCount, box: tableBox };
+}
+
+/**
+ * Group results into text lines by vertical overlap, top to bottom, each sorted left to right
+ */
+function groupLines(results: RecognitionResult[]): TextLine[] {
+    const sorted = [...results].sort((a, b) => a.box.y - b.box.y);
+    const lines: TextLine[] = [];
+    for (const result of sorted) {
+        const top = result.box.y;
+        const bottom = result.box.y + result.box.height;
+        const line = lines.find(
+            (l) => Math.min(bottom, l.bottom) - Math.max(top, l.top) > Math.min(bottom - top, l.bottom - l.top) / 2,
+        );
+        if (line) {
+            line.results.push(result);
+            line.top = Math.min(line.top, top);
+            line.bottom = Math.max(line.bottom, bottom);
+        } else {
+            lines.push({ results: [result], top, bottom });
+        }
+    }
+    for (const line of lines) {
+        line.results.sort((a, b) => a.box.x - b.box.x);
+    }
+    return lines.sort((a, b) => a.top - b.top);
+}
+
+/**
+ * Column boundaries: bands crossed by at most `tolerance` text lines. Within such a band the
+ * separator goes through the widest stretch crossed by the fewest lines, which has to be at
+ * least `minGap` wide.
+ */
+function findColumnSeparators(lines: TextLine[], minGap: number, tolerance: number): number[] {
+    const events: [number, number][] = [];
+    for (const line of lines) {
+        for (const [start, end] of mergeIntervals(line.results.map((r) => [r.box.x, r.box.x + r.box.width]))) {
+            events.push([start, 1], [end, -1]);
+        }
+    }
+    events.sort((a, b) => a[0] - b[0]);
+
+    // Stretches of constant coverage between the first and last box edge
+    const segments: { start: number; end: number; coverage: number }[] = [];
+    let coverage = 0;
+    for (let i = 0; i < events.length - 1; i++) {
+        coverage += events[i][1];
+        const [start, end] = [events[i][0], events[i + 1][0]];
+        if (end <= start) continue;
+        const last = segments[segments.length - 1];
+        if (last && last.coverage === coverage && last.end === start) last.end = end;
+        else segments.push({ start, end, coverage });
+    }
+
+    const separators: number[] = [];
+    let i = 0;
+    while (i < segments.length) {
+        if (segments[i].coverage > tolerance) {
+            i++;
+            continue;
+        }
+        const run: typeof segments = [];
+        while (i < segments.length && segments[i].coverage <= tolerance) run.push(segments[i++]);
+        // Bands touching the table edges are margins, not column gaps
+        if (run[0] === segments[0] || i === segments.length) continue;
+
+        const fewest = Math.min(...run.map((segment) => segment.coverage));
+        const best = run
+            .filter((segment) => segment.coverage === fewest)
+            .reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a));
+        if (best.end - best.start >= minGap) separators.push((best.start + best.end) / 2);
+    }
+    return separators;
+}
+
+function mergeIntervals(intervals: [number, number][]): [number, number][] {
+    const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const [start, end] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+        else merged.push([start, end]);
+    }
+    return merged;
+}
+
+/**
+ * Whether a line continues the cells of a row: it follows closely, only fills columns the
+ * row already uses and leaves the row's first column empty, which starts a new row otherwise
+ */
+function isContinuation(
+    row: TextLine[],
+    line: TextLine,
+    maxGap: number,
+    spanOf: (box: Box) => [number, number],
+): boolean {
+    const previous = row[row.length - 1];
+    if (line.top - previous.bottom > maxGap) return false;
+
+    const used = new Set<number>();
+    for (const result of row.flatMap((l) => l.results)) {
+        const [first, last] = spanOf(result.box);
+        for (let c = first; c <= last; c++) used.add(c);
+    }
+    const filled = new Set<number>();
+    for (const result of line.results) {
+        const [first, last] = spanOf(result.box);
+        for (let c = first; c <= last; c++) filled.add(c);
+    }
+    return !filled.has(Math.min(...used)) && [...filled].every((c) => used.has(c));
+}
+
+/**
+ * Words on the same line are joined by spaces, lines by newlines
+ */
+function cellText(results: RecognitionResult[], lines: TextLine[]): string {
+    return lines
+        .map((line) => line.results.filter((r) => results.includes(r)))
+        .filter((lineResults) => lineResults.length)
+        .map((lineResults) => lineResults.map((r) => r.text).join(" "))
+        .join("\n");
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Serialize a table to CSV (RFC 4180). Spanned columns are left empty.
+ */
+export function tableToCsv(table: Table, delimiter = ","): string {
+    const quote = (text: string) =>
+        /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+    return table.rows
+        .map((cells) =>
+            cells.flatMap((cell) => [quote(cell.text), ...Array(cell.columnSpan - 1).fill("")]).join(delimiter),
+        )
+        .join("\r\n");
+}
+
+/**
+ * Serialize a table to a GitHub-flavored Markdown table, using the first row as the header.
+ * Spanned columns are left empty and line breaks become `<br>`.
+ */
+export function tableToMarkdown(table: Table): string {
+    if (!table.rows.length) return "";
+    const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+    const row = (cells: TableCell[]) =>
+        `| ${cells.flatMap((cell) => [escape(cell.text), ...Array(cell.columnSpan - 1).fill("")]).join(" | ")} |`;
+    const [header, ...body] = table.rows;
+    return [row(header), `|${" --- |".repeat(table.columnCount)}`, ...body.map(row)].join("\n");
+}
+
+/**
+ * Serialize a table to an HTML `<table>`, with `colspan` for spanning cells
+ */
+export function tableToHtml(table: Table): string {
+    const rows = table.rows.map((cells) => {
+        const tds = cells.map((cell) => {
+            const span = cell.columnSpan > 1 ? ` colspan="${cell.columnSpan}"` : "";
+            return `<td${span}>${escapeHtml(cell.text).replace(/\r?\n/g, "<br>")}</td>`;
+        });
+        return `<tr>${tds.join("")}</tr>`;
+    });
+    return `<table>\n${rows.map((row) => `  ${row}\n`).join("")}</table>`;
+}
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
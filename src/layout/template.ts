@@ -0,0 +1,256 @@
+import type { AffineMatrix, Box, Point, Quad, RecognitionRegion } from "../interface";
+import type { RecognitionResult } from "../processor/recognition";
+import { applyAffineTransform, boundingBox, estimateAffineTransform, rectToQuad } from "../utils/geometry";
+
+/**
+ * Text printed at the same place on every copy of a form, used to align the template with a page.
+ */
+export interface TemplateAnchor {
+    /** Printed text, e.g. `"Date of birth"`. Matched ignoring case and whitespace. */
+    text: string;
+    /** Where the text lies on the template, in coordinates normalized to the page size (0 to 1). */
+    box: Box;
+}
+
+/**
+ * A named area of a form to read. `charWhiteList`, `pattern` and `language` apply to this field only.
+ */
+export interface TemplateField extends Omit<RecognitionRegion, "box" | "label"> {
+    /** Where the field lies on the template, in coordinates normalized to the page size (0 to 1). */
+    box: Box;
+    /**
+     * Names of the anchors placing this field, usually the nearby labels.
+     * All anchors of the template are used when omitted.
+     */
+    anchors?: string[];
+}
+
+/**
+ * Layout of a form: anchor texts and the fields positioned relative to them.
+ */
+export interface FormTemplate {
+    anchors: Record<string, TemplateAnchor>;
+    fields: Record<string, TemplateField>;
+}
+
+export interface TemplateOptions {
+    /**
+     * Share of the characters of an anchor text allowed to be misread, dropped or added.
+     * @default 0.2
+     */
+    anchorTolerance?: number;
+}
+
+/**
+ * A field region located on a page, ready for recognition.
+ */
+export interface LocatedField extends RecognitionRegion {
+    box: Quad;
+    /** Name of the field. */
+    label: string;
+    /** Whether an anchor of the field was not found, its region then being placed from the others or the page size. */
+    anchorsMissing: boolean;
+}
+
+/**
+ * Text read from a field of a form.
+ */
+export interface ExtractedField {
+    text: string;
+    confidence: number;
+    /** Region of the field on the page. */
+    box: Box;
+    /** Whether an anchor of the field was not found, making its region less reliable. */
+    anchorsMissing: boolean;
+    /** Whether the text matches the field's `pattern`, when it has one. */
+    patternMatched?: boolean;
+}
+
+const DEFAULT_TEMPLATE_OPTIONS: Required<TemplateOptions> = {
+    anchorTolerance: 0.2,
+};
+
+/**
+ * Find the anchors of a template among recognized lines.
+ *
+ * An anchor matches a line containing its text, up to the allowed misreadings, and covers the
+ * characters of that part of the line. Among several matches, the one with the fewest misreadings
+ * closest to where the template expects it wins.
+ *
+ * @return Corners of every anchor found on the page, keyed by anchor name.
+ */
+export function findAnchors(
+    template: FormTemplate,
+    results: RecognitionResult[],
+    width: number,
+    height: number,
+    options: TemplateOptions = {},
+): Record<string, Quad> {
+    const { anchorTolerance } = { ...DEFAULT_TEMPLATE_OPTIONS, ...options };
+    const lines = results.map(normalizeLine);
+    const found: Record<string, Quad> = {};
+
+    for (const [name, anchor] of Object.entries(template.anchors)) {
+        const pattern = normalizeText(anchor.text);
+        if (!pattern) continue;
+        const maxEdits = Math.floor(pattern.length * anchorTolerance);
+        const expected = {
+            x: (anchor.box.x + anchor.box.width / 2) * width,
+            y: (anchor.box.y + anchor.box.height / 2) * height,
+        };
+
+        let best: { quad: Quad; edits: number; distance: number } | undefined;
+        for (const [i, result] of results.entries()) {
+            const match = approximateMatch(pattern, lines[i].text);
+            if (!match || match.edits > maxEdits) continue;
+            const quad = spanQuad(result, lines[i].characters.slice(match.start, match.end));
+            const center = quadCenter(quad);
+            const distance = Math.hypot(center.x - expected.x, center.y - expected.y);
+            if (!best || match.edits < best.edits || (match.edits === best.edits && distance < best.distance)) {
+                best = { quad, edits: match.edits, distance };
+            }
+        }
+        if (best) {
+            found[name] = best.quad;
+        }
+    }
+    return found;
+}
+
+/**
+ * Place the fields of a template on a page.
+ *
+ * Every field is mapped through the least-squares affine transform taking the corners of its
+ * anchors on the template onto those found on the page. Fields whose anchors were all missed
+ * fall back to the anchors found for the other fields, then to scaling the template to the page.
+ *
+ * @return One region per field, in the order of `template.fields`, labelled with the field name.
+ */
+export function locateFields(
+    template: FormTemplate,
+    results: RecognitionResult[],
+    width: number,
+    height: number,
+    options: TemplateOptions = {},
+): LocatedField[] {
+    const found = findAnchors(template, results, width, height, options);
+    const scale: AffineMatrix = [width, 0, 0, 0, height, 0];
+    const pageAlignment = alignAnchors(template, Object.keys(found), found) ?? scale;
+
+    return Object.entries(template.fields).map(([name, field]) => {
+        const { anchors = Object.keys(template.anchors), box, ...region } = field;
+        for (const anchor of anchors) {
+            if (!template.anchors[anchor]) {
+                throw new Error(`Field "${name}" refers to unknown anchor "${anchor}"`);
+            }
+        }
+        const present = anchors.filter((anchor) => found[anchor]);
+        const matrix = alignAnchors(template, present, found) ?? pageAlignment;
+        return {
+            ...region,
+            box: rectToQuad(box).map((point) => applyAffineTransform(matrix, point)) as Quad,
+            label: name,
+            anchorsMissing: present.length < anchors.length,
+        };
+    });
+}
+
+/**
+ * Affine transform from the template onto the page fitted to the given anchors, if any
+ */
+function alignAnchors(template: FormTemplate, names: string[], found: Record<string, Quad>): AffineMatrix | null {
+    if (!names.length) {
+        return null;
+    }
+    const source = names.flatMap((name) => rectToQuad(template.anchors[name].box));
+    const target = names.flatMap((name) => found[name]);
+    try {
+        return estimateAffineTransform(source, target);
+    } catch {
+        // Anchors of no area cannot place a region
+        return null;
+    }
+}
+
+/**
+ * Case-folded text of a line without whitespace, with the character each code unit comes from
+ */
+function normalizeLine(result: RecognitionResult): { text: string; characters: number[] } {
+    const characters = result.characters ?? [];
+    if (!characters.length) {
+        return { text: normalizeText(result.text), characters: [] };
+    }
+    let text = "";
+    const indices: number[] = [];
+    characters.forEach((character, i) => {
+        const normalized = normalizeText(character.char);
+        text += normalized;
+        indices.push(...new Array<number>(normalized.length).fill(i));
+    });
+    return { text, characters: indices };
+}
+
+function normalizeText(text: string): string {
+    return text.normalize("NFKC").toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Corners of the characters `indices` of a line, or of the whole line when they are unknown
+ */
+function spanQuad(result: RecognitionResult, indices: number[]): Quad {
+    const characters = result.characters ?? [];
+    if (!indices.length) {
+        return result.box.points ?? rectToQuad(result.box);
+    }
+    const first = characters[indices[0]].box;
+    const last = characters[indices[indices.length - 1]].box;
+    if (first.points && last.points) {
+        return [first.points[0], last.points[1], last.points[2], first.points[3]];
+    }
+    return rectToQuad(boundingBox([first, last].flatMap((box) => rectToQuad(box))));
+}
+
+function quadCenter(quad: Quad): Point {
+    return { x: quad.reduce((sum, p) => sum + p.x, 0) / 4, y: quad.reduce((sum, p) => sum + p.y, 0) / 4 };
+}
+
+/**
+ * Best occurrence of `pattern` inside `text` allowing substitutions, insertions and deletions,
+ * as UTF-16 code unit offsets with an exclusive `end`
+ */
+function approximateMatch(pattern: string, text: string): { start: number; end: number; edits: number } | null {
+    if (!text) {
+        return null;
+    }
+    // Column j holds the edits of the best alignment of the pattern prefix ending at text[j - 1],
+    // the match being free to start anywhere
+    let previous = Array.from({ length: text.length + 1 }, () => 0);
+    let previousStart = Array.from({ length: text.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= pattern.length; i++) {
+        const current = [i];
+        const currentStart = [0];
+        for (let j = 1; j <= text.length; j++) {
+            const substitution = previous[j - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+            const deletion = previous[j] + 1;
+            const insertion = current[j - 1] + 1;
+            if (substitution <= deletion && substitution <= insertion) {
+                current.push(substitution);
+                currentStart.push(previousStart[j - 1]);
+            } else if (deletion <= insertion) {
+                current.push(deletion);
+                currentStart.push(previousStart[j]);
+            } else {
+                current.push(insertion);
+                currentStart.push(currentStart[j - 1]);
+            }
+        }
+        previous = current;
+        previousStart = currentStart;
+    }
+
+    let end = 1;
+    for (let j = 2; j <= text.length; j++) {
+        if (previous[j] < previous[end]) end = j;
+    }
+    return { start: previousStart[end], end, edits: previous[end] };
+}
@@ -0,0 +1,153 @@
+import type { ModelBundleManifest, ModelManifestEntry, PaddleOptions } from "../interface";
+import { ModelValidationError } from "../errors";
+
+/**
+ * Reads a file of a bundle given its path in the manifest, e.g. with `fs.readFile` or `fetch`
+ */
+export type ModelFileReader = (path: string) => Promise<ArrayBuffer | Uint8Array | string>;
+
+/**
+ * Parse and check a model bundle manifest
+ * @param manifest JSON text or an already parsed object
+ * @throws {ModelValidationError} When a field is missing or has the wrong type
+ */
+export function parseModelManifest(manifest: string | object): ModelBundleManifest {
+    let value: unknown = manifest;
+    if (typeof manifest === "string") {
+        try {
+            value = JSON.parse(manifest);
+        } catch (error) {
+            throw new ModelValidationError(`Invalid model manifest: ${(error as Error).message}`);
+        }
+    }
+    const fail = (message: string): never => {
+        throw new ModelValidationError(`Invalid model manifest: ${message}`);
+    };
+    const isPositiveInteger = (v: unknown) => Number.isInteger(v) && (v as number) > 0;
+
+    if (!isObject(value)) fail("expected an object");
+    const root = value as Record<string, unknown>;
+    if (typeof root.version !== "string") fail("version must be a string");
+    if (root.name !== undefined && typeof root.name !== "string") fail("name must be a string");
+    if (!root.detection && !root.recognition) fail("expected a detection or a recognition model");
+
+    for (const key of ["detection", "recognition", "classification", "orientation"]) {
+        const entry = root[key];
+        if (entry === undefined) continue;
+        if (!isObject(entry)) fail(`${key} must be an object`);
+        const { file, mean, std } = entry as Record<string, unknown>;
+        if (typeof file !== "string" || !file) fail(`${key}.file must be a path`);
+        if (mean !== undefined && !isTriple(mean, false)) fail(`${key}.mean must be 3 numbers`);
+        if (std !== undefined && !isTriple(std, true)) fail(`${key}.std must be 3 positive numbers`);
+    }
+
+    const recognition = root.recognition as Record<string, unknown> | undefined;
+    if (recognition) {
+        const { dictionary, imageHeight } = recognition;
+        const isList = Array.isArray(dictionary) && dictionary.every((entry) => typeof entry === "string");
+        if (!(typeof dictionary === "string" && dictionary) && !isList) {
+            fail("recognition.dictionary must be a path or a list of characters");
+        }
+        if (imageHeight !== undefined && !isPositiveInteger(imageHeight)) {
+            fail("recognition.imageHeight must be a positive integer");
+        }
+    }
+    const imageShape = (root.classification as Record<string, unknown> | undefined)?.imageShape;
+    if (
+        imageShape !== undefined &&
+        !(Array.isArray(imageShape) && imageShape.length === 2 && imageShape.every(isPositiveInteger))
+    ) {
+        fail("classification.imageShape must be [height, width]");
+    }
+    const imageSize = (root.orientation as Record<string, unknown> | undefined)?.imageSize;
+    if (imageSize !== undefined && !isPositiveInteger(imageSize)) {
+        fail("orientation.imageSize must be a positive integer");
+    }
+    return root as unknown as ModelBundleManifest;
+}
+
+/**
+ * Read the models and dictionary of a bundle and build the matching service options.
+ * Spread the result into the options of {@link PaddleOcrService.createInstance}:
+ *
+ * ```js
+ * const bundle = await loadModelBundle(manifest, (path) => readFile(`models/${path}`));
+ * const service = await PaddleOcrService.createInstance({ ort, ...bundle });
+ * ```
+ */
+export async function loadModelBundle(
+    manifest: ModelBundleManifest | string,
+    readFile: ModelFileReader,
+): Promise<PaddleOptions> {
+    const { detection, recognition, classification, orientation } = parseModelManifest(manifest);
+    const options: PaddleOptions = {};
+    const readModel = async (entry: ModelManifestEntry) => ({
+        modelBuffer: toArrayBuffer(await readFile(entry.file)),
+        ...normalization(entry),
+    });
+
+    if (detection) {
+        options.detection = await readModel(detection);
+    }
+    if (recognition) {
+        const { dictionary, imageHeight } = recognition;
+        options.recognition = {
+            ...(await readModel(recognition)),
+            charactersDictionary: Array.isArray(dictionary)
+                ? dictionary
+                : toText(await readFile(dictionary)).split(/\r?\n/),
+            ...(imageHeight !== undefined && { imageHeight }),
+        };
+    }
+    if (classification) {
+        const { imageShape } = classification;
+        options.classification = { ...(await readModel(classification)), ...(imageShape && { imageShape }) };
+    }
+    if (orientation) {
+        const { imageSize } = orientation;
+        options.orientation = { ...(await readModel(orientation)), ...(imageSize !== undefined && { imageSize }) };
+    }
+    return options;
+}
+
+/**
+ * Convert PaddleOCR's normalization on 0-1 pixels into the services' `mean` and `stdDeviation`,
+ * which apply `(pixel - mean) * stdDeviation` to 0-255 pixels
+ */
+function normalization(entry: ModelManifestEntry) {
+    const options: { mean?: [number, number, number]; stdDeviation?: [number, number, number] } = {};
+    if (entry.mean) {
+        options.mean = entry.mean.map((v) => v * 255) as [number, number, number];
+    }
+    if (entry.std) {
+        options.stdDeviation = entry.std.map((v) => 1 / (v * 255)) as [number, number, number];
+    }
+    return options;
+}
+
+function toArrayBuffer(data: ArrayBuffer | Uint8Array | string): ArrayBuffer {
+    if (typeof data === "string") {
+        throw new ModelValidationError("Model files must be read as binary data, not text");
+    }
+    if (data instanceof ArrayBuffer) {
+        return data;
+    }
+    // Node buffers may be views into a larger shared pool
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+function toText(data: ArrayBuffer | Uint8Array | string): string {
+    return typeof data === "string" ? data : new TextDecoder("utf-8").decode(data);
+}
+
+function isObject(value: unknown): value is object {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isTriple(value: unknown, positive: boolean): boolean {
+    return (
+        Array.isArray(value) &&
+        value.length === 3 &&
+        value.every((v) => typeof v === "number" && Number.isFinite(v) && (!positive || v > 0))
+    );
+}
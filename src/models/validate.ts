@@ -0,0 +1,119 @@
+import type * as ort from "onnxruntime-node";
+import { ModelValidationError } from "../errors";
+
+/**
+ * What a service feeds to and reads from its model
+ */
+export interface ModelSignature {
+    /** Name of the model in error messages, e.g. `"Recognition"`. */
+    model: string;
+    /** Input height fed by the service, checked when the model fixes it. */
+    inputHeight?: number;
+    /** Input width fed by the service, checked when the model fixes it. */
+    inputWidth?: number;
+    /** Rank of the first output. */
+    outputRank: number;
+    /** Size of the last output dimension, checked when the model fixes it. */
+    classes?: number;
+}
+
+/**
+ * Every service feeds a single NCHW float tensor under this name
+ */
+const INPUT_NAME = "x";
+
+/**
+ * Check the input and output names and shapes of a loaded model against its service.
+ * Dimensions the model leaves symbolic, and shapes of runtimes without metadata, are not checked.
+ * @throws {ModelValidationError} When the model cannot work with the service
+ */
+export function validateModel(session: ort.InferenceSession, signature: ModelSignature): void {
+    const { model } = signature;
+    if (!session.inputNames.includes(INPUT_NAME)) {
+        throw new ModelValidationError(
+            `${model} model has inputs [${session.inputNames.join(", ")}], expected an input named "${INPUT_NAME}"`,
+        );
+    }
+    if (!session.outputNames.length) {
+        throw new ModelValidationError(`${model} model has no outputs`);
+    }
+
+    const input = tensorShape(session.inputMetadata, INPUT_NAME);
+    if (input) {
+        const [, channels, height, width] = input;
+        if (input.length !== 4 || (typeof channels === "number" && channels !== 3)) {
+            throw new ModelValidationError(
+                `${model} model input has shape [${input.join(", ")}], expected [batch, 3, height, width]`,
+            );
+        }
+        if (signature.inputHeight !== undefined && typeof height === "number" && height !== signature.inputHeight) {
+            throw new ModelValidationError(
+                `${model} model expects inputs ${height} pixels high, but is configured for ${signature.inputHeight}`,
+            );
+        }
+        if (signature.inputWidth !== undefined && typeof width === "number" && width !== signature.inputWidth) {
+            throw new ModelValidationError(
+                `${model} model expects inputs ${width} pixels wide, but is configured for ${signature.inputWidth}`,
+            );
+        }
+    }
+
+    const output = tensorShape(session.outputMetadata, session.outputNames[0]);
+    if (output) {
+        if (output.length !== signature.outputRank) {
+            throw new ModelValidationError(
+                `${model} model output has shape [${output.join(", ")}], expected ${signature.outputRank} dimensions. ` +
+                    `Is it the right model?`,
+            );
+        }
+        const classes = output[output.length - 1];
+        if (signature.classes !== undefined && typeof classes === "number" && classes !== signature.classes) {
+            throw new ModelValidationError(
+                `${model} model outputs ${classes} classes, expected ${signature.classes}. Is it the right model?`,
+            );
+        }
+    }
+}
+
+/**
+ * Size of the class dimension of a model's first output, `null` when the model does not fix it
+ */
+export function outputClasses(session: ort.InferenceSession): number | null {
+    const shape = tensorShape(session.outputMetadata, session.outputNames[0]);
+    const classes = shape?.[shape.length - 1];
+    return typeof classes === "number" && classes > 0 ? classes : null;
+}
+
+/**
+ * Check that a recognition dictionary covers the classes of the model, index 0 being the CTC blank
+ * @throws {ModelValidationError} When the counts differ, as every character would be shifted or lost
+ */
+export function validateDictionary(classes: number, dictionary: string[]): void {
+    if (dictionary.length === classes) {
+        return;
+    }
+    let hint = "Is it the dictionary of this model?";
+    if (dictionary.length === classes - 1) {
+        hint = 'Is the blank entry at index 0 missing? Dictionaries start with an empty line ("").';
+    } else if (dictionary.length === classes - 2) {
+        hint = "Are both the blank entry at index 0 and the trailing space entry missing?";
+    }
+    throw new ModelValidationError(
+        `Recognition dictionary has ${dictionary.length} entries (blank included) ` +
+            `but the model outputs ${classes} classes. ${hint}`,
+    );
+}
+
+/**
+ * Shape of a named tensor in session metadata, `null` when unknown
+ */
+function tensorShape(
+    metadata: readonly ort.InferenceSession.ValueMetadata[] | undefined,
+    name: string,
+): ReadonlyArray<number | string> | null {
+    const value = metadata?.find((entry) => entry.name === name);
+    if (!value?.isTensor || !value.shape.length) {
+        return null;
+    }
+    return value.shape;
+}
@@ -0,0 +1,131 @@
+import type * as ort from "onnxruntime-node";
+import type { Box, ClassificationServiceOptions, StageHooks, TextOrientation } from "../interface";
+import { DEFAULT_CLASSIFICATION_OPTIONS } from "../constants";
+import { throwIfAborted } from "../errors";
+import { validateModel } from "../models/validate";
+import { textLineDirection } from "../utils/geometry";
+import { Image } from "../utils/image";
+
+/**
+ * Angles matching the output classes of PaddleOCR's text-line orientation model
+ */
+const ORIENTATION_LABELS: TextOrientation["angle"][] = [0, 180];
+
+/**
+ * Service for classifying the orientation (0° or 180°) of detected text lines
+ */
+export class ClassificationService {
+    private readonly options: ClassificationServiceOptions;
+    private readonly session: ort.InferenceSession;
+    private readonly ortModule: typeof ort;
+
+    constructor(
+        ortModule: typeof ort,
+        session: ort.InferenceSession,
+        options: Partial<ClassificationServiceOptions> = {},
+    ) {
+        this.session = session;
+        this.ortModule = ortModule;
+
+        this.options = {
+            ...DEFAULT_CLASSIFICATION_OPTIONS,
+            ...options,
+        };
+        const [inputHeight, inputWidth] = this.options.imageShape!;
+        validateModel(session, {
+            model: "Text-line orientation",
+            inputHeight,
+            inputWidth,
+            outputRank: 2,
+            classes: ORIENTATION_LABELS.length,
+        });
+    }
+
+    /**
+     * Main method to classify the orientation of every detected region
+     * @param image The original image
+     * @param detection Array of bounding boxes from text detection
+     * @param verticalRatio Boxes at least this many times taller than wide are rotated
+     * counter-clockwise before classification, as the recognition stage does
+     * @param hooks Cancellation and progress over the classified boxes
+     * @returns One orientation per box, aligned with `detection`. Lines are only reported
+     * as 180° when the prediction confidence exceeds the configured threshold.
+     */
+    async run(
+        image: Image,
+        detection: Box[],
+        verticalRatio = Infinity,
+        hooks: StageHooks = {},
+    ): Promise<TextOrientation[]> {
+        const orientations: TextOrientation[] = [];
+        hooks.onProgress?.(0, detection.length);
+        for (const box of detection) {
+            throwIfAborted(hooks.signal);
+            if (box.width <= 0 || box.height <= 0) {
+                orientations.push({ angle: 0, confidence: 0 });
+            } else {
+                const crop = image.cropBox(box);
+                const vertical = textLineDirection(box, verticalRatio) === "vertical";
+                orientations.push(await this.classify(vertical ? crop.rotate({ angle: 270 }) : crop));
+            }
+            hooks.onProgress?.(orientations.length, detection.length);
+        }
+        return orientations;
+    }
+
+    /**
+     * Classify a single cropped text line
+     */
+    async classify(crop: Image): Promise<TextOrientation> {
+        const [height, width] = this.options.imageShape!;
+        const tensor = classifierTensor(crop, height, width, this.options.mean!, this.options.stdDeviation!);
+        const inputTensor = new this.ortModule.Tensor("float32", tensor, [1, 3, height, width]);
+
+        const results = await this.session.run({ x: inputTensor });
+        const outputTensor = results[this.session.outputNames[0]];
+        if (!outputTensor) {
+            throw new Error(`Classification output tensor not found. Available keys: ${Object.keys(results)}`);
+        }
+
+        const scores = outputTensor.data as Float32Array;
+        let bestIndex = 0;
+        for (let i = 1; i < ORIENTATION_LABELS.length; i++) {
+            if (scores[i] > scores[bestIndex]) bestIndex = i;
+        }
+        const angle = ORIENTATION_LABELS[bestIndex];
+        const confidence = scores[bestIndex];
+
+        if (angle === 180 && confidence <= this.options.threshold!) {
+            return { angle: 0, confidence: scores[0] };
+        }
+        return { angle, confidence };
+    }
+}
+
+/**
+ * Resize a text-line crop to the height of a classifier, keeping its aspect ratio up to the
+ * classifier width, and right-pad the normalized tensor with zeros
+ */
+export function classifierTensor(
+    crop: Image,
+    height: number,
+    width: number,
+    mean: [number, number, number],
+    stdDeviation: [number, number, number],
+): Float32Array {
+    const resizedWidth = Math.min(width, Math.max(1, Math.ceil((height * crop.width) / crop.height)));
+    const resized = crop.resize({ width: resizedWidth, height });
+    const data = resized.tensor({
+        mean_values: mean,
+        norm_values: stdDeviation,
+    });
+
+    const tensor = new Float32Array(3 * height * width);
+    for (let c = 0; c < 3; c++) {
+        for (let y = 0; y < height; y++) {
+            const srcOffset = c * height * resizedWidth + y * resizedWidth;
+            tensor.set(data.subarray(srcOffset, srcOffset + resizedWidth), c * height * width + y * width);
+        }
+    }
+    return tensor;
+}
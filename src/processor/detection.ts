@@ -1,7 +1,36 @@
 import type * as ort from "onnxruntime-web";
 import { Image } from "../utils/image";
 import { DEFAULT_DETECTION_OPTIONS } from "../constants";
-import type { Box, DetectionServiceOptions } from "../interface";
+import type { Box, DetectionServiceOptions, Point, Quad, StageHooks } from "../interface";
+import { throwIfAborted } from "../errors";
+import { validateModel } from "../models/validate";
+import { heatmap } from "../utils/debug";
+import {
+    boundingBox,
+    expandQuad,
+    isPointInConvexPolygon,
+    minAreaRect,
+    quadShortSide,
+    rectToQuad,
+    translateBox,
+    unclipQuad,
+} from "../utils/geometry";
+
+/**
+ * Boxes whose short side is below this size (in detection map pixels) are dropped by the DB post-process.
+ */
+const DB_MIN_SIZE = 3;
+
+/**
+ * Boxes from different tiles are merged when the smaller one lies inside the other by more than this share
+ */
+const TILE_CONTAINMENT_RATIO = 0.5;
+
+/**
+ * Boxes from different tiles are merged when they overlap vertically by more than this share
+ * of the lower box height, i.e. they are pieces of the same line
+ */
+const TILE_SAME_LINE_RATIO = 0.6;
 
 export interface ResizeParams {
     srcWidth: number;
@@ -18,6 +47,26 @@ export interface ResizeParams {
 export interface PreprocessDetectionResult {
     tensor: Float32Array;
     resizeParams: ResizeParams;
+    /** The image scaled to the model input size. */
+    image: Image;
+}
+
+/**
+ * Intermediate images of one detection pass, collected for debugging.
+ * Tiled detection yields one entry per tile.
+ */
+export interface DetectionArtifacts {
+    /** Offset of the tile in the detected image, 0 without tiling. */
+    x: number;
+    y: number;
+    /** Input of the model, scaled to a multiple of 32. */
+    resized: Image;
+    /** Raw probability map colored from blue (0) to red (1). */
+    heatmap: Image;
+    /** Pixels above `textPixelThreshold`. */
+    threshold: Image;
+    /** The dilated threshold mask, absent with the `"db"` post-process which does not dilate. */
+    dilated?: Image;
 }
 
 /**
@@ -36,13 +85,34 @@ export class DetectionService {
             ...DEFAULT_DETECTION_OPTIONS,
             ...options,
         };
+        validateModel(session, { model: "Detection", outputRank: 4 });
     }
 
     /**
      * Main method to run text detection on an image
      * @param image ArrayBuffer of the image or Canvas
+     * @param artifacts When given, the intermediate images of every pass are appended to it
+     * @param hooks Cancellation and progress over the detection passes, one per tile
      */
-    async run(image: Image): Promise<Box[]> {
+    async run(image: Image, artifacts?: DetectionArtifacts[], hooks: StageHooks = {}): Promise<Box[]> {
+        if (this.shouldTile(image)) {
+            return this.runTiled(image, artifacts, hooks);
+        }
+        throwIfAborted(hooks.signal);
+        hooks.onProgress?.(0, 1);
+        const boxes = await this.runSingle(image, artifacts);
+        hooks.onProgress?.(1, 1);
+        return boxes;
+    }
+
+    /**
+     * Run detection on the whole image at once, scaled to `maxSideLength`
+     */
+    private async runSingle(
+        image: Image,
+        artifacts?: DetectionArtifacts[],
+        origin: Point = { x: 0, y: 0 },
+    ): Promise<Box[]> {
         const input = await this.preprocessDetection(image);
 
         const detection = await this.runInference(input.tensor, input.resizeParams);
@@ -50,10 +120,122 @@ export class DetectionService {
             return [];
         }
 
-        const detectedBoxes = this.postprocessDetection(detection, input);
+        const masks: Partial<DetectionArtifacts> = {};
+        const detectedBoxes = this.postprocessDetection(detection, input, artifacts && masks);
+        artifacts?.push({
+            ...origin,
+            resized: input.image,
+            heatmap: heatmap(detection, input.image.width, input.image.height),
+            threshold: masks.threshold!,
+            dilated: masks.dilated,
+        });
         return detectedBoxes;
     }
 
+    /**
+     * Decide whether the image is split into tiles according to the `tiling` option
+     */
+    private shouldTile(image: Image): boolean {
+        const { tiling, tileSize } = this.options;
+        if (tiling === "always") return true;
+        if (tiling === "auto") return Math.max(image.width, image.height) > tileSize! * 2;
+        return false;
+    }
+
+    /**
+     * Run detection on overlapping tiles at near-native resolution, then translate
+     * the boxes back to page coordinates and merge duplicates from the overlaps
+     */
+    private async runTiled(
+        image: Image,
+        artifacts: DetectionArtifacts[] | undefined,
+        hooks: StageHooks,
+    ): Promise<Box[]> {
+        const tileSize = this.options.tileSize!;
+        const overlap = Math.min(this.options.tileOverlap!, tileSize - 1);
+        const xs = this.tileOffsets(image.width, tileSize, overlap);
+        const ys = this.tileOffsets(image.height, tileSize, overlap);
+
+        const tiledBoxes: { tile: number; box: Box }[] = [];
+        let tile = 0;
+        hooks.onProgress?.(0, xs.length * ys.length);
+        for (const y of ys) {
+            for (const x of xs) {
+                throwIfAborted(hooks.signal);
+                const width = Math.min(tileSize, image.width - x);
+                const height = Math.min(tileSize, image.height - y);
+                const boxes = await this.runSingle(image.crop({ x, y, width, height }), artifacts, { x, y });
+                for (const box of boxes) {
+                    tiledBoxes.push({ tile, box: translateBox(box, x, y) });
+                }
+                tile++;
+                hooks.onProgress?.(tile, xs.length * ys.length);
+            }
+        }
+        return this.mergeTiledBoxes(tiledBoxes);
+    }
+
+    /**
+     * Start offsets of tiles along one axis, the last tile being aligned to the far edge
+     */
+    private tileOffsets(length: number, tileSize: number, overlap: number): number[] {
+        if (length <= tileSize) {
+            return [0];
+        }
+        const step = tileSize - overlap;
+        const offsets: number[] = [];
+        for (let offset = 0; offset + tileSize < length; offset += step) {
+            offsets.push(offset);
+        }
+        offsets.push(length - tileSize);
+        return offsets;
+    }
+
+    /**
+     * Merge boxes of different tiles that describe the same text: boxes mostly contained
+     * in one another, and boxes of one line cut by a tile border
+     */
+    private mergeTiledBoxes(tiledBoxes: { tile: number; box: Box }[]): Box[] {
+        const parent = tiledBoxes.map((_, i) => i);
+        const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+        for (let i = 0; i < tiledBoxes.length; i++) {
+            for (let j = i + 1; j < tiledBoxes.length; j++) {
+                if (tiledBoxes[i].tile === tiledBoxes[j].tile) continue;
+                const a = tiledBoxes[i].box;
+                const b = tiledBoxes[j].box;
+                const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+                const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+                if (overlapX <= 0 || overlapY <= 0) continue;
+
+                const containment = (overlapX * overlapY) / Math.min(a.width * a.height, b.width * b.height);
+                const sameLine = overlapY / Math.min(a.height, b.height) > TILE_SAME_LINE_RATIO;
+                if (containment > TILE_CONTAINMENT_RATIO || sameLine) {
+                    parent[find(i)] = find(j);
+                }
+            }
+        }
+
+        const groups = new Map<number, Box[]>();
+        tiledBoxes.forEach(({ box }, i) => {
+            const root = find(i);
+            groups.set(root, [...(groups.get(root) ?? []), box]);
+        });
+        return [...groups.values()].map((boxes) => (boxes.length === 1 ? boxes[0] : this.unionBoxes(boxes)));
+    }
+
+    /**
+     * Smallest box covering all given boxes, keeping a rotated quad when the boxes have one
+     */
+    private unionBoxes(boxes: Box[]): Box {
+        const corners = boxes.flatMap((box) => box.points ?? rectToQuad(box));
+        if (this.options.boxType === "quad") {
+            const points = minAreaRect(corners);
+            return { ...boundingBox(points), points };
+        }
+        return boundingBox(corners);
+    }
+
     /**
      * Preprocess an image for text detection
      */
@@ -72,6 +254,7 @@ export class DetectionService {
         return {
             tensor,
             resizeParams,
+            image: resizedImage,
         };
     }
 
@@ -123,17 +306,30 @@ export class DetectionService {
 
     /**
      * Process detection results to extract bounding boxes
+     * @param masks When given, receives the threshold and dilated masks
      */
-    private postprocessDetection(detection: Float32Array, input: PreprocessDetectionResult): Box[] {
+    private postprocessDetection(
+        detection: Float32Array,
+        input: PreprocessDetectionResult,
+        masks?: Partial<DetectionArtifacts>,
+    ): Box[] {
         const { dstWidth, dstHeight } = input.resizeParams;
         const greyImage = new Image(dstWidth, dstHeight, 1, new Uint8Array(detection.map((v) => Math.round(v * 255))));
         const thresholdedImage = greyImage.threshold({
             threshold: 255 * this.options.textPixelThreshold!,
         });
+        if (masks) masks.threshold = thresholdedImage;
+        if (this.options.postprocessMode === "db") {
+            return this.postprocessDb(detection, thresholdedImage, input.resizeParams);
+        }
         const dilateImage = thresholdedImage.dilate({
             norm: "LInf",
             k: 1,
         });
+        if (masks) masks.dilated = dilateImage;
+        if (this.options.boxType === "quad") {
+            return this.postprocessQuads(dilateImage, input.resizeParams);
+        }
         const boxes = dilateImage.contours({
             minArea: this.options.minimumAreaThreshold!,
         });
@@ -145,6 +341,98 @@ export class DetectionService {
         return finalBoxes;
     }
 
+    /**
+     * Fit a minimum-area rotated rectangle to every region of the mask
+     */
+    private postprocessQuads(mask: Image, resizeParams: ResizeParams): Box[] {
+        const regions = mask.regions({
+            minArea: this.options.minimumAreaThreshold!,
+        });
+        return regions.map((region) => {
+            const quad = minAreaRect(region.points);
+            const paddedQuad = this.applyPaddingToQuad(quad);
+            return this.convertQuadToOriginalCoordinates(paddedQuad, resizeParams);
+        });
+    }
+
+    /**
+     * PaddleOCR's DB post-process: score each region on the probability map,
+     * drop low-confidence ones and unclip the rest
+     */
+    private postprocessDb(probabilityMap: Float32Array, mask: Image, resizeParams: ResizeParams): Box[] {
+        const regions = mask.regions({
+            minArea: this.options.minimumAreaThreshold!,
+        });
+        const boxes: Box[] = [];
+        for (const region of regions) {
+            // Region points are pixel corners, OpenCV contours run through pixel centers
+            const quad = expandQuad(minAreaRect(region.points), -0.5, -0.5);
+            if (quadShortSide(quad) < DB_MIN_SIZE) continue;
+
+            const score = this.boxScore(probabilityMap, mask.width, mask.height, quad);
+            if (score < this.options.boxScoreThreshold!) continue;
+
+            const unclipped = unclipQuad(quad, this.options.unclipRatio!);
+            if (quadShortSide(unclipped) < DB_MIN_SIZE + 2) continue;
+
+            const box = this.convertQuadToOriginalCoordinates(unclipped, resizeParams);
+            boxes.push(
+                this.options.boxType === "quad" ? box : { x: box.x, y: box.y, width: box.width, height: box.height },
+            );
+        }
+        return boxes;
+    }
+
+    /**
+     * Mean probability of the pixels whose centers fall inside the quad
+     */
+    private boxScore(probabilityMap: Float32Array, width: number, height: number, quad: Quad): number {
+        const bounds = boundingBox(quad, width, height);
+        let sum = 0;
+        let count = 0;
+        for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+            for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+                if (isPointInConvexPolygon({ x: x + 0.5, y: y + 0.5 }, quad)) {
+                    sum += probabilityMap[y * width + x];
+                    count++;
+                }
+            }
+        }
+        return count ? sum / count : 0;
+    }
+
+    /**
+     * Apply padding to a rotated rectangle along its own axes,
+     * using the same fractions of the text height as {@link applyPaddingToRect}
+     */
+    private applyPaddingToQuad(
+        quad: Quad,
+        paddingVertical: number = this.options.paddingBoxVertical || 0.6,
+        paddingHorizontal: number = this.options.paddingBoxHorizontal || 0.8,
+    ): Quad {
+        const [tl, tr, , bl] = quad;
+        const width = Math.hypot(tr.x - tl.x, tr.y - tl.y);
+        const height = Math.hypot(bl.x - tl.x, bl.y - tl.y);
+        const textHeight = Math.min(width, height);
+        return expandQuad(quad, Math.round(textHeight * paddingHorizontal), Math.round(textHeight * paddingVertical));
+    }
+
+    /**
+     * Convert quad corners from resized image back to original image,
+     * clamping them to the image bounds
+     */
+    private convertQuadToOriginalCoordinates(quad: Quad, resizeParams: ResizeParams): Box {
+        const { srcWidth, srcHeight, scaleWidth, scaleHeight } = resizeParams;
+        const points = quad.map((p) => ({
+            x: Math.min(srcWidth, Math.max(0, p.x / scaleWidth)),
+            y: Math.min(srcHeight, Math.max(0, p.y / scaleHeight)),
+        })) as Quad;
+        return {
+            ...boundingBox(points, srcWidth, srcHeight),
+            points,
+        };
+    }
+
     /**
      * Apply padding to a rectangle
      */
@@ -0,0 +1,152 @@
+import type * as ort from "onnxruntime-node";
+import type { Box, OrientationServiceOptions, PageAngle, PageOrientation } from "../interface";
+import { DEFAULT_ORIENTATION_OPTIONS } from "../constants";
+import { validateModel } from "../models/validate";
+import { Image } from "../utils/image";
+import type { RecognitionService } from "./recognition";
+
+/**
+ * Angles matching the output classes of the PP-LCNet document orientation model
+ */
+const PAGE_ANGLE_LABELS: PageAngle[] = [0, 90, 180, 270];
+
+/**
+ * Boxes closer to square than this aspect ratio carry no orientation information
+ */
+const MIN_LINE_ASPECT_RATIO = 1.5;
+
+/**
+ * Service for detecting whether a whole page is rotated by 0, 90, 180 or 270 degrees
+ */
+export class OrientationService {
+    private readonly options: OrientationServiceOptions;
+    private readonly session: ort.InferenceSession | null;
+    private readonly ortModule: typeof ort;
+
+    constructor(
+        ortModule: typeof ort,
+        session: ort.InferenceSession | null,
+        options: Partial<OrientationServiceOptions> = {},
+    ) {
+        this.session = session;
+        this.ortModule = ortModule;
+
+        this.options = {
+            ...DEFAULT_ORIENTATION_OPTIONS,
+            ...options,
+        };
+        if (session) {
+            const size = this.options.imageSize!;
+            validateModel(session, {
+                model: "Document orientation",
+                inputHeight: size,
+                inputWidth: size,
+                outputRank: 2,
+                classes: PAGE_ANGLE_LABELS.length,
+            });
+        }
+    }
+
+    /**
+     * Whether a document orientation model is loaded
+     */
+    hasModel(): boolean {
+        return this.session !== null;
+    }
+
+    /**
+     * Classify the page orientation with the document orientation model
+     */
+    async run(image: Image): Promise<PageOrientation> {
+        if (!this.session) {
+            throw new Error("Orientation model is not loaded. Use estimate() for the heuristic instead.");
+        }
+        const size = this.options.imageSize!;
+        const tensor = this.preprocess(image, size);
+        const inputTensor = new this.ortModule.Tensor("float32", tensor, [1, 3, size, size]);
+
+        const results = await this.session.run({ x: inputTensor });
+        const outputTensor = results[this.session.outputNames[0]];
+        if (!outputTensor) {
+            throw new Error(`Orientation output tensor not found. Available keys: ${Object.keys(results)}`);
+        }
+
+        const scores = outputTensor.data as Float32Array;
+        let bestIndex = 0;
+        for (let i = 1; i < PAGE_ANGLE_LABELS.length; i++) {
+            if (scores[i] > scores[bestIndex]) bestIndex = i;
+        }
+        return { angle: PAGE_ANGLE_LABELS[bestIndex], confidence: scores[bestIndex] };
+    }
+
+    /**
+     * Estimate the page orientation without a model.
+     *
+     * The dominant direction of elongated boxes tells upright/upside-down pages apart from
+     * sideways ones. The two remaining candidates are then compared by the recognition
+     * confidence of the largest boxes, rotated as each candidate would require.
+     * @param image The page image
+     * @param detection Boxes detected on the page as given
+     * @param recognition Recognition service used to score candidate angles
+     */
+    async estimate(image: Image, detection: Box[], recognition: RecognitionService): Promise<PageOrientation> {
+        let horizontalArea = 0;
+        let verticalArea = 0;
+        for (const box of detection) {
+            const area = box.width * box.height;
+            if (box.width >= box.height * MIN_LINE_ASPECT_RATIO) horizontalArea += area;
+            else if (box.height >= box.width * MIN_LINE_ASPECT_RATIO) verticalArea += area;
+        }
+        if (horizontalArea + verticalArea === 0) {
+            return { angle: 0, confidence: 0 };
+        }
+
+        const sideways = verticalArea > horizontalArea;
+        const axisConfidence = Math.max(horizontalArea, verticalArea) / (horizontalArea + verticalArea);
+        const candidates: PageAngle[] = sideways ? [90, 270] : [0, 180];
+        const samples = detection
+            .filter((box) => (sideways ? box.height > box.width : box.width > box.height))
+            .sort((a, b) => b.width * b.height - a.width * a.height)
+            .slice(0, this.options.sampleSize!);
+
+        const scores: number[] = [];
+        for (const angle of candidates) {
+            let total = 0;
+            for (const box of samples) {
+                const crop = image.cropBox(box).rotate({ angle: ((360 - angle) % 360) as PageAngle });
+                const { confidence } = await recognition.recognizeCrop(crop);
+                total += Number.isFinite(confidence) ? confidence : 0;
+            }
+            scores.push(samples.length ? total / samples.length : 0);
+        }
+
+        const best = scores[1] > scores[0] ? 1 : 0;
+        const sum = scores[0] + scores[1];
+        return {
+            angle: candidates[best],
+            confidence: axisConfidence * (sum > 0 ? scores[best] / sum : 0.5),
+        };
+    }
+
+    /**
+     * Resize the short side, center crop a square and normalize it
+     */
+    private preprocess(image: Image, size: number): Float32Array {
+        const shortSide = this.options.resizeShortSide!;
+        const scale = shortSide / Math.min(image.width, image.height);
+        const resized = image.resize({
+            width: Math.max(size, Math.round(image.width * scale)),
+            height: Math.max(size, Math.round(image.height * scale)),
+        });
+        const cropped = resized.crop({
+            x: Math.floor((resized.width - size) / 2),
+            y: Math.floor((resized.height - size) / 2),
+            width: size,
+            height: size,
+        });
+        return cropped.tensor({
+            mean_values: this.options.mean!,
+            norm_values: this.options.stdDeviation!,
+        });
+    }
+}
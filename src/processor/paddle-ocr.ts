@@ -1,10 +1,41 @@
 import type * as ort from "onnxruntime-node";
 import { Image } from "../utils/image";
-import { DEFAULT_DETECTION_OPTIONS, DEFAULT_PADDLE_OPTIONS } from "../constants";
+import { DEFAULT_DETECTION_OPTIONS, DEFAULT_PADDLE_OPTIONS, DEFAULT_RECOGNITION_OPTIONS } from "../constants";
 
-import type { ImageInput, PaddleOptions, RecognitionOptions } from "../interface";
-import { DetectionService } from "./detection";
-import { RecognitionService, type RecognitionResult } from "./recognition";
+import { decodeImage } from "../decoders/decode";
+import { throwIfAborted } from "../errors";
+import { analyzeLayout, type LayoutOptions, type PageLayout } from "../layout/layout";
+import { extractTable, type Table, type TableOptions } from "../layout/table";
+import { locateFields, type ExtractedField, type FormTemplate, type TemplateOptions } from "../layout/template";
+import type {
+    Box,
+    ImageInput,
+    OcrStage,
+    PageAngle,
+    PageOrientation,
+    PaddleOptions,
+    PreprocessTransform,
+    Quad,
+    RecognitionOptions,
+    RecognitionRegion,
+    SequenceOptions,
+    StageHooks,
+} from "../interface";
+import { annotate } from "../utils/debug";
+import { clampBox, regionBox, rotateBox, transformBox, translateBox } from "../utils/geometry";
+import { preprocessImage, restoreBox, restoreResult } from "../utils/preprocess";
+import { ClassificationService } from "./classification";
+import { DetectionService, type DetectionArtifacts } from "./detection";
+import { OrientationService } from "./orientation";
+import {
+    RecognitionService,
+    sortResultsByReadingOrder,
+    type RecognitionResult,
+    type RecognitionResultCallback,
+} from "./recognition";
+import { AUTO_LANGUAGE, DEFAULT_LANGUAGE, RecognitionRouter, type LanguageModel } from "./router";
+import { ScriptClassificationService } from "./script";
+import { FrameSequence, type TextTrackEvent } from "./sequence";
 
 export interface PaddleOcrResult {
     text: string;
@@ -18,6 +49,23 @@ export interface FlattenedPaddleOcrResult {
     confidence: number;
 }
 
+/**
+ * Intermediate images of a recognition run, see {@link PaddleOcrService.recognizeDebug}
+ */
+export interface DebugArtifacts {
+    /** The image detection ran on: preprocessed, padded and turned upright. */
+    image: Image;
+    /** Images of every detection pass, one per tile when tiling. */
+    detection: DetectionArtifacts[];
+    /** The input image with the result boxes, their indices and recognized texts. */
+    annotated: Image;
+}
+
+export interface PaddleOcrDebugResult {
+    results: RecognitionResult[];
+    artifacts: DebugArtifacts;
+}
+
 /**
  * PaddleOcrService - Provides OCR functionality using PaddleOCR models
  *
@@ -33,6 +81,22 @@ export class PaddleOcrService {
     recognitionSession: ort.InferenceSession | null = null;
     recognitionService: RecognitionService | null = null;
 
+    classificationSession: ort.InferenceSession | null = null;
+    classificationService: ClassificationService | null = null;
+
+    orientationSession: ort.InferenceSession | null = null;
+    orientationService: OrientationService | null = null;
+
+    /** Sessions and services of the recognition models registered under `options.languages`. */
+    languageSessions: Record<string, ort.InferenceSession> = {};
+    languageServices: Record<string, RecognitionService> = {};
+
+    scriptClassificationSession: ort.InferenceSession | null = null;
+    scriptClassificationService: ScriptClassificationService | null = null;
+
+    /** Dispatches text lines to the recognition model of their language. */
+    recognitionRouter: RecognitionRouter | null = null;
+
     /**
      * Create a new PaddleOcrService instance
      * @param options Optional configuration options
@@ -50,35 +114,101 @@ export class PaddleOcrService {
     }
 
     /**
-     * Initialize the OCR service by loading models
+     * Initialize the OCR service by loading models.
+     * Either model may be left out: without the recognition model only {@link detect} works,
+     * without the detection model only {@link recognizeRegions}.
      */
     public async initialize(): Promise<void> {
         const ort = this.options.ort!;
 
+        const languages = Object.entries(this.options.languages ?? {});
+        if (!this.options.detection?.modelBuffer && !this.options.recognition?.modelBuffer && !languages.length) {
+            throw new Error("Detection or recognition model buffer is required. Please provide a valid ONNX model.");
+        }
+
         // Init detection service
-        if (!this.options.detection?.modelBuffer) {
-            throw new Error("Detection model buffer is required. Please provide a valid ONNX model.");
-        }
-        this.detectionSession = await ort.InferenceSession.create(this.options.detection?.modelBuffer!);
-        this.detectionService = new DetectionService(
-            this.options.ort as any,
-            this.detectionSession,
-            this.options.detection,
-        );
+        if (this.options.detection?.modelBuffer) {
+            this.detectionSession = await ort.InferenceSession.create(this.options.detection.modelBuffer);
+            this.detectionService = new DetectionService(
+                this.options.ort as any,
+                this.detectionSession,
+                this.options.detection,
+            );
+        }
 
         // Init recognition service
-        if (!this.options.recognition?.modelBuffer) {
-            throw new Error("Recognition model buffer is required. Please provide a valid ONNX model.");
-        }
-        this.recognitionSession = await ort.InferenceSession.create(this.options.recognition?.modelBuffer!);
-        this.recognitionService = new RecognitionService(
-            this.options.ort as any,
-            this.recognitionSession,
-            this.options.recognition,
-        );
+        if (this.options.recognition?.modelBuffer) {
+            if (!this.options.recognition.charactersDictionary) {
+                throw new Error(`options.recognition.characterDictionary is empty or not found.`);
+            }
+            this.recognitionSession = await ort.InferenceSession.create(this.options.recognition.modelBuffer);
+            this.recognitionService = new RecognitionService(
+                this.options.ort as any,
+                this.recognitionSession,
+                this.options.recognition,
+            );
+        }
+
+        // Init recognition services of other languages, sharing the detection model
+        const models = new Map<string, LanguageModel>();
+        if (this.recognitionService) {
+            models.set(DEFAULT_LANGUAGE, { service: this.recognitionService, scripts: [] });
+        }
+        for (const [language, { scripts = [], ...options }] of languages) {
+            if (language === DEFAULT_LANGUAGE || language === AUTO_LANGUAGE) {
+                throw new Error(`"${language}" is reserved and cannot be used as a key of options.languages.`);
+            }
+            if (!options.modelBuffer || !options.charactersDictionary) {
+                throw new Error(`options.languages.${language} needs a modelBuffer and a charactersDictionary.`);
+            }
+            this.languageSessions[language] = await ort.InferenceSession.create(options.modelBuffer);
+            this.languageServices[language] = new RecognitionService(
+                this.options.ort as any,
+                this.languageSessions[language],
+                options,
+            );
+            models.set(language, { service: this.languageServices[language], scripts });
+        }
+
+        // Init optional script identification service for the "auto" language
+        if (this.options.scriptClassification?.modelBuffer) {
+            this.scriptClassificationSession = await ort.InferenceSession.create(
+                this.options.scriptClassification.modelBuffer,
+            );
+            this.scriptClassificationService = new ScriptClassificationService(
+                this.options.ort as any,
+                this.scriptClassificationSession,
+                this.options.scriptClassification,
+            );
+        }
+        if (models.size) {
+            this.recognitionRouter = new RecognitionRouter(
+                models,
+                this.scriptClassificationService,
+                this.options.recognition?.verticalRatio ?? DEFAULT_RECOGNITION_OPTIONS.verticalRatio,
+            );
+        }
+
+        // Init optional text-line orientation classification service
+        if (this.options.classification?.modelBuffer) {
+            this.classificationSession = await ort.InferenceSession.create(this.options.classification.modelBuffer);
+            this.classificationService = new ClassificationService(
+                this.options.ort as any,
+                this.classificationSession,
+                this.options.classification,
+            );
+        }
 
-        if (!this.options.recognition?.charactersDictionary) {
-            throw new Error(`options.recognition.characterDictionary is empty or not found.`);
+        // Init optional page orientation service, falling back to a heuristic without a model
+        if (this.options.orientation) {
+            if (this.options.orientation.modelBuffer) {
+                this.orientationSession = await ort.InferenceSession.create(this.options.orientation.modelBuffer);
+            }
+            this.orientationService = new OrientationService(
+                this.options.ort as any,
+                this.orientationSession,
+                this.options.orientation,
+            );
         }
     }
 
@@ -86,7 +216,22 @@ export class PaddleOcrService {
      * Check if the service is initialized with models loaded
      */
     public isInitialized(): boolean {
-        return this.detectionSession !== null && this.recognitionSession !== null;
+        return this.detectionSession !== null || this.recognitionRouter !== null;
+    }
+
+    /**
+     * Throws when the service is not initialized or lacks a model the called method needs
+     */
+    private assertModels(detection: boolean, recognition: boolean): void {
+        if (!this.isInitialized()) {
+            throw new Error("PaddleOcrService is not initialized. Please call initialize() first.");
+        }
+        if (detection && !this.detectionService) {
+            throw new Error("No detection model loaded. Please set options.detection.modelBuffer.");
+        }
+        if (recognition && !this.recognitionRouter) {
+            throw new Error("No recognition model loaded. Please set options.recognition.modelBuffer.");
+        }
     }
 
     /**
@@ -110,16 +255,83 @@ export class PaddleOcrService {
      * @return A promise that resolves to the OCR result, either grouped by lines or as a flat list.
      */
     public async recognize(input: ImageInput, options?: RecognitionOptions): Promise<RecognitionResult[]> {
-        if (!this.detectionService || !this.recognitionService) {
-            throw new Error("PaddleOcrService is not initialized. Please call initialize() first.");
-        }
-        const channels = input.data.length / (input.width * input.height);
-        if (!Number.isInteger(channels) || channels < 1 || channels > 4) {
-            throw new Error(
-                `Invalid input data: ${input.data} for image size ${input.width}x${input.height}. Expected 1, 3, or 4 channels.`,
-            );
+        const { results } = await this.runRecognition(input, options);
+        return results;
+    }
+
+    /**
+     * Runs {@link recognize}, yielding every line as soon as it is recognized instead of waiting
+     * for the whole page. Lines come in completion order; {@link recognize} sorts them in reading
+     * order. Leaving the loop early cancels the rest of the run.
+     */
+    public async *recognizeStream(input: ImageInput, options?: RecognitionOptions): AsyncGenerator<RecognitionResult> {
+        // Stopping the iteration aborts the run, as does the caller's signal
+        const controller = new AbortController();
+        const abort = () => controller.abort(options?.signal?.reason);
+        if (options?.signal?.aborted) abort();
+        options?.signal?.addEventListener("abort", abort);
+
+        const queue: RecognitionResult[] = [];
+        let wake: (() => void) | null = null;
+        let done = false;
+        let failed = false;
+        let failure: unknown;
+        this.runRecognition(input, { ...options, signal: controller.signal }, undefined, (result) => {
+            queue.push(result);
+            wake?.();
+        })
+            .catch((error) => {
+                failed = true;
+                failure = error;
+            })
+            .finally(() => {
+                done = true;
+                wake?.();
+            });
+
+        try {
+            while (queue.length || !done) {
+                if (queue.length) {
+                    yield queue.shift()!;
+                } else {
+                    await new Promise<void>((resolve) => (wake = resolve));
+                    wake = null;
+                }
+            }
+            if (failed) {
+                throw failure;
+            }
+        } finally {
+            options?.signal?.removeEventListener("abort", abort);
+            controller.abort();
         }
-        let image = new Image(input.width, input.height, channels, input.data);
+    }
+
+    /**
+     * Runs {@link recognize} while keeping its intermediate images: the detection input,
+     * the probability heatmap, the threshold and dilated masks of every detection pass,
+     * and the input annotated with the results. Encode any of them with `Image.toPng()`.
+     */
+    public async recognizeDebug(input: ImageInput, options?: RecognitionOptions): Promise<PaddleOcrDebugResult> {
+        const detection: DetectionArtifacts[] = [];
+        const { results, image } = await this.runRecognition(input, options, detection);
+        const annotated = annotate(this.createImage(input), results);
+        return { results, artifacts: { image, detection, annotated } };
+    }
+
+    /**
+     * @param onResult Called with every line in the input's coordinates as soon as it is recognized
+     */
+    private async runRecognition(
+        input: ImageInput,
+        options?: RecognitionOptions,
+        artifacts?: DetectionArtifacts[],
+        onResult?: (result: RecognitionResult) => void,
+    ): Promise<{ results: RecognitionResult[]; image: Image }> {
+        this.assertModels(true, true);
+        throwIfAborted(options?.signal);
+        const preprocessed = preprocessImage(this.createImage(input), this.options.preprocess ?? []);
+        let image = preprocessed.image;
 
         const padding = this.options.detection?.padding ?? DEFAULT_DETECTION_OPTIONS.padding;
         if (padding) {
@@ -128,10 +340,292 @@ export class PaddleOcrService {
                 color: [255, 255, 255, 255],
             });
         }
-        const detection = await this.detectionService.run(image);
-        const recognition = await this.recognitionService.run(image, detection, options);
 
-        return recognition;
+        const orientation = this.orientationService ? await this.detectPageOrientation(image) : null;
+        const correction = orientation ? (((360 - orientation.angle) % 360) as PageAngle) : 0;
+        const uprightImage = correction ? image.rotate({ angle: correction }) : image;
+
+        const detection = (
+            await this.detectionService!.run(uprightImage, artifacts, this.stageHooks("detection", options))
+        ).filter((box) => box.width > 0 && box.height > 0);
+        const verticalRatio = this.options.recognition?.verticalRatio ?? DEFAULT_RECOGNITION_OPTIONS.verticalRatio;
+        const orientations = await this.classificationService?.run(
+            uprightImage,
+            detection,
+            verticalRatio,
+            this.stageHooks("classification", options),
+        );
+
+        // Map boxes from the upright, padded and preprocessed page back into the input's coordinates
+        const { width, height } = uprightImage;
+        const restore = (result: RecognitionResult) =>
+            restoreResult(
+                orientation ? this.restorePageOrientation(result, orientation.angle, width, height) : result,
+                preprocessed.transforms,
+                padding ?? 0,
+                input.width,
+                input.height,
+            );
+        const recognition = await this.recognitionRouter!.run(
+            uprightImage,
+            detection.map((box) => ({ box })),
+            options,
+            orientations,
+            this.recognitionProgress(detection.length, options, onResult && ((result) => onResult(restore(result)))),
+        );
+        return {
+            results: sortResultsByReadingOrder(recognition).map(restore),
+            image: uprightImage,
+        };
+    }
+
+    /**
+     * Hooks reporting the progress of one stage of a run to `options.onProgress`
+     */
+    private stageHooks(stage: OcrStage, options?: RecognitionOptions): StageHooks {
+        const { signal, onProgress } = options ?? {};
+        return { signal, onProgress: onProgress && ((completed, total) => onProgress({ stage, completed, total })) };
+    }
+
+    /**
+     * Result callback counting recognized lines for `options.onProgress`
+     */
+    private recognitionProgress(
+        total: number,
+        options?: RecognitionOptions,
+        onResult?: (result: RecognitionResult) => void,
+    ): RecognitionResultCallback {
+        const { onProgress } = this.stageHooks("recognition", options);
+        let completed = 0;
+        onProgress?.(0, total);
+        return (_, result) => {
+            onProgress?.(++completed, total);
+            onResult?.(result);
+        };
+    }
+
+    /**
+     * Detects text regions without recognizing them. Only the detection model is needed,
+     * so detection-only deployments can leave out the recognition model and dictionary.
+     * Preprocessing and padding are applied as in {@link recognize}; page orientation is not.
+     *
+     * @param options Cancellation and progress of the detection stage.
+     * @return Boxes in the input's coordinates, in detection order.
+     */
+    public async detect(
+        input: ImageInput,
+        options?: Pick<RecognitionOptions, "signal" | "onProgress">,
+    ): Promise<Box[]> {
+        this.assertModels(true, false);
+        throwIfAborted(options?.signal);
+        const { image, transforms } = preprocessImage(this.createImage(input), this.options.preprocess ?? []);
+        const padding = this.options.detection?.padding ?? DEFAULT_DETECTION_OPTIONS.padding ?? 0;
+        const boxes = await this.detectionService!.run(
+            padding ? image.padding({ padding, color: [255, 255, 255, 255] }) : image,
+            undefined,
+            this.stageHooks("detection", options),
+        );
+        return boxes.map((box) =>
+            clampBox(restoreBox(translateBox(box, -padding, -padding), transforms), input.width, input.height),
+        );
+    }
+
+    /**
+     * Recognizes text in caller-supplied regions, skipping detection: form templates,
+     * UI elements or boxes from another detector. Only the recognition model is needed.
+     *
+     * @param regions Boxes, quads, or regions carrying their own `charWhiteList`, `pattern` and `label`.
+     * @param options Whitelist and pattern of the regions that do not set their own.
+     * @return One result per region, in the order of `regions`, in the input's coordinates.
+     */
+    public async recognizeRegions(
+        input: ImageInput,
+        regions: (Box | Quad | RecognitionRegion)[],
+        options?: RecognitionOptions,
+    ): Promise<RecognitionResult[]> {
+        this.assertModels(false, true);
+        throwIfAborted(options?.signal);
+        const { image, transforms } = preprocessImage(this.createImage(input), this.options.preprocess ?? []);
+        const prepared = regions.map((region): RecognitionRegion & { box: Box } => {
+            const entry = "box" in region ? region : { box: region };
+            // Regions are given on the input, map them onto the preprocessed image
+            const box = transforms.reduce(
+                (mapped, transform) => transformBox(mapped, transform.matrix),
+                regionBox(entry.box, input.width, input.height),
+            );
+            return { ...entry, box };
+        });
+
+        const verticalRatio = this.options.recognition?.verticalRatio ?? DEFAULT_RECOGNITION_OPTIONS.verticalRatio;
+        const orientations = await this.classificationService?.run(
+            image,
+            prepared.map((region) => region.box),
+            verticalRatio,
+            this.stageHooks("classification", options),
+        );
+        const results = await this.recognitionRouter!.run(
+            image,
+            prepared,
+            options,
+            orientations,
+            this.recognitionProgress(prepared.length, options),
+        );
+        return results.map((result) => restoreResult(result, transforms, 0, input.width, input.height));
+    }
+
+    /**
+     * Reads the fields of a form. The page is recognized first to find the anchor texts of the
+     * template, which place the field regions through an affine alignment; only those regions
+     * are then read, each with its own whitelist and pattern.
+     *
+     * @param options Options of both passes and the anchor matching tolerance. `charWhiteList` and
+     * `pattern` only apply to the fields that do not set their own, anchors being read without them.
+     * @return Every field of the template keyed by name, with `anchorsMissing` set when
+     * an anchor it relies on was not found on the page.
+     */
+    public async extractFields(
+        input: ImageInput,
+        template: FormTemplate,
+        options?: RecognitionOptions & TemplateOptions,
+    ): Promise<Record<string, ExtractedField>> {
+        const { charWhiteList, pattern, ...pageOptions } = options ?? {};
+        const page = await this.recognize(input, pageOptions);
+        const fields = locateFields(template, page, input.width, input.height, options);
+        const results = await this.recognizeRegions(input, fields, options);
+
+        const extracted: Record<string, ExtractedField> = {};
+        results.forEach((result, i) => {
+            const field: ExtractedField = {
+                text: result.text,
+                confidence: result.confidence,
+                box: result.box,
+                anchorsMissing: fields[i].anchorsMissing,
+            };
+            if (result.patternMatched !== undefined) field.patternMatched = result.patternMatched;
+            extracted[fields[i].label] = field;
+        });
+        return extracted;
+    }
+
+    /**
+     * Starts a sequence recognizing the frames of a video one at a time, which skips unchanged
+     * frames and reports every text once when it appears and once when it disappears.
+     * Call `push` with every frame in order, then `end` for the texts still on screen.
+     */
+    public createSequence(options?: SequenceOptions): FrameSequence {
+        this.assertModels(true, true);
+        return new FrameSequence(this, options);
+    }
+
+    /**
+     * Runs a {@link createSequence} over the given frames, yielding the events of every frame
+     * as they come and the disappearance of the texts still on screen after the last one.
+     */
+    public async *recognizeFrames(
+        frames: Iterable<ImageInput> | AsyncIterable<ImageInput>,
+        options?: RecognitionOptions & SequenceOptions,
+    ): AsyncGenerator<TextTrackEvent> {
+        const sequence = this.createSequence(options);
+        for await (const frame of frames) {
+            yield* await sequence.push(frame, options);
+        }
+        yield* await sequence.end();
+    }
+
+    /**
+     * Runs the configured preprocessing steps (or the given ones) without recognizing text,
+     * returning the processed pixels and the geometric transforms that were applied.
+     */
+    public preprocess(
+        input: ImageInput,
+        steps = this.options.preprocess ?? [],
+    ): { image: ImageInput; transforms: PreprocessTransform[] } {
+        const { image, transforms } = preprocessImage(this.createImage(input), steps);
+        return { image: { width: image.width, height: image.height, data: image.data }, transforms };
+    }
+
+    /**
+     * Maps the boxes of a result found on the upright page back into the page as given,
+     * rotated by `angle` degrees clockwise
+     */
+    private restorePageOrientation(
+        result: RecognitionResult,
+        angle: PageAngle,
+        width: number,
+        height: number,
+    ): RecognitionResult {
+        return {
+            ...result,
+            box: rotateBox(result.box, angle, width, height),
+            characters: result.characters?.map((character) => ({
+                ...character,
+                box: rotateBox(character.box, angle, width, height),
+            })),
+            pageAngle: angle,
+        };
+    }
+
+    /**
+     * Decodes an encoded PNG, JPEG, BMP or PNM file and runs {@link recognize} on its pixels.
+     * JPEG images are rotated upright according to their EXIF orientation first.
+     *
+     * @throws {ImageDecodeError} When the bytes are not a supported or valid image.
+     */
+    public async recognizeFile(
+        bytes: Uint8Array | ArrayBuffer,
+        options?: RecognitionOptions,
+    ): Promise<RecognitionResult[]> {
+        return this.recognize(decodeImage(bytes), options);
+    }
+
+    /**
+     * Detects whether the page content is rotated by 0, 90, 180 or 270 degrees clockwise.
+     * Uses the document orientation model when one is configured, otherwise a heuristic
+     * based on detected box shapes and recognition confidence.
+     */
+    public async detectOrientation(input: ImageInput): Promise<PageOrientation> {
+        this.assertModels(true, true);
+        return this.detectPageOrientation(this.createImage(input));
+    }
+
+    private async detectPageOrientation(image: Image): Promise<PageOrientation> {
+        const orientationService =
+            this.orientationService ?? new OrientationService(this.options.ort as any, null, this.options.orientation);
+        if (orientationService.hasModel()) {
+            return orientationService.run(image);
+        }
+        const detection = await this.detectionService!.run(image);
+        const recognitionService = this.recognitionService ?? Object.values(this.languageServices)[0];
+        return orientationService.estimate(image, detection, recognitionService);
+    }
+
+    /**
+     * Wraps raw input pixels into an {@link Image}, validating the channel count
+     */
+    private createImage(input: ImageInput): Image {
+        const channels = input.data.length / (input.width * input.height);
+        if (!Number.isInteger(channels) || channels < 1 || channels > 4) {
+            throw new Error(
+                `Invalid input data: ${input.data} for image size ${input.width}x${input.height}. Expected 1, 3, or 4 channels.`,
+            );
+        }
+        return new Image(input.width, input.height, channels, input.data);
+    }
+
+    /**
+     * Groups raw recognition results into a page → blocks → lines → words hierarchy
+     * with a multi-column reading order. The page text is generated from that hierarchy.
+     */
+    processLayout(recognition: RecognitionResult[], options?: LayoutOptions): PageLayout {
+        return analyzeLayout(recognition, options);
+    }
+
+    /**
+     * Reconstructs a table from raw recognition results using box alignment only.
+     * Pass `options.region` to restrict it to the results inside a table area.
+     */
+    processTable(recognition: RecognitionResult[], options?: TableOptions): Table {
+        return extractTable(recognition, options);
     }
 
     /**
@@ -153,29 +647,36 @@ export class PaddleOcrService {
         const totalConfidence = recognition.reduce((sum, r) => sum + r.confidence, 0);
         result.confidence = totalConfidence / recognition.length;
 
+        // Vertical lines sharing a column are grouped by their right edge and width,
+        // horizontal lines sharing a row by their top edge and height
+        const isVertical = (r: RecognitionResult) => r.direction === "vertical";
+        const position = (r: RecognitionResult, vertical: boolean) => (vertical ? r.box.x + r.box.width : r.box.y);
+        const thickness = (r: RecognitionResult, vertical: boolean) => (vertical ? r.box.width : r.box.height);
+
         let currentLine: RecognitionResult[] = [recognition[0]];
         let fullText = recognition[0].text;
-        let avgHeight = recognition[0].box.height;
+        let avgHeight = thickness(recognition[0], isVertical(recognition[0]));
 
         for (let i = 1; i < recognition.length; i++) {
             const current = recognition[i];
             const previous = recognition[i - 1];
+            const vertical = isVertical(current) && isVertical(previous);
 
-            const verticalGap = Math.abs(current.box.y - previous.box.y);
+            const verticalGap = Math.abs(position(current, vertical) - position(previous, vertical));
             const threshold = avgHeight * 0.5;
 
             if (verticalGap <= threshold) {
                 currentLine.push(current);
                 fullText += ` ${current.text}`;
 
-                avgHeight = currentLine.reduce((sum, r) => sum + r.box.height, 0) / currentLine.length;
+                avgHeight = currentLine.reduce((sum, r) => sum + thickness(r, vertical), 0) / currentLine.length;
             } else {
                 result.lines.push([...currentLine]);
 
                 fullText += `\n${current.text}`;
 
                 currentLine = [current];
-                avgHeight = current.box.height;
+                avgHeight = thickness(current, isVertical(current));
             }
         }
 
@@ -188,12 +689,18 @@ export class PaddleOcrService {
     }
 
     /**
-     * Releases the onnx runtime session for both
-     * detection and recognition model.
+     * Releases the onnx runtime sessions of the detection, recognition
+     * and (if loaded) language, script, classification and orientation models.
      */
     public async destroy(): Promise<void> {
         await this.detectionSession?.release();
         await this.recognitionSession?.release();
+        for (const session of Object.values(this.languageSessions)) {
+            await session.release();
+        }
+        await this.scriptClassificationSession?.release();
+        await this.classificationSession?.release();
+        await this.orientationSession?.release();
     }
 }
 
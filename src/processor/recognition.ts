@@ -1,19 +1,122 @@
 import type * as ort from "onnxruntime-node";
-import type { Box, RecognitionOptions, RecognitionServiceOptions } from "../interface";
+import type {
+    Box,
+    PageAngle,
+    Quad,
+    RecognitionOptions,
+    RecognitionRegion,
+    RecognitionServiceOptions,
+    TextDirection,
+    TextOrientation,
+} from "../interface";
 import { DEFAULT_RECOGNITION_OPTIONS } from "../constants";
+import { throwIfAborted } from "../errors";
+import { outputClasses, validateDictionary, validateModel } from "../models/validate";
+import { ctcPatternSearch, ctcPrefixBeamSearch } from "../utils/ctc";
+import { boundingBox, quadPointAt, rectToQuad, regionBox, textLineDirection } from "../utils/geometry";
+import { PatternAutomaton } from "../utils/pattern";
+import { CharacterTrie } from "../utils/trie";
 import { Image } from "../utils/image";
 
+/**
+ * A single recognized character with its estimated position
+ */
+export interface RecognizedCharacter {
+    char: string;
+    confidence: number;
+    /**
+     * Region of the character, estimated from the CTC timesteps that emitted it.
+     * Carries `points` when the line box does.
+     */
+    box: Box;
+}
+
 export interface RecognitionResult {
     text: string;
     box: Box;
     confidence: number;
+    /** Text-line angle predicted by the classification stage, when it is enabled. */
+    angle?: TextOrientation["angle"];
+    /** Confidence of the predicted angle. */
+    angleConfidence?: number;
+    /** Clockwise rotation of the whole page, when page orientation detection is enabled. */
+    pageAngle?: PageAngle;
+    /** Skew of the page in degrees clockwise, when it was corrected by the `deskew` preprocessing step. */
+    skewAngle?: number;
+    /** Reading direction of the line. Vertical lines are read top to bottom. */
+    direction?: TextDirection;
+    /** Per-character confidences and boxes, in text order. */
+    characters?: RecognizedCharacter[];
+    /** Best candidate texts with their log-probability scores, when the beam search decoder is used. */
+    alternatives?: RecognitionAlternative[];
+    /**
+     * Whether the text matches the `pattern` recognition option, when one is given.
+     * When `false`, no decoding path satisfied the pattern and the unconstrained text is returned.
+     */
+    patternMatched?: boolean;
+    /** Label of the caller-supplied region the text was read from. */
+    label?: string;
+    /** Key of the recognition model that read the line, when a `language` was asked for. */
+    language?: string;
+}
+
+/**
+ * A candidate text from the beam search decoder
+ */
+export interface RecognitionAlternative {
+    text: string;
+    /** Natural log of the path probability, including any lexicon bonus. */
+    score: number;
+}
+
+/**
+ * A character emitted by the CTC decoder
+ */
+export interface DecodedCharacter {
+    char: string;
+    confidence: number;
+    /** Index of the model output timestep that emitted the character. */
+    timestep: number;
+}
+
+/**
+ * Text decoded from the model output for a single crop
+ */
+export interface DecodedText {
+    text: string;
+    confidence: number;
+    characters: DecodedCharacter[];
+    /** Share of the crop width covered by one output timestep. */
+    timestepWidth: number;
+    alternatives?: RecognitionAlternative[];
+    patternMatched?: boolean;
 }
 
+/**
+ * Restrictions applied while decoding a crop
+ */
+export interface DecodeConstraints {
+    /** Characters the decoder is restricted to. */
+    charWhiteSet?: Set<string>;
+    /** Pattern the whole text has to match. */
+    pattern?: PatternAutomaton;
+}
+
+/**
+ * Receives every result of a run as soon as its batch is decoded, with the index of its region
+ */
+export type RecognitionResultCallback = (index: number, result: RecognitionResult) => void;
+
 export interface SingleRecognitionTask {
     index: number;
     image: Image;
     box: Box;
     charWhiteSet?: Set<string>;
+    /** Decoding restrictions of the task, including `charWhiteSet`. */
+    constraints: DecodeConstraints;
+    orientation?: TextOrientation;
+    direction: TextDirection;
+    label?: string;
 }
 
 /**
@@ -23,6 +126,7 @@ export class RecognitionService {
     private readonly options: RecognitionServiceOptions;
     private readonly session: ort.InferenceSession;
     private readonly ortModule: typeof ort;
+    private readonly lexicon?: CharacterTrie;
 
     constructor(
         ortModule: typeof ort,
@@ -36,76 +140,324 @@ export class RecognitionService {
             ...DEFAULT_RECOGNITION_OPTIONS,
             ...options,
         };
+        if (this.options.lexicon?.length) {
+            this.lexicon = new CharacterTrie(this.options.lexicon);
+        }
+
+        validateModel(session, { model: "Recognition", inputHeight: this.options.imageHeight, outputRank: 3 });
+        const classes = outputClasses(session);
+        if (classes !== null) {
+            validateDictionary(classes, this.options.charactersDictionary!);
+        }
     }
 
     /**
      * Main method to run text recognition on an image with detected regions
      * @param image The original image buffer or image in Canvas
      * @param detection Array of bounding boxes from text detection
+     * @param orientations Optional text-line angles from the classification stage, aligned with `detection`
      * @returns Array of recognition results with text and bounding box, sorted in reading order
      */
-    async run(image: Image, detection: Box[], options?: RecognitionOptions): Promise<RecognitionResult[]> {
-        const validBoxes = detection.filter((box) => box.width > 0 && box.height > 0);
-        const results: RecognitionResult[] = [];
-        const charWhiteListSet = options?.charWhiteList?.length ? new Set(options.charWhiteList) : undefined;
+    async run(
+        image: Image,
+        detection: Box[],
+        options?: RecognitionOptions,
+        orientations?: TextOrientation[],
+    ): Promise<RecognitionResult[]> {
+        const constraints = this.createConstraints(options);
 
-        for (const [i, box] of validBoxes.entries()) {
-            const result = await this.processBox({
+        const tasks: SingleRecognitionTask[] = [];
+        for (const [i, box] of detection.entries()) {
+            if (box.width <= 0 || box.height <= 0) continue;
+            tasks.push({
                 image: image,
                 index: i,
                 box: box,
-                charWhiteSet: charWhiteListSet,
+                charWhiteSet: constraints.charWhiteSet,
+                constraints,
+                orientation: orientations?.[i],
+                direction: textLineDirection(box, this.options.verticalRatio!),
             });
-            if (result) {
-                results.push(result);
-            }
         }
-        return this.sortResultsByReadingOrder(results);
+
+        const results = await this.recognizeTasks(tasks, options?.signal);
+        return sortResultsByReadingOrder(results);
     }
 
     /**
-     * Process a single text box
+     * Run text recognition on caller-supplied regions instead of detected ones
+     * @param regions Text regions, each with optional `charWhiteList`, `pattern` and `label`
+     * @param options Defaults for the regions that do not set their own whitelist or pattern
+     * @param orientations Optional text-line angles from the classification stage, aligned with `regions`
+     * @param onResult Called with every result as soon as it is known, in completion order
+     * @returns One result per region, in the order of `regions`. Regions outside the image yield an empty text.
      */
-    private async processBox(task: SingleRecognitionTask): Promise<RecognitionResult | null> {
-        const { image, box } = task;
+    async runRegions(
+        image: Image,
+        regions: RecognitionRegion[],
+        options?: RecognitionOptions,
+        orientations?: TextOrientation[],
+        onResult?: RecognitionResultCallback,
+    ): Promise<RecognitionResult[]> {
+        const tasks = regions.map((region, i): SingleRecognitionTask => {
+            const box = regionBox(region.box, image.width, image.height);
+            const constraints = this.createConstraints({
+                charWhiteList: region.charWhiteList ?? options?.charWhiteList,
+                pattern: region.pattern ?? options?.pattern,
+            });
+            return {
+                image,
+                index: i,
+                box,
+                charWhiteSet: constraints.charWhiteSet,
+                constraints,
+                orientation: orientations?.[i],
+                direction: textLineDirection(box, this.options.verticalRatio!),
+                label: region.label,
+            };
+        });
 
-        const crop = image.crop(box);
-        const resizedCrop = crop.resize({
-            height: this.options.imageHeight!,
+        const results: RecognitionResult[] = new Array(tasks.length);
+        const valid = tasks.filter((task) => {
+            if (task.box.width > 0 && task.box.height > 0) return true;
+            const empty: RecognitionResult = { text: "", box: task.box, confidence: 0, characters: [] };
+            if (task.label !== undefined) empty.label = task.label;
+            results[task.index] = empty;
+            onResult?.(task.index, empty);
+            return false;
         });
-        const tensor = resizedCrop.tensor({
-            mean_values: this.options.mean!,
-            norm_values: this.options.stdDeviation!,
+        await this.recognizeTasks(valid, options?.signal, (i, result) => {
+            results[valid[i].index] = result;
+            onResult?.(valid[i].index, result);
         });
+        return results;
+    }
 
-        const inputTensor = new this.ortModule.Tensor("float32", tensor, [1, 3, resizedCrop.height, resizedCrop.width]);
-        const { data: outputData, dims: shape } = await this.runInference(inputTensor);
+    /**
+     * Turn recognition options into decoding restrictions
+     */
+    private createConstraints(options?: RecognitionOptions): DecodeConstraints {
+        return {
+            charWhiteSet: options?.charWhiteList?.length ? new Set(options.charWhiteList) : undefined,
+            pattern: options?.pattern ? new PatternAutomaton(options.pattern) : undefined,
+        };
+    }
 
-        const [, sequenceLength, numClasses] = shape;
-        const { text: recognizedText, confidence } = this.ctcLabelDecode(
-            outputData as Float32Array,
-            sequenceLength,
-            numClasses,
-            task.charWhiteSet,
+    /**
+     * Crop, recognize and locate the characters of every task, keeping the order of `tasks`
+     * @param onResult Called with the position in `tasks` of every result as its batch finishes
+     */
+    private async recognizeTasks(
+        tasks: SingleRecognitionTask[],
+        signal?: AbortSignal,
+        onResult?: RecognitionResultCallback,
+    ): Promise<RecognitionResult[]> {
+        const crops = tasks.map((task) => this.cropTask(task));
+        const results: RecognitionResult[] = new Array(tasks.length);
+        await this.recognizeCrops(
+            crops,
+            tasks.map((task) => task.constraints),
+            signal,
+            (i, decoded) => {
+                results[i] = this.buildResult(tasks[i], decoded);
+                onResult?.(i, results[i]);
+            },
         );
+        return results;
+    }
 
-        return { text: recognizedText, box, confidence };
+    /**
+     * Cut the text line of a task out of its image, turning vertical lines
+     * counter-clockwise so they read left to right, then undoing a 180° flip
+     */
+    private cropTask(task: SingleRecognitionTask): Image {
+        let crop = task.image.cropBox(task.box);
+        if (task.direction === "vertical") {
+            crop = crop.rotate({ angle: 270 });
+        }
+        return task.orientation?.angle === 180 ? crop.rotate({ angle: 180 }) : crop;
     }
 
     /**
-     * Sort recognition results by reading order (top to bottom, left to right)
+     * Combine a task with its decoded text into the public result
      */
-    private sortResultsByReadingOrder(results: RecognitionResult[]): RecognitionResult[] {
-        return [...results].sort((a, b) => {
-            const boxA = a.box;
-            const boxB = b.box;
+    private buildResult(task: SingleRecognitionTask, decoded: DecodedText): RecognitionResult {
+        const result: RecognitionResult = {
+            text: decoded.text,
+            box: task.box,
+            confidence: decoded.confidence,
+            characters: this.locateCharacters(task, decoded),
+            direction: task.direction,
+        };
+        if (decoded.alternatives) {
+            result.alternatives = decoded.alternatives;
+        }
+        if (decoded.patternMatched !== undefined) {
+            result.patternMatched = decoded.patternMatched;
+        }
+        if (task.orientation) {
+            result.angle = task.orientation.angle;
+            result.angleConfidence = task.orientation.confidence;
+        }
+        if (task.label !== undefined) {
+            result.label = task.label;
+        }
+        return result;
+    }
+
+    /**
+     * Estimate the box of every decoded character. Each character is centered on its timestep
+     * and extends halfway to its neighbors; the span is then mapped from the crop back onto the
+     * line box, undoing the 180° flip of the classification stage and the rotation of vertical lines.
+     */
+    private locateCharacters(task: SingleRecognitionTask, decoded: DecodedText): RecognizedCharacter[] {
+        const { characters, timestepWidth } = decoded;
+        const lineQuad = task.box.points ?? rectToQuad(task.box);
+        const flipped = task.orientation?.angle === 180;
+        const vertical = task.direction === "vertical";
+        const centers = characters.map((c) => c.timestep + 0.5);
 
-            // If boxes are roughly on the same line (within 1/4 of their combined heights)
-            if (Math.abs(boxA.y - boxB.y) < (boxA.height + boxB.height) / 4) {
-                return boxA.x - boxB.x; // Sort left to right
+        return characters.map((character, i) => {
+            let start = 0;
+            let end = 1;
+            if (characters.length > 1) {
+                const before = i > 0 ? (centers[i] - centers[i - 1]) / 2 : (centers[i + 1] - centers[i]) / 2;
+                const after = i < centers.length - 1 ? (centers[i + 1] - centers[i]) / 2 : before;
+                start = Math.max(0, (centers[i] - before) * timestepWidth);
+                end = Math.min(1, (centers[i] + after) * timestepWidth);
             }
-            return boxA.y - boxB.y; // Otherwise sort top to bottom
+            const at = (u: number, v: number) => {
+                if (flipped) [u, v] = [1 - u, 1 - v];
+                if (vertical) [u, v] = [1 - v, u];
+                return quadPointAt(lineQuad, u, v);
+            };
+            const points = [at(start, 0), at(end, 0), at(end, 1), at(start, 1)] as Quad;
+            const box: Box = boundingBox(points);
+            if (task.box.points) {
+                box.points = points;
+            }
+            return { char: character.char, confidence: character.confidence, box };
+        });
+    }
+
+    /**
+     * Recognize the text of an already cropped, upright text line
+     * @param crop Image of a single text line
+     * @param constraints Optional restrictions on the decoded text
+     */
+    async recognizeCrop(crop: Image, constraints: DecodeConstraints = {}): Promise<DecodedText> {
+        const [decoded] = await this.recognizeBatch([crop], [constraints]);
+        return decoded;
+    }
+
+    /**
+     * Recognize many cropped text lines. Crops are sorted by aspect ratio and grouped
+     * into batches of `batchSize` so that each batch needs little padding.
+     * @param constraints Restrictions shared by all crops, or one entry per crop
+     * @param signal Stops before the next batch once aborted
+     * @param onDecoded Called with the index of every crop as its batch finishes
+     * @returns Decoded texts in the same order as `crops`
+     */
+    async recognizeCrops(
+        crops: Image[],
+        constraints: DecodeConstraints | DecodeConstraints[] = {},
+        signal?: AbortSignal,
+        onDecoded?: (index: number, decoded: DecodedText) => void,
+    ): Promise<DecodedText[]> {
+        const constraintsAt = (i: number) => (Array.isArray(constraints) ? constraints[i] : constraints);
+        const ratio = (crop: Image) => crop.width / crop.height;
+        const order = crops.map((_, i) => i).sort((a, b) => ratio(crops[a]) - ratio(crops[b]));
+        const batchSize = Math.max(1, this.options.batchSize!);
+
+        const decoded: DecodedText[] = new Array(crops.length);
+        for (let start = 0; start < order.length; start += batchSize) {
+            throwIfAborted(signal);
+            const batch = order.slice(start, start + batchSize);
+            const outputs = await this.recognizeBatch(
+                batch.map((i) => crops[i]),
+                batch.map(constraintsAt),
+            );
+            batch.forEach((cropIndex, i) => {
+                decoded[cropIndex] = outputs[i];
+                onDecoded?.(cropIndex, outputs[i]);
+            });
+        }
+        return decoded;
+    }
+
+    /**
+     * Run one inference over a batch of crops, right-padded to the widest one
+     */
+    private async recognizeBatch(crops: Image[], constraints: DecodeConstraints[]): Promise<DecodedText[]> {
+        const height = this.options.imageHeight!;
+        const resizedCrops = crops.map((crop) => crop.resize({ height }));
+        const maxWidth = Math.max(...resizedCrops.map((crop) => crop.width));
+
+        // Padding stays 0, i.e. the normalized mean value
+        const batchTensor = new Float32Array(crops.length * 3 * height * maxWidth);
+        resizedCrops.forEach((resizedCrop, n) => {
+            const tensor = resizedCrop.tensor({
+                mean_values: this.options.mean!,
+                norm_values: this.options.stdDeviation!,
+            });
+            const width = resizedCrop.width;
+            for (let c = 0; c < 3; c++) {
+                for (let y = 0; y < height; y++) {
+                    const srcOffset = (c * height + y) * width;
+                    const dstOffset = ((n * 3 + c) * height + y) * maxWidth;
+                    batchTensor.set(tensor.subarray(srcOffset, srcOffset + width), dstOffset);
+                }
+            }
+        });
+
+        const inputTensor = new this.ortModule.Tensor("float32", batchTensor, [crops.length, 3, height, maxWidth]);
+        const { data: outputData, dims: shape } = await this.runInference(inputTensor);
+
+        const [, sequenceLength, numClasses] = shape;
+        // Models with a symbolic class dimension can only be checked once they ran
+        validateDictionary(numClasses, this.options.charactersDictionary!);
+        const logits = outputData as Float32Array;
+        const stride = sequenceLength * numClasses;
+        return resizedCrops.map((resizedCrop, n) => ({
+            ...this.decode(logits.subarray(n * stride, (n + 1) * stride), sequenceLength, numClasses, constraints[n]),
+            timestepWidth: maxWidth / sequenceLength / resizedCrop.width,
+        }));
+    }
+
+    /**
+     * Decode the output of one crop with the configured decoder, then look for the best
+     * path matching the pattern constraint if there is one
+     */
+    private decode(
+        logits: Float32Array,
+        sequenceLength: number,
+        numClasses: number,
+        constraints: DecodeConstraints,
+    ): Omit<DecodedText, "timestepWidth"> {
+        const { charWhiteSet, pattern } = constraints;
+        const decoded =
+            this.options.decoder === "beam"
+                ? this.ctcBeamDecode(logits, sequenceLength, numClasses, charWhiteSet)
+                : this.ctcLabelDecode(logits, sequenceLength, numClasses, charWhiteSet);
+        if (!pattern) {
+            return decoded;
+        }
+
+        const match = ctcPatternSearch(logits, sequenceLength, numClasses, {
+            dictionary: this.options.charactersDictionary!,
+            automaton: pattern,
+            charWhiteSet,
         });
+        if (!match) {
+            return { ...decoded, patternMatched: false };
+        }
+        return {
+            text: match.text,
+            confidence: meanConfidence(match.characters),
+            characters: match.characters,
+            alternatives: decoded.alternatives?.filter((alternative) => pattern.matches(alternative.text)),
+            patternMatched: true,
+        };
     }
 
     /**
@@ -132,10 +484,10 @@ export class RecognitionService {
         sequenceLength: number,
         numClasses: number,
         charWhiteSet?: Set<string>,
-    ): { text: string; confidence: number } {
+    ): Omit<DecodedText, "timestepWidth"> {
         const dict = this.options.charactersDictionary!;
         let text = "";
-        const scores = [];
+        const characters: DecodedCharacter[] = [];
         for (let t = 0; t < sequenceLength; t++) {
             let maxScore = 0;
             let maxScoreIndex = 0;
@@ -150,11 +502,80 @@ export class RecognitionService {
             if (maxScoreIndex === 0) continue;
             const char = dict[maxScoreIndex] || "";
             text += char;
-            scores.push(maxScore);
+            characters.push({ char, confidence: maxScore, timestep: t });
         }
         return {
             text,
-            confidence: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+            confidence: meanConfidence(characters),
+            characters,
+        };
+    }
+
+    /**
+     * CTC prefix beam search, optionally constrained or boosted by the lexicon
+     */
+    private ctcBeamDecode(
+        logits: Float32Array,
+        sequenceLength: number,
+        numClasses: number,
+        charWhiteSet?: Set<string>,
+    ): Omit<DecodedText, "timestepWidth"> {
+        const hypotheses = ctcPrefixBeamSearch(logits, sequenceLength, numClasses, {
+            dictionary: this.options.charactersDictionary!,
+            beamWidth: this.options.beamWidth!,
+            topK: this.options.topK!,
+            charWhiteSet,
+            lexicon: this.lexicon,
+            lexiconMode: this.options.lexiconMode,
+            lexiconWeight: this.options.lexiconWeight,
+        });
+        const [best] = hypotheses;
+        if (!best) {
+            // No path satisfies the lexicon constraint
+            return { text: "", confidence: 0, characters: [], alternatives: [] };
+        }
+        return {
+            text: best.text,
+            confidence: meanConfidence(best.characters),
+            characters: best.characters,
+            alternatives: hypotheses.map(({ text, score }) => ({ text, score })),
         };
     }
 }
+
+/**
+ * Mean confidence of decoded characters, 0 for an empty text
+ */
+function meanConfidence(characters: { confidence: number }[]): number {
+    return characters.length ? characters.reduce((sum, c) => sum + c.confidence, 0) / characters.length : 0;
+}
+
+/**
+ * Sort recognition results by reading order (top to bottom, left to right).
+ * Pages made mostly of vertical lines are read column by column, right to left.
+ */
+export function sortResultsByReadingOrder(results: RecognitionResult[]): RecognitionResult[] {
+    const verticalCount = results.filter((r) => r.direction === "vertical").length;
+    if (verticalCount * 2 > results.length) {
+        return [...results].sort((a, b) => {
+            const boxA = a.box;
+            const boxB = b.box;
+
+            // If boxes are roughly in the same column (within 1/4 of their combined widths)
+            if (Math.abs(boxA.x + boxA.width - (boxB.x + boxB.width)) < (boxA.width + boxB.width) / 4) {
+                return boxA.y - boxB.y; // Sort top to bottom
+            }
+            return boxB.x + boxB.width - (boxA.x + boxA.width); // Otherwise sort right to left
+        });
+    }
+    return [...results].sort((a, b) => {
+        const boxA = a.box;
+        const boxB = b.box;
+
+        // If boxes are roughly on the same line (within 1/4 of their combined heights)
+        if (Math.abs(boxA.y - boxB.y) < (boxA.height + boxB.height) / 4) {
+            return boxA.x - boxB.x; // Sort left to right
+        }
+        return boxA.y - boxB.y; // Otherwise sort top to bottom
+    });
+}
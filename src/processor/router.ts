@@ -0,0 +1,222 @@
+import type { Box, RecognitionOptions, RecognitionRegion, Script, TextOrientation } from "../interface";
+import { Image } from "../utils/image";
+import { identifyScript } from "../utils/script";
+import type { RecognitionResult, RecognitionResultCallback, RecognitionService } from "./recognition";
+import type { ScriptClassificationService } from "./script";
+
+/**
+ * Language key of the model given by the `recognition` option
+ */
+export const DEFAULT_LANGUAGE = "default";
+
+/**
+ * Language option identifying the script of every line
+ */
+export const AUTO_LANGUAGE = "auto";
+
+/**
+ * Without a script model, lines still read below this confidence once routed by script
+ * are read by every model and the most confident text is kept
+ */
+const AUTO_FALLBACK_CONFIDENCE = 0.75;
+
+/**
+ * A recognition model registered under a language key
+ */
+export interface LanguageModel {
+    service: RecognitionService;
+    /** Scripts routed to this model by the `"auto"` language. */
+    scripts: Script[];
+}
+
+/**
+ * A region whose box has already been resolved on the recognized image
+ */
+type ResolvedRegion = RecognitionRegion & { box: Box };
+
+/**
+ * Dispatches text lines to the recognition model of their language
+ */
+export class RecognitionRouter {
+    private readonly models: Map<string, LanguageModel>;
+    private readonly scriptService: ScriptClassificationService | null;
+    private readonly verticalRatio: number;
+
+    constructor(
+        models: Map<string, LanguageModel>,
+        scriptService: ScriptClassificationService | null = null,
+        verticalRatio = Infinity,
+    ) {
+        this.models = models;
+        this.scriptService = scriptService;
+        this.verticalRatio = verticalRatio;
+    }
+
+    /**
+     * Recognize every region with the model of its own `language`, else that of `options`,
+     * else the default model. Results name the model in `language` when one was asked for.
+     * @param onResult Called with every result once its model is settled, in completion order
+     * @returns One result per region, in the order of `regions`
+     */
+    async run(
+        image: Image,
+        regions: ResolvedRegion[],
+        options?: RecognitionOptions,
+        orientations?: TextOrientation[],
+        onResult?: RecognitionResultCallback,
+    ): Promise<RecognitionResult[]> {
+        const groups = new Map<string | undefined, number[]>();
+        regions.forEach((region, i) => {
+            const language = region.language ?? options?.language;
+            groups.set(language, [...(groups.get(language) ?? []), i]);
+        });
+
+        const results: RecognitionResult[] = new Array(regions.length);
+        for (const [language, indices] of groups) {
+            const settle = (i: number, result: RecognitionResult) => {
+                // The "auto" language names the model it picked itself
+                if (language !== undefined && language !== AUTO_LANGUAGE) {
+                    result.language = language;
+                }
+                results[indices[i]] = result;
+                onResult?.(indices[i], result);
+            };
+            if (language === AUTO_LANGUAGE) {
+                const recognized = await this.runAuto(
+                    image,
+                    indices.map((i) => regions[i]),
+                    options,
+                    orientations && indices.map((i) => orientations[i]),
+                );
+                recognized.forEach((result, i) => settle(i, result));
+            } else {
+                await this.runSubset(
+                    language ?? DEFAULT_LANGUAGE,
+                    image,
+                    regions,
+                    indices,
+                    options,
+                    orientations,
+                    settle,
+                );
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Registered language keys
+     */
+    languages(): string[] {
+        return [...this.models.keys()];
+    }
+
+    private async runModel(
+        language: string,
+        image: Image,
+        regions: ResolvedRegion[],
+        options?: RecognitionOptions,
+        orientations?: TextOrientation[],
+        onResult?: RecognitionResultCallback,
+    ): Promise<RecognitionResult[]> {
+        const model = this.models.get(language);
+        if (!model) {
+            throw new Error(
+                `No recognition model for language "${language}". Available: ${[...this.models.keys(), AUTO_LANGUAGE].join(", ")}.`,
+            );
+        }
+        return model.service.runRegions(image, regions, options, orientations, onResult);
+    }
+
+    /**
+     * Identify the script of every region and read it with the model of that script.
+     * The script model decides when one is configured. Otherwise the default model reads
+     * every line first and the script of its text picks the model, unsure lines being
+     * read by all models.
+     */
+    private async runAuto(
+        image: Image,
+        regions: ResolvedRegion[],
+        options?: RecognitionOptions,
+        orientations?: TextOrientation[],
+    ): Promise<RecognitionResult[]> {
+        const fallback = this.models.has(DEFAULT_LANGUAGE) ? DEFAULT_LANGUAGE : this.languages()[0];
+        const results: RecognitionResult[] = new Array(regions.length);
+        const targets: string[] = new Array(regions.length).fill(fallback);
+        const readings: RecognitionResult[] = [];
+
+        if (this.scriptService) {
+            const predictions = await this.scriptService.run(
+                image,
+                regions.map((region) => region.box),
+                this.verticalRatio,
+                { signal: options?.signal },
+            );
+            predictions.forEach(({ language }, i) => {
+                if (this.models.has(language)) targets[i] = language;
+            });
+        } else {
+            readings.push(...(await this.runModel(fallback, image, regions, options, orientations)));
+            readings.forEach((result, i) => {
+                const script = identifyScript(result.text);
+                const claimed = [...this.models].find(([, model]) => script && model.scripts.includes(script));
+                if (claimed) {
+                    targets[i] = claimed[0];
+                } else {
+                    results[i] = { ...result, language: fallback };
+                }
+            });
+        }
+
+        // Read every line not settled yet with its target model
+        const groups = new Map<string, number[]>();
+        targets.forEach((language, i) => {
+            if (!results[i]) groups.set(language, [...(groups.get(language) ?? []), i]);
+        });
+        for (const [language, indices] of groups) {
+            const recognized = await this.runSubset(language, image, regions, indices, options, orientations);
+            indices.forEach((index, i) => (results[index] = { ...recognized[i], language }));
+        }
+        if (this.scriptService) {
+            return results;
+        }
+
+        // Keep the most confident reading of unsure lines, the default one included
+        const unsure = results.flatMap((result, i) => (result.confidence >= AUTO_FALLBACK_CONFIDENCE ? [] : [i]));
+        for (const index of unsure) {
+            if (readings[index].confidence > (results[index].confidence || 0)) {
+                results[index] = { ...readings[index], language: fallback };
+            }
+        }
+        for (const language of this.languages()) {
+            const indices = unsure.filter((i) => language !== fallback && language !== targets[i]);
+            if (!indices.length) continue;
+            const recognized = await this.runSubset(language, image, regions, indices, options, orientations);
+            indices.forEach((index, i) => {
+                if (recognized[i].confidence > (results[index].confidence || 0)) {
+                    results[index] = { ...recognized[i], language };
+                }
+            });
+        }
+        return results;
+    }
+
+    private runSubset(
+        language: string,
+        image: Image,
+        regions: ResolvedRegion[],
+        indices: number[],
+        options?: RecognitionOptions,
+        orientations?: TextOrientation[],
+        onResult?: RecognitionResultCallback,
+    ): Promise<RecognitionResult[]> {
+        return this.runModel(
+            language,
+            image,
+            indices.map((i) => regions[i]),
+            options,
+            orientations && indices.map((i) => orientations[i]),
+            onResult,
+        );
+    }
+}
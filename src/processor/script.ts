@@ -0,0 +1,96 @@
+import type * as ort from "onnxruntime-node";
+import type { Box, ScriptClassificationServiceOptions, ScriptPrediction, StageHooks } from "../interface";
+import { DEFAULT_SCRIPT_CLASSIFICATION_OPTIONS } from "../constants";
+import { throwIfAborted } from "../errors";
+import { validateModel } from "../models/validate";
+import { textLineDirection } from "../utils/geometry";
+import { Image } from "../utils/image";
+import { classifierTensor } from "./classification";
+
+/**
+ * Service identifying the script or language of detected text lines with a classification model
+ */
+export class ScriptClassificationService {
+    private readonly options: ScriptClassificationServiceOptions;
+    private readonly session: ort.InferenceSession;
+    private readonly ortModule: typeof ort;
+
+    constructor(
+        ortModule: typeof ort,
+        session: ort.InferenceSession,
+        options: Partial<ScriptClassificationServiceOptions> = {},
+    ) {
+        this.session = session;
+        this.ortModule = ortModule;
+
+        this.options = {
+            ...DEFAULT_SCRIPT_CLASSIFICATION_OPTIONS,
+            ...options,
+        };
+        if (!this.options.labels?.length) {
+            throw new Error("options.scriptClassification.labels must name the language of every model class.");
+        }
+        const [inputHeight, inputWidth] = this.options.imageShape!;
+        validateModel(session, {
+            model: "Script identification",
+            inputHeight,
+            inputWidth,
+            outputRank: 2,
+            classes: this.options.labels.length,
+        });
+    }
+
+    /**
+     * Predict the language of every region
+     * @param verticalRatio Boxes at least this many times taller than wide are rotated
+     * counter-clockwise before classification, as the recognition stage does
+     * @param hooks Cancellation and progress over the classified boxes
+     * @returns One prediction per box, aligned with `boxes`. Predictions at or below
+     * the configured threshold have an empty `language`.
+     */
+    async run(
+        image: Image,
+        boxes: Box[],
+        verticalRatio = Infinity,
+        hooks: StageHooks = {},
+    ): Promise<ScriptPrediction[]> {
+        const predictions: ScriptPrediction[] = [];
+        hooks.onProgress?.(0, boxes.length);
+        for (const box of boxes) {
+            throwIfAborted(hooks.signal);
+            if (box.width <= 0 || box.height <= 0) {
+                predictions.push({ language: "", confidence: 0 });
+            } else {
+                const crop = image.cropBox(box);
+                const vertical = textLineDirection(box, verticalRatio) === "vertical";
+                predictions.push(await this.classify(vertical ? crop.rotate({ angle: 270 }) : crop));
+            }
+            hooks.onProgress?.(predictions.length, boxes.length);
+        }
+        return predictions;
+    }
+
+    /**
+     * Classify a single cropped text line
+     */
+    async classify(crop: Image): Promise<ScriptPrediction> {
+        const [height, width] = this.options.imageShape!;
+        const tensor = classifierTensor(crop, height, width, this.options.mean!, this.options.stdDeviation!);
+        const inputTensor = new this.ortModule.Tensor("float32", tensor, [1, 3, height, width]);
+
+        const results = await this.session.run({ x: inputTensor });
+        const outputTensor = results[this.session.outputNames[0]];
+        if (!outputTensor) {
+            throw new Error(`Script identification output tensor not found. Available keys: ${Object.keys(results)}`);
+        }
+
+        const scores = outputTensor.data as Float32Array;
+        const labels = this.options.labels!;
+        let bestIndex = 0;
+        for (let i = 1; i < labels.length; i++) {
+            if (scores[i] > scores[bestIndex]) bestIndex = i;
+        }
+        const confidence = scores[bestIndex];
+        return { language: confidence > this.options.threshold! ? labels[bestIndex] : "", confidence };
+    }
+}
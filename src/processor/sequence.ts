@@ -0,0 +1,305 @@
+import type { Box, ImageInput, RecognitionOptions, SequenceOptions } from "../interface";
+import { DEFAULT_SEQUENCE_OPTIONS } from "../constants";
+import { throwIfAborted } from "../errors";
+import { intersectionOverUnion } from "../utils/geometry";
+import { Image } from "../utils/image";
+import type { PaddleOcrService } from "./paddle-ocr";
+
+/**
+ * A text followed across the frames of a sequence
+ */
+export interface TextTrack {
+    /** Identifier of the track, unique within its sequence. */
+    id: number;
+    /** Most confident reading of the text so far. */
+    text: string;
+    confidence: number;
+    /** Box of the text on the last frame it was seen. */
+    box: Box;
+    /** Index of the frame the text appeared on. */
+    firstFrame: number;
+    /** Index of the last frame the text was seen on. */
+    lastFrame: number;
+}
+
+/**
+ * Emitted when a text appears on a frame, and once more when it is gone with its final reading
+ */
+export interface TextTrackEvent extends TextTrack {
+    type: "appear" | "disappear";
+}
+
+interface TrackState extends TextTrack {
+    /** Frames in a row the text was not detected on. */
+    missed: number;
+}
+
+/**
+ * Luminance of the last analyzed frame, which later frames are compared with
+ */
+interface ReferenceFrame {
+    width: number;
+    height: number;
+    luminance: Uint8Array;
+}
+
+/**
+ * Recognizes the frames of a video one at a time, following every text from the frame it
+ * appears on to the frame it disappears from instead of reading it again on every frame.
+ *
+ * Frames are compared with the last analyzed one: barely changed frames skip detection, and
+ * detected boxes overlapping a tracked text whose pixels did not change keep its text without
+ * recognition. Only new and changed regions are recognized.
+ */
+export class FrameSequence {
+    private readonly service: PaddleOcrService;
+    private readonly options: Required<SequenceOptions>;
+    private tracks: TrackState[] = [];
+    private reference: ReferenceFrame | null = null;
+    private frames = 0;
+    private nextId = 0;
+    private pending: Promise<unknown> = Promise.resolve();
+
+    constructor(service: PaddleOcrService, options: SequenceOptions = {}) {
+        this.service = service;
+        this.options = { ...DEFAULT_SEQUENCE_OPTIONS, ...options };
+    }
+
+    /** Frames pushed so far, which is also the index of the next frame. */
+    get frameCount(): number {
+        return this.frames;
+    }
+
+    /** Texts currently on screen. */
+    get activeTracks(): TextTrack[] {
+        return this.tracks.filter((track) => track.missed === 0).map((track) => this.snapshot(track));
+    }
+
+    /**
+     * Add the next frame. Frames pushed before the previous ones finished wait for them.
+     *
+     * @param options Options of the recognition of new and changed regions.
+     * @return Texts that disappeared before this frame, then texts that appeared on it. A text
+     * is gone once it went undetected for more than `maxMissedFrames` frames, unchanged ones included.
+     */
+    push(frame: ImageInput, options?: RecognitionOptions): Promise<TextTrackEvent[]> {
+        const index = this.frames++;
+        const run = this.pending.then(() => this.analyze(frame, index, options));
+        this.pending = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * End the sequence, reporting every text still on screen as gone. The sequence can then
+     * be reused for another video, frames being counted from 0 again.
+     */
+    async end(): Promise<TextTrackEvent[]> {
+        await this.pending;
+        const events = this.tracks.map((track): TextTrackEvent => ({ type: "disappear", ...this.snapshot(track) }));
+        this.tracks = [];
+        this.reference = null;
+        this.frames = 0;
+        return events;
+    }
+
+    private async analyze(frame: ImageInput, index: number, options?: RecognitionOptions): Promise<TextTrackEvent[]> {
+        throwIfAborted(options?.signal);
+        const { changeThreshold, iouThreshold, textSimilarity } = this.options;
+        const channels = frame.data.length / (frame.width * frame.height);
+        if (!Number.isInteger(channels) || channels < 1 || channels > 4) {
+            throw new Error(
+                `Invalid frame data for size ${frame.width}x${frame.height}. Expected 1, 3, or 4 channels.`,
+            );
+        }
+        const luminance = new Image(frame.width, frame.height, channels, frame.data).luminance();
+        const reference =
+            this.reference?.width === frame.width && this.reference.height === frame.height ? this.reference : null;
+        const changed = (box: Box) =>
+            !reference || this.changedShare(reference.luminance, luminance, frame.width, box) >= changeThreshold;
+
+        if (!changed({ x: 0, y: 0, width: frame.width, height: frame.height })) {
+            // The frame shows what the last analyzed one did: texts seen there still are, missed ones still are not
+            const seen = new Set(this.tracks.filter((track) => track.missed === 0));
+            for (const track of seen) {
+                track.lastFrame = index;
+            }
+            return this.age(seen, new Set());
+        }
+
+        const boxes = await this.service.detect(frame);
+        const matches = this.matchBoxes(boxes, iouThreshold);
+        const seen = new Set<TrackState>();
+        const pending: number[] = [];
+        boxes.forEach((box, i) => {
+            const track = matches[i];
+            // A track missed on the previous frame has no text confirmed on the reference frame
+            if (track && track.missed === 0 && !changed(box)) {
+                Object.assign(track, { box, lastFrame: index });
+                seen.add(track);
+            } else {
+                pending.push(i);
+            }
+        });
+
+        const appeared: TextTrackEvent[] = [];
+        const ended = new Set<TrackState>();
+        const results = pending.length
+            ? await this.service.recognizeRegions(
+                  frame,
+                  pending.map((i) => boxes[i]),
+                  options,
+              )
+            : [];
+        results.forEach((result, n) => {
+            const text = result.text.trim();
+            if (!text) return;
+            const box = boxes[pending[n]];
+            const track = matches[pending[n]] ?? this.findMovedTrack(text, box, textSimilarity, seen, ended);
+
+            if (track && similarity(track.text, text) >= textSimilarity) {
+                Object.assign(track, { box, lastFrame: index });
+                if (result.confidence > track.confidence) {
+                    Object.assign(track, { text, confidence: result.confidence });
+                }
+                seen.add(track);
+                return;
+            }
+            if (track) {
+                // The text at this place was replaced
+                ended.add(track);
+            }
+            const created: TrackState = {
+                id: this.nextId++,
+                text,
+                confidence: result.confidence,
+                box,
+                firstFrame: index,
+                lastFrame: index,
+                missed: 0,
+            };
+            this.tracks.push(created);
+            seen.add(created);
+            appeared.push({ type: "appear", ...this.snapshot(created) });
+        });
+
+        const disappeared = this.age(seen, ended);
+        this.reference = { width: frame.width, height: frame.height, luminance };
+        return [...disappeared, ...appeared];
+    }
+
+    /**
+     * Count a missed frame for the tracks not seen on this one, dropping those missed for too long
+     * and those `ended` by another text
+     * @return The disappearance of the dropped tracks
+     */
+    private age(seen: Set<TrackState>, ended: Set<TrackState>): TextTrackEvent[] {
+        const disappeared: TextTrackEvent[] = [];
+        this.tracks = this.tracks.filter((track) => {
+            if (seen.has(track)) {
+                track.missed = 0;
+                return true;
+            }
+            if (!ended.has(track) && ++track.missed <= this.options.maxMissedFrames) {
+                return true;
+            }
+            disappeared.push({ type: "disappear", ...this.snapshot(track) });
+            return false;
+        });
+        return disappeared;
+    }
+
+    /**
+     * Pair every detected box with the tracked text it overlaps most, each track taking one box
+     */
+    private matchBoxes(boxes: Box[], iouThreshold: number): (TrackState | undefined)[] {
+        const pairs: { box: number; track: TrackState; iou: number }[] = [];
+        boxes.forEach((box, i) => {
+            for (const track of this.tracks) {
+                const iou = intersectionOverUnion(box, track.box);
+                if (iou >= iouThreshold) pairs.push({ box: i, track, iou });
+            }
+        });
+        pairs.sort((a, b) => b.iou - a.iou);
+
+        const matches: (TrackState | undefined)[] = new Array(boxes.length);
+        const taken = new Set<TrackState>();
+        for (const { box, track } of pairs) {
+            if (matches[box] || taken.has(track)) continue;
+            matches[box] = track;
+            taken.add(track);
+        }
+        return matches;
+    }
+
+    /**
+     * Closest track not seen on this frame with a similar text, for texts that moved
+     */
+    private findMovedTrack(
+        text: string,
+        box: Box,
+        textSimilarity: number,
+        seen: Set<TrackState>,
+        ended: Set<TrackState>,
+    ): TrackState | undefined {
+        let closest: TrackState | undefined;
+        let closestDistance = Infinity;
+        for (const track of this.tracks) {
+            if (seen.has(track) || ended.has(track) || similarity(track.text, text) < textSimilarity) continue;
+            const distance = Math.hypot(
+                track.box.x + track.box.width / 2 - (box.x + box.width / 2),
+                track.box.y + track.box.height / 2 - (box.y + box.height / 2),
+            );
+            if (distance < closestDistance) {
+                closest = track;
+                closestDistance = distance;
+            }
+        }
+        return closest;
+    }
+
+    /**
+     * Share of the pixels of `box` whose luminance changed by more than the tolerance
+     */
+    private changedShare(previous: Uint8Array, current: Uint8Array, width: number, box: Box): number {
+        const height = current.length / width;
+        const x0 = Math.max(0, Math.floor(box.x));
+        const y0 = Math.max(0, Math.floor(box.y));
+        const x1 = Math.min(width, Math.ceil(box.x + box.width));
+        const y1 = Math.min(height, Math.ceil(box.y + box.height));
+        if (x1 <= x0 || y1 <= y0) {
+            return 0;
+        }
+        let changed = 0;
+        for (let y = y0; y < y1; y++) {
+            for (let i = y * width + x0, end = y * width + x1; i < end; i++) {
+                if (Math.abs(current[i] - previous[i]) > this.options.pixelTolerance) changed++;
+            }
+        }
+        return changed / ((x1 - x0) * (y1 - y0));
+    }
+
+    private snapshot({ missed: _, ...track }: TrackState): TextTrack {
+        return { ...track, box: { ...track.box } };
+    }
+}
+
+/**
+ * Similarity of two texts from 0 to 1: one minus their edit distance over the longer length
+ */
+function similarity(a: string, b: string): number {
+    const length = Math.max(a.length, b.length);
+    if (!length) {
+        return 1;
+    }
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current.push(
+                Math.min(previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), previous[j] + 1, current[j - 1] + 1),
+            );
+        }
+        previous = current;
+    }
+    return 1 - previous[b.length] / length;
+}
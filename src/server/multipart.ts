@@ -0,0 +1,55 @@
+/**
+ * A part of a `multipart/form-data` body
+ */
+export interface MultipartPart {
+    /** Form field name. */
+    name?: string;
+    /** File name of an uploaded file. */
+    filename?: string;
+    contentType?: string;
+    data: Buffer;
+}
+
+/**
+ * Split a `multipart/form-data` body into its parts
+ * @param contentType Value of the Content-Type header, carrying the boundary
+ * @throws {Error} When the boundary is missing or the body is truncated
+ */
+export function parseMultipart(body: Buffer, contentType: string): MultipartPart[] {
+    const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    if (!boundary) {
+        throw new Error("Multipart body without a boundary");
+    }
+    const delimiter = Buffer.from(`\r\n--${boundary[1] ?? boundary[2]}`);
+
+    // The first delimiter starts the body, without the line break of the others
+    let position = body.indexOf(delimiter.subarray(2));
+    if (position < 0) {
+        throw new Error("Multipart body without any part");
+    }
+    position += delimiter.length - 2;
+
+    const parts: MultipartPart[] = [];
+    while (body.toString("latin1", position, position + 2) !== "--") {
+        const headersEnd = body.indexOf("\r\n\r\n", position);
+        const next = headersEnd < 0 ? -1 : body.indexOf(delimiter, headersEnd + 4);
+        if (next < 0) {
+            throw new Error("Truncated multipart body");
+        }
+        const part: MultipartPart = { data: body.subarray(headersEnd + 4, next) };
+        for (const line of body.toString("utf-8", position, headersEnd).split("\r\n")) {
+            const separator = line.indexOf(":");
+            const header = line.slice(0, separator).trim().toLowerCase();
+            const value = line.slice(separator + 1).trim();
+            if (header === "content-disposition") {
+                part.name = /\bname="([^"]*)"/i.exec(value)?.[1];
+                part.filename = /\bfilename="([^"]*)"/i.exec(value)?.[1];
+            } else if (header === "content-type") {
+                part.contentType = value;
+            }
+        }
+        parts.push(part);
+        position = next + delimiter.length;
+    }
+    return parts;
+}
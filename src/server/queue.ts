@@ -0,0 +1,69 @@
+/**
+ * Thrown when a task arrives while every slot is busy and the queue is full
+ */
+export class QueueFullError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "QueueFullError";
+    }
+}
+
+/**
+ * Runs at most `concurrency` tasks at a time, holding up to `maxQueue` more in arrival order
+ */
+export class RequestQueue {
+    private readonly concurrency: number;
+    private readonly maxQueue: number;
+    private readonly waiting: (() => void)[] = [];
+    private active = 0;
+
+    constructor(concurrency: number, maxQueue: number) {
+        this.concurrency = Math.max(1, concurrency);
+        this.maxQueue = Math.max(0, maxQueue);
+    }
+
+    /** Tasks currently running. */
+    get running(): number {
+        return this.active;
+    }
+
+    /** Tasks waiting for a free slot. */
+    get queued(): number {
+        return this.waiting.length;
+    }
+
+    /**
+     * Check that a task arriving now could run or wait, before preparing it
+     * @throws {QueueFullError} When every slot is busy and the queue is full
+     */
+    assertCapacity(): void {
+        if (this.active >= this.concurrency && this.waiting.length >= this.maxQueue) {
+            throw new QueueFullError(`${this.waiting.length} requests are already waiting`);
+        }
+    }
+
+    /**
+     * Run a task once a slot is free
+     * @throws {QueueFullError} When the task cannot even wait for a slot
+     */
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        this.assertCapacity();
+        if (this.active < this.concurrency) {
+            this.active++;
+        } else {
+            // The finishing task hands its slot over without releasing it
+            await new Promise<void>((resolve) => this.waiting.push(resolve));
+        }
+
+        try {
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
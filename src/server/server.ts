@@ -0,0 +1,215 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { decodeImage } from "../decoders/decode";
+import { FORMATS, formatPage, type OutputFormat } from "../export/format";
+import { OcrAbortError, throwIfAborted } from "../errors";
+import type { ImageInput } from "../interface";
+import type { PaddleOcrService } from "../processor/paddle-ocr";
+import { parseMultipart } from "./multipart";
+import { QueueFullError, RequestQueue } from "./queue";
+
+export interface OcrServerOptions {
+    /** Requests running inference at the same time. */
+    concurrency: number;
+    /** Requests waiting for a free slot before new ones are refused with 503. */
+    maxQueue: number;
+    /** Largest accepted request body in bytes, larger ones are refused with 413. */
+    maxBodySize: number;
+}
+
+export const DEFAULT_SERVER_OPTIONS: OcrServerOptions = {
+    concurrency: 1,
+    maxQueue: 32,
+    maxBodySize: 20 * 1024 * 1024,
+};
+
+/**
+ * Content types of the non-JSON output formats
+ */
+const CONTENT_TYPES: Record<Exclude<OutputFormat, "json">, string> = {
+    text: "text/plain; charset=utf-8",
+    tsv: "text/tab-separated-values; charset=utf-8",
+    hocr: "application/xhtml+xml; charset=utf-8",
+};
+
+/**
+ * Fields of a multipart body holding the image, the first file being used otherwise
+ */
+const IMAGE_FIELDS = ["image", "file"];
+
+/**
+ * Error answered with its HTTP status and headers
+ */
+class HttpError extends Error {
+    readonly status: number;
+    readonly headers: Record<string, string>;
+
+    constructor(status: number, message: string, headers: Record<string, string> = {}) {
+        super(message);
+        this.name = "HttpError";
+        this.status = status;
+        this.headers = headers;
+    }
+}
+
+/**
+ * Create an HTTP server answering with a service whose models are already loaded:
+ *
+ * - `POST /ocr` recognizes the image sent as the raw body or as a multipart file.
+ *   Query parameters: `whitelist` (characters) and `format` (`json`, `text`, `tsv` or `hocr`).
+ * - `POST /detect` returns the text boxes of the image as JSON, and takes no query parameters.
+ * - `GET /health` reports the running and queued requests.
+ *
+ * Errors are JSON objects with an `error` message: 400 for bad images and parameters,
+ * 413 for large bodies, 503 when the queue is full.
+ */
+export function createOcrServer(service: PaddleOcrService, options: Partial<OcrServerOptions> = {}): Server {
+    const { concurrency, maxQueue, maxBodySize } = { ...DEFAULT_SERVER_OPTIONS, ...options };
+    const queue = new RequestQueue(concurrency, maxQueue);
+
+    return createServer((request, response) => {
+        handleRequest(service, queue, maxBodySize, request, response).catch((error) => sendError(response, error));
+    });
+}
+
+async function handleRequest(
+    service: PaddleOcrService,
+    queue: RequestQueue,
+    maxBodySize: number,
+    request: IncomingMessage,
+    response: ServerResponse,
+): Promise<void> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname === "/health") {
+        assertMethod(request, "GET");
+        sendJson(response, 200, { status: "ok", running: queue.running, queued: queue.queued });
+        return;
+    }
+    if (url.pathname !== "/ocr" && url.pathname !== "/detect") {
+        throw new HttpError(404, `No route for ${url.pathname}`);
+    }
+    assertMethod(request, "POST");
+
+    const format = (url.searchParams.get("format") ?? "json") as OutputFormat;
+    if (!FORMATS.includes(format)) {
+        throw new HttpError(400, `Unknown format "${format}", expected one of ${FORMATS.join(", ")}`);
+    }
+    const whitelist = url.searchParams.get("whitelist");
+    if (url.pathname === "/detect" && (format !== "json" || whitelist !== null)) {
+        throw new HttpError(400, "/detect only answers JSON boxes and takes no format or whitelist");
+    }
+    // Requests that could not even wait are refused before their body is read
+    queue.assertCapacity();
+    const body = await readBody(request, maxBodySize);
+
+    // Requests of clients that went away stop at the next inference call
+    const controller = new AbortController();
+    response.on("close", () => controller.abort());
+
+    await queue.run(async () => {
+        // Only running requests hold decoded pixels, waiting ones keep their encoded body
+        throwIfAborted(controller.signal);
+        const image = readImage(body, request.headers["content-type"]);
+        if (url.pathname === "/detect") {
+            const boxes = await service.detect(image, { signal: controller.signal });
+            sendJson(response, 200, { width: image.width, height: image.height, boxes });
+            return;
+        }
+        const results = await service.recognize(image, {
+            charWhiteList: whitelist ? Array.from(whitelist) : undefined,
+            signal: controller.signal,
+        });
+        if (format === "json") {
+            sendJson(response, 200, { width: image.width, height: image.height, results });
+        } else {
+            const page = { file: "-", width: image.width, height: image.height, results };
+            response.writeHead(200, { "Content-Type": CONTENT_TYPES[format] });
+            response.end(formatPage(page, format, true));
+        }
+    });
+}
+
+function assertMethod(request: IncomingMessage, method: string): void {
+    if (request.method !== method) {
+        throw new HttpError(405, `Use ${method} for this route`, { Allow: method });
+    }
+}
+
+/**
+ * Read a request body, refusing it as soon as it grows past `limit` bytes
+ */
+function readBody(request: IncomingMessage, limit: number): Promise<Buffer> {
+    // A refused upload may still be arriving, the connection is dropped after answering
+    const tooLarge = () => new HttpError(413, `Request body exceeds ${limit} bytes`, { Connection: "close" });
+    if (Number(request.headers["content-length"]) > limit) {
+        return Promise.reject(tooLarge());
+    }
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > limit) {
+                request.off("data", onData);
+                reject(tooLarge());
+            } else {
+                chunks.push(chunk);
+            }
+        };
+        request.on("data", onData);
+        request.on("end", () => resolve(Buffer.concat(chunks)));
+        request.on("error", reject);
+    });
+}
+
+/**
+ * Decode the image of a raw or multipart body
+ */
+function readImage(body: Buffer, contentType = ""): ImageInput {
+    let bytes = body;
+    if (/^multipart\/form-data/i.test(contentType)) {
+        let parts;
+        try {
+            parts = parseMultipart(body, contentType);
+        } catch (error) {
+            throw new HttpError(400, (error as Error).message);
+        }
+        const part =
+            parts.find((p) => p.name !== undefined && IMAGE_FIELDS.includes(p.name)) ??
+            parts.find((p) => p.filename !== undefined);
+        if (!part) {
+            throw new HttpError(400, `Multipart body without a file or an ${IMAGE_FIELDS.join(" or ")} field`);
+        }
+        bytes = part.data;
+    }
+    if (!bytes.length) {
+        throw new HttpError(400, "Request body is empty, expected an image");
+    }
+    try {
+        return decodeImage(bytes);
+    } catch (error) {
+        // Truncated images may fail past the checks of the decoders
+        throw new HttpError(400, (error as Error).message);
+    }
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    response.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+    response.end(JSON.stringify(body));
+}
+
+function sendError(response: ServerResponse, error: unknown): void {
+    if (error instanceof OcrAbortError || response.headersSent) {
+        // The client is gone, or the answer already started
+        response.destroy();
+        return;
+    }
+    const message = (error as Error)?.message ?? String(error);
+    if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: message }, error.headers);
+    } else if (error instanceof QueueFullError) {
+        // The refused body may not have been read, the connection is dropped after answering
+        sendJson(response, 503, { error: `Server busy: ${message}` }, { "Retry-After": "1", Connection: "close" });
+    } else {
+        sendJson(response, 500, { error: message });
+    }
+}
@@ -0,0 +1,362 @@
+import type { PatternAutomaton } from "./pattern";
+import type { CharacterTrie, TrieNode } from "./trie";
+
+/**
+ * Probability below which a class is not considered as an extension of a beam
+ */
+const MIN_CANDIDATE_PROBABILITY = 1e-4;
+
+/**
+ * Maximum number of classes considered per timestep
+ */
+const MAX_CANDIDATES_PER_TIMESTEP = 16;
+
+export interface BeamSearchOptions {
+    /** Character of every output class, index 0 being the CTC blank. */
+    dictionary: string[];
+    /** Number of prefixes kept after every timestep. */
+    beamWidth: number;
+    /** Number of best hypotheses returned. */
+    topK: number;
+    /** Restrict the decoder to these characters. */
+    charWhiteSet?: Set<string>;
+    /** Known vocabulary. Words are separated by whitespace in the decoded text. */
+    lexicon?: CharacterTrie;
+    /**
+     * - `"constrain"`: every word must be in the lexicon.
+     * - `"boost"`: words found in the lexicon get `lexiconWeight` added per character.
+     */
+    lexiconMode?: "constrain" | "boost";
+    /** Log-probability bonus per character of a lexicon word in `"boost"` mode. */
+    lexiconWeight?: number;
+}
+
+export interface BeamCharacter {
+    char: string;
+    confidence: number;
+    timestep: number;
+}
+
+export interface BeamHypothesis {
+    text: string;
+    /** Natural log of the path probability, including any lexicon bonus. */
+    score: number;
+    characters: BeamCharacter[];
+}
+
+interface Beam {
+    classes: number[];
+    characters: BeamCharacter[];
+    logBlank: number;
+    logNonBlank: number;
+    /** Current trie position, `null` once the word has left the lexicon. */
+    node: TrieNode | null;
+    /** Bonus accumulated by completed lexicon words. */
+    bonus: number;
+    /** Bonus accumulated by the word being decoded. */
+    wordBonus: number;
+}
+
+function logSumExp(a: number, b: number): number {
+    if (a === -Infinity) return b;
+    if (b === -Infinity) return a;
+    const max = Math.max(a, b);
+    return max + Math.log(Math.exp(a - max) + Math.exp(b - max));
+}
+
+function isSeparator(char: string): boolean {
+    return /\s/.test(char);
+}
+
+/**
+ * CTC prefix beam search over per-timestep class probabilities.
+ * @param probabilities Model output of shape `[sequenceLength, numClasses]`, already softmaxed
+ * @returns The best hypotheses, sorted by descending score
+ */
+export function ctcPrefixBeamSearch(
+    probabilities: Float32Array,
+    sequenceLength: number,
+    numClasses: number,
+    options: BeamSearchOptions,
+): BeamHypothesis[] {
+    const { dictionary, beamWidth, charWhiteSet, lexicon, lexiconMode = "boost", lexiconWeight = 0 } = options;
+
+    let beams = new Map<string, Beam>();
+    beams.set("", {
+        classes: [],
+        characters: [],
+        logBlank: 0,
+        logNonBlank: -Infinity,
+        node: lexicon?.root ?? null,
+        bonus: 0,
+        wordBonus: 0,
+    });
+
+    for (let t = 0; t < sequenceLength; t++) {
+        const frame = probabilities.subarray(t * numClasses, (t + 1) * numClasses);
+        const candidates = selectCandidates(frame, dictionary, charWhiteSet);
+        const next = new Map<string, Beam>();
+
+        const entry = (key: string, template: Beam): Beam => {
+            let beam = next.get(key);
+            if (!beam) {
+                beam = { ...template, logBlank: -Infinity, logNonBlank: -Infinity };
+                next.set(key, beam);
+            }
+            return beam;
+        };
+
+        for (const [key, beam] of beams) {
+            const logTotal = logSumExp(beam.logBlank, beam.logNonBlank);
+
+            // Blank keeps the prefix unchanged
+            const stay = entry(key, beam);
+            stay.logBlank = logSumExp(stay.logBlank, logTotal + Math.log(frame[0]));
+
+            const last = beam.classes[beam.classes.length - 1];
+            for (const index of candidates) {
+                const logP = Math.log(frame[index]);
+                if (index === last) {
+                    // Repeated class without a blank in between collapses into the same character
+                    stay.logNonBlank = logSumExp(stay.logNonBlank, beam.logNonBlank + logP);
+                    const lastCharacter = stay.characters[stay.characters.length - 1];
+                    if (lastCharacter && frame[index] > lastCharacter.confidence) {
+                        stay.characters = [
+                            ...stay.characters.slice(0, -1),
+                            { ...lastCharacter, confidence: frame[index] },
+                        ];
+                    }
+                }
+
+                const char = dictionary[index] ?? "";
+                const extension = extendLexicon(beam, char, lexicon, lexiconMode, lexiconWeight);
+                if (!extension) continue;
+
+                const source = index === last ? beam.logBlank : logTotal;
+                if (source === -Infinity) continue;
+                const extendedKey = `${key}\u0000${index}`;
+                const extended =
+                    next.get(extendedKey) ??
+                    entry(extendedKey, {
+                        ...beam,
+                        ...extension,
+                        classes: [...beam.classes, index],
+                        characters: [...beam.characters, { char, confidence: frame[index], timestep: t }],
+                    });
+                extended.logNonBlank = logSumExp(extended.logNonBlank, source + logP);
+            }
+        }
+
+        beams = new Map(
+            [...next.entries()].sort(([, a], [, b]) => beamScore(b) - beamScore(a)).slice(0, Math.max(1, beamWidth)),
+        );
+    }
+
+    const finals: BeamHypothesis[] = [];
+    for (const beam of beams.values()) {
+        const completion = completeWord(beam, lexicon, lexiconMode);
+        if (completion === null) continue;
+        finals.push({
+            text: beam.characters.map((c) => c.char).join(""),
+            score: logSumExp(beam.logBlank, beam.logNonBlank) + beam.bonus + completion,
+            characters: beam.characters,
+        });
+    }
+    return finals.sort((a, b) => b.score - a.score).slice(0, Math.max(1, options.topK));
+}
+
+/**
+ * Classes worth extending a beam with at this timestep
+ */
+function selectCandidates(frame: Float32Array, dictionary: string[], charWhiteSet?: Set<string>): number[] {
+    const candidates: number[] = [];
+    for (let index = 1; index < frame.length; index++) {
+        if (frame[index] < MIN_CANDIDATE_PROBABILITY) continue;
+        if (charWhiteSet && !charWhiteSet.has(dictionary[index])) continue;
+        candidates.push(index);
+    }
+    return candidates.sort((a, b) => frame[b] - frame[a]).slice(0, MAX_CANDIDATES_PER_TIMESTEP);
+}
+
+/**
+ * Ranking score of a beam during the search
+ */
+function beamScore(beam: Beam): number {
+    return logSumExp(beam.logBlank, beam.logNonBlank) + beam.bonus + beam.wordBonus;
+}
+
+/**
+ * Trie state after appending a character, or `null` when the lexicon forbids it
+ */
+function extendLexicon(
+    beam: Beam,
+    char: string,
+    lexicon: CharacterTrie | undefined,
+    mode: "constrain" | "boost",
+    weight: number,
+): Pick<Beam, "node" | "bonus" | "wordBonus"> | null {
+    if (!lexicon) {
+        return { node: null, bonus: beam.bonus, wordBonus: 0 };
+    }
+    if (isSeparator(char)) {
+        const completion = completeWord(beam, lexicon, mode);
+        if (completion === null) return null;
+        return { node: lexicon.root, bonus: beam.bonus + completion, wordBonus: 0 };
+    }
+    const child = beam.node?.children.get(char) ?? null;
+    if (!child && mode === "constrain") {
+        return null;
+    }
+    return {
+        node: child,
+        bonus: beam.bonus,
+        wordBonus: child ? beam.wordBonus + weight : 0,
+    };
+}
+
+/**
+ * Bonus earned by the word a beam ends with, or `null` if the lexicon rejects it.
+ * Words that left the lexicon or stopped halfway lose their provisional bonus.
+ */
+function completeWord(beam: Beam, lexicon: CharacterTrie | undefined, mode: "constrain" | "boost"): number | null {
+    if (!lexicon) return 0;
+    const atWordStart = beam.node === lexicon.root;
+    const complete = !!beam.node?.terminal;
+    if (mode === "constrain") {
+        return complete || atWordStart ? 0 : null;
+    }
+    return complete ? beam.wordBonus : 0;
+}
+
+/**
+ * Classes a pattern state may accept before falling back to the model's top candidates per timestep
+ */
+const MAX_PATTERN_CLASSES = 64;
+
+/**
+ * Lowest probability at which the pattern search emits a character. Softmax output gives every
+ * class some probability, so without it any pattern would be satisfied by characters the model
+ * does not see at all.
+ */
+const MIN_PATTERN_PROBABILITY = 0.01;
+
+/**
+ * Number of (automaton state, last class) paths kept per timestep by the pattern search
+ */
+const PATTERN_BEAM_WIDTH = 128;
+
+export interface PatternSearchOptions {
+    /** Character of every output class, index 0 being the CTC blank. */
+    dictionary: string[];
+    /** Automaton the collapsed label sequence has to match. */
+    automaton: PatternAutomaton;
+    /** Restrict the decoder to these characters. */
+    charWhiteSet?: Set<string>;
+}
+
+interface PatternPath {
+    state: number;
+    /** Class of the previous timestep, `0` after a blank. */
+    last: number;
+    logP: number;
+    characters: BeamCharacter[];
+}
+
+/**
+ * Best CTC path whose collapsed text matches the pattern automaton (Viterbi over
+ * automaton states), or `null` if no path can satisfy it with characters the model supports.
+ * @param probabilities Model output of shape `[sequenceLength, numClasses]`, already softmaxed
+ */
+export function ctcPatternSearch(
+    probabilities: Float32Array,
+    sequenceLength: number,
+    numClasses: number,
+    options: PatternSearchOptions,
+): BeamHypothesis | null {
+    const { dictionary, automaton, charWhiteSet } = options;
+
+    const allowedCache = new Map<number, number[]>();
+    const allowedClasses = (state: number): number[] => {
+        let allowed = allowedCache.get(state);
+        if (!allowed) {
+            allowed = [];
+            for (let index = 1; index < numClasses; index++) {
+                const char = dictionary[index];
+                if (!char || (charWhiteSet && !charWhiteSet.has(char))) continue;
+                if (automaton.step(state, char) !== null) allowed.push(index);
+            }
+            allowedCache.set(state, allowed);
+        }
+        return allowed;
+    };
+
+    let paths = new Map<string, PatternPath>();
+    paths.set(`${automaton.start}:0`, { state: automaton.start, last: 0, logP: 0, characters: [] });
+
+    for (let t = 0; t < sequenceLength; t++) {
+        const frame = probabilities.subarray(t * numClasses, (t + 1) * numClasses);
+        let frameCandidates: number[] | null = null;
+        const next = new Map<string, PatternPath>();
+        const offer = (path: PatternPath) => {
+            const key = `${path.state}:${path.last}`;
+            const existing = next.get(key);
+            if (!existing || path.logP > existing.logP) next.set(key, path);
+        };
+
+        for (const path of paths.values()) {
+            offer({ ...path, last: 0, logP: path.logP + Math.log(frame[0]) });
+
+            if (path.last !== 0) {
+                const characters = [...path.characters];
+                const lastCharacter = characters[characters.length - 1];
+                if (frame[path.last] > lastCharacter.confidence) {
+                    characters[characters.length - 1] = { ...lastCharacter, confidence: frame[path.last] };
+                }
+                offer({ ...path, logP: path.logP + Math.log(frame[path.last]), characters });
+            }
+
+            let candidates = allowedClasses(path.state);
+            if (candidates.length > MAX_PATTERN_CLASSES) {
+                frameCandidates ??= selectCandidates(frame, dictionary, charWhiteSet);
+                candidates = frameCandidates;
+            }
+            for (const index of candidates) {
+                // The same class needs a blank in between to be emitted twice
+                if (index === path.last || frame[index] < MIN_PATTERN_PROBABILITY) continue;
+                const state = automaton.step(path.state, dictionary[index]);
+                if (state === null) continue;
+                offer({
+                    state,
+                    last: index,
+                    logP: path.logP + Math.log(frame[index]),
+                    characters: [
+                        ...path.characters,
+                        { char: dictionary[index], confidence: frame[index], timestep: t },
+                    ],
+                });
+            }
+        }
+
+        paths = new Map(
+            [...next.entries()]
+                .filter(([, path]) => path.logP > -Infinity)
+                .sort(([, a], [, b]) => b.logP - a.logP)
+                .slice(0, PATTERN_BEAM_WIDTH),
+        );
+    }
+
+    let best: PatternPath | null = null;
+    for (const path of paths.values()) {
+        if (automaton.isAccepting(path.state) && (!best || path.logP > best.logP)) {
+            best = path;
+        }
+    }
+    if (!best) {
+        return null;
+    }
+    return {
+        text: best.characters.map((c) => c.char).join(""),
+        score: best.logP,
+        characters: best.characters,
+    };
+}
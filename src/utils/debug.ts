@@ -0,0 +1,83 @@
+import type { Box } from "../interface";
+import { GLYPH_ADVANCE, GLYPH_HEIGHT } from "./font";
+import { Image } from "./image";
+
+/**
+ * Box colors of the annotated image, cycled by result index
+ */
+const PALETTE = [
+    [230, 25, 75],
+    [60, 180, 75],
+    [0, 130, 200],
+    [245, 130, 48],
+    [145, 30, 180],
+    [0, 160, 160],
+    [240, 50, 230],
+    [128, 128, 0],
+];
+
+/**
+ * A labeled box drawn by {@link annotate}
+ */
+export interface Annotation {
+    box: Box;
+    text?: string;
+}
+
+/**
+ * Color a probability map with the jet colormap: blue for 0, through green and yellow, to red for 1
+ */
+export function heatmap(probabilities: Float32Array, width: number, height: number): Image {
+    const data = new Uint8Array(width * height * 4);
+    const channel = (value: number, center: number) =>
+        Math.round(255 * Math.min(1, Math.max(0, 1.5 - Math.abs(4 * value - center))));
+    for (let i = 0; i < width * height; i++) {
+        const value = Math.min(1, Math.max(0, probabilities[i]));
+        data.set([channel(value, 3), channel(value, 2), channel(value, 1), 255], i * 4);
+    }
+    return new Image(width, height, 4, data);
+}
+
+/**
+ * Draw every box (or its rotated quad) on an RGBA copy of the image, labeled with its index
+ * and text. Line width and label size grow with the image.
+ */
+export function annotate(image: Image, annotations: Annotation[]): Image {
+    const annotated = image.toRgba();
+    const size = Math.max(image.width, image.height);
+    const lineWidth = Math.max(1, Math.round(size / 500));
+    const scale = Math.max(1, Math.round(size / 800));
+    const labelHeight = (GLYPH_HEIGHT + 2) * scale;
+
+    annotations.forEach(({ box, text }, index) => {
+        const color = [...PALETTE[index % PALETTE.length], 255];
+        if (box.points) {
+            box.points.forEach((from, i) => {
+                annotated.line({ from, to: box.points![(i + 1) % 4], lineWidth, color });
+            });
+        } else {
+            annotated.rect({
+                x: Math.round(box.x),
+                y: Math.round(box.y),
+                width: Math.round(box.width),
+                height: Math.round(box.height),
+                lineWidth,
+                color,
+            });
+        }
+
+        // Labels sit above the box, or inside it at the top edge of the image
+        const label = text === undefined ? `${index}` : `${index}: ${text}`;
+        const x = Math.max(0, Math.round(box.x));
+        const y = box.y >= labelHeight ? Math.round(box.y) - labelHeight : Math.round(box.y);
+        annotated.fillRect({
+            x,
+            y,
+            width: (Array.from(label).length * GLYPH_ADVANCE + 1) * scale,
+            height: labelHeight,
+            color,
+        });
+        annotated.text({ x: x + scale, y: y + scale, text: label, scale, color: [255, 255, 255, 255] });
+    });
+    return annotated;
+}
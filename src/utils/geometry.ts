@@ -0,0 +1,444 @@
+import type { AffineMatrix, Box, Point, Quad, TextDirection } from "../interface";
+
+/**
+ * Compute the convex hull of a point set (Andrew's monotone chain).
+ * The hull is returned in counter-clockwise order without repeating the first point.
+ */
+export function convexHull(points: Point[]): Point[] {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    if (sorted.length <= 2) {
+        return sorted;
+    }
+    const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+    const lower: Point[] = [];
+    for (const p of sorted) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+            lower.pop();
+        }
+        lower.push(p);
+    }
+    const upper: Point[] = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        const p = sorted[i];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+            upper.pop();
+        }
+        upper.push(p);
+    }
+    lower.pop();
+    upper.pop();
+    return lower.concat(upper);
+}
+
+/**
+ * Find the minimum-area enclosing rectangle of a point set using rotating calipers
+ * over the edges of its convex hull.
+ * @returns The four corners ordered as returned by {@link orderQuadPoints}.
+ */
+export function minAreaRect(points: Point[]): Quad {
+    const hull = convexHull(points);
+    if (hull.length === 0) {
+        throw new Error("Cannot compute the minimum area rectangle of an empty point set");
+    }
+    if (hull.length < 3) {
+        const box = boundingBox(hull);
+        return rectToQuad(box);
+    }
+
+    let best: { area: number; ux: number; uy: number; minU: number; maxU: number; minV: number; maxV: number } | null =
+        null;
+    for (let i = 0; i < hull.length; i++) {
+        const a = hull[i];
+        const b = hull[(i + 1) % hull.length];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length === 0) continue;
+        const ux = (b.x - a.x) / length;
+        const uy = (b.y - a.y) / length;
+
+        let minU = Infinity,
+            maxU = -Infinity,
+            minV = Infinity,
+            maxV = -Infinity;
+        for (const p of hull) {
+            const u = p.x * ux + p.y * uy;
+            const v = -p.x * uy + p.y * ux;
+            minU = Math.min(minU, u);
+            maxU = Math.max(maxU, u);
+            minV = Math.min(minV, v);
+            maxV = Math.max(maxV, v);
+        }
+        const area = (maxU - minU) * (maxV - minV);
+        if (!best || area < best.area) {
+            best = { area, ux, uy, minU, maxU, minV, maxV };
+        }
+    }
+
+    const { ux, uy, minU, maxU, minV, maxV } = best!;
+    const toPoint = (u: number, v: number): Point => ({ x: u * ux - v * uy, y: u * uy + v * ux });
+    return orderQuadPoints([toPoint(minU, minV), toPoint(maxU, minV), toPoint(maxU, maxV), toPoint(minU, maxV)]);
+}
+
+/**
+ * Order four corner points as top-left, top-right, bottom-right, bottom-left,
+ * following PaddleOCR's `get_mini_boxes`.
+ */
+export function orderQuadPoints(points: Point[]): Quad {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const [leftTop, leftBottom] = sorted[0].y <= sorted[1].y ? [sorted[0], sorted[1]] : [sorted[1], sorted[0]];
+    const [rightTop, rightBottom] = sorted[2].y <= sorted[3].y ? [sorted[2], sorted[3]] : [sorted[3], sorted[2]];
+    return [leftTop, rightTop, rightBottom, leftBottom];
+}
+
+/**
+ * Grow a rectangular quad along its own axes.
+ * @param quad Rectangle corners ordered top-left, top-right, bottom-right, bottom-left
+ * @param horizontal Distance added to each side along the top edge direction
+ * @param vertical Distance added to each side along the left edge direction
+ */
+export function expandQuad(quad: Quad, horizontal: number, vertical: number): Quad {
+    const [tl, tr, , bl] = quad;
+    const width = distance(tl, tr);
+    const height = distance(tl, bl);
+    const ux = width ? (tr.x - tl.x) / width : 1;
+    const uy = width ? (tr.y - tl.y) / width : 0;
+    const vx = height ? (bl.x - tl.x) / height : 0;
+    const vy = height ? (bl.y - tl.y) / height : 1;
+
+    const cx = quad.reduce((sum, p) => sum + p.x, 0) / 4;
+    const cy = quad.reduce((sum, p) => sum + p.y, 0) / 4;
+    const hw = width / 2 + horizontal;
+    const hh = height / 2 + vertical;
+    const corner = (su: number, sv: number): Point => ({
+        x: cx + su * hw * ux + sv * hh * vx,
+        y: cy + su * hw * uy + sv * hh * vy,
+    });
+    return [corner(-1, -1), corner(1, -1), corner(1, 1), corner(-1, 1)];
+}
+
+/**
+ * Expand a rectangular quad the way PaddleOCR's DB post-process does with pyclipper:
+ * every side is offset by `area * ratio / perimeter`.
+ */
+export function unclipQuad(quad: Quad, ratio: number): Quad {
+    const perimeter = quad.reduce((sum, p, i) => sum + distance(p, quad[(i + 1) % 4]), 0);
+    if (perimeter === 0) {
+        return quad;
+    }
+    const offset = (polygonArea(quad) * ratio) / perimeter;
+    return expandQuad(quad, offset, offset);
+}
+
+/**
+ * Area of a simple polygon (shoelace formula).
+ */
+export function polygonArea(points: Point[]): number {
+    let sum = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        sum += a.x * b.y - b.x * a.y;
+    }
+    return Math.abs(sum) / 2;
+}
+
+/**
+ * Test whether a point lies inside a convex polygon, boundary included.
+ */
+export function isPointInConvexPolygon(point: Point, polygon: Point[]): boolean {
+    let sign = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+        if (cross === 0) continue;
+        if (sign === 0) {
+            sign = Math.sign(cross);
+        } else if (Math.sign(cross) !== sign) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Length of the shorter side of a rectangular quad.
+ */
+export function quadShortSide(quad: Quad): number {
+    const [tl, tr, , bl] = quad;
+    return Math.min(distance(tl, tr), distance(tl, bl));
+}
+
+/**
+ * Point at relative position `(u, v)` inside a quad, by bilinear interpolation of its corners.
+ * `(0, 0)` is the top-left corner and `(1, 1)` the bottom-right one.
+ */
+export function quadPointAt(quad: Quad, u: number, v: number): Point {
+    const [tl, tr, br, bl] = quad;
+    const top = { x: tl.x + (tr.x - tl.x) * u, y: tl.y + (tr.y - tl.y) * u };
+    const bottom = { x: bl.x + (br.x - bl.x) * u, y: bl.y + (br.y - bl.y) * u };
+    return { x: top.x + (bottom.x - top.x) * v, y: top.y + (bottom.y - top.y) * v };
+}
+
+/**
+ * Size of the upright strip a quad is warped into: the longer of each pair of opposite edges.
+ */
+export function quadSize(quad: Quad): { width: number; height: number } {
+    const [tl, tr, br, bl] = quad;
+    return {
+        width: Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br)))),
+        height: Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br)))),
+    };
+}
+
+/**
+ * Reading direction of a text line from the shape of its crop: lines at least
+ * `verticalRatio` times taller than wide are read top to bottom.
+ */
+export function textLineDirection(box: Box, verticalRatio: number): TextDirection {
+    const { width, height } = box.points ? quadSize(box.points) : box;
+    return height >= width * verticalRatio ? "vertical" : "horizontal";
+}
+
+/**
+ * Integer bounding box of a point set, clamped to `[0, maxWidth] x [0, maxHeight]` when given.
+ */
+export function boundingBox(points: Point[], maxWidth = Infinity, maxHeight = Infinity): Box {
+    const minX = Math.max(0, Math.floor(Math.min(...points.map((p) => p.x))));
+    const minY = Math.max(0, Math.floor(Math.min(...points.map((p) => p.y))));
+    const maxX = Math.min(maxWidth, Math.ceil(Math.max(...points.map((p) => p.x))));
+    const maxY = Math.min(maxHeight, Math.ceil(Math.max(...points.map((p) => p.y))));
+    return {
+        x: minX,
+        y: minY,
+        width: Math.max(0, maxX - minX),
+        height: Math.max(0, maxY - minY),
+    };
+}
+
+/**
+ * Corners of an axis-aligned rectangle as a quad.
+ */
+export function rectToQuad(box: Box): Quad {
+    const { x, y, width, height } = box;
+    return [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+    ];
+}
+
+/**
+ * Box of a caller-supplied text region. Rectangles are clipped to the image; quads are kept
+ * as the box `points`, pixels outside the image being sampled from its border when cropping.
+ */
+export function regionBox(region: Box | Quad, width: number, height: number): Box {
+    if (Array.isArray(region)) {
+        return { ...boundingBox(region, width, height), points: region };
+    }
+    if (region.points) {
+        return region;
+    }
+    return boundingBox(rectToQuad(region), width, height);
+}
+
+/**
+ * Axis-aligned box covering all given boxes.
+ */
+export function enclosingBox(boxes: Box[]): Box {
+    return boundingBox(boxes.flatMap((box) => rectToQuad(box)));
+}
+
+/**
+ * Area of the intersection of two boxes divided by the area of their union, 0 when they do not overlap.
+ */
+export function intersectionOverUnion(a: Box, b: Box): number {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (width <= 0 || height <= 0) {
+        return 0;
+    }
+    const intersection = width * height;
+    return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/**
+ * Shift a box and its quad corners by the given offset.
+ */
+export function translateBox(box: Box, dx: number, dy: number): Box {
+    const translated: Box = { x: box.x + dx, y: box.y + dy, width: box.width, height: box.height };
+    if (box.points) {
+        translated.points = box.points.map((p) => ({ x: p.x + dx, y: p.y + dy })) as Quad;
+    }
+    return translated;
+}
+
+/**
+ * Clip a box and its quad corners to `[0, width] x [0, height]`.
+ */
+export function clampBox(box: Box, width: number, height: number): Box {
+    const clampX = (x: number) => Math.min(width, Math.max(0, x));
+    const clampY = (y: number) => Math.min(height, Math.max(0, y));
+    const x = clampX(box.x);
+    const y = clampY(box.y);
+    const clamped: Box = { x, y, width: clampX(box.x + box.width) - x, height: clampY(box.y + box.height) - y };
+    if (box.points) {
+        clamped.points = box.points.map((p) => ({ x: clampX(p.x), y: clampY(p.y) })) as Quad;
+    }
+    return clamped;
+}
+
+/**
+ * Map a point through a clockwise rotation of the whole image by a multiple of 90°,
+ * matching `Image.rotate`.
+ * @param width Width of the image before rotation
+ * @param height Height of the image before rotation
+ */
+export function rotatePoint(point: Point, angle: 0 | 90 | 180 | 270, width: number, height: number): Point {
+    switch (angle) {
+        case 90:
+            return { x: height - point.y, y: point.x };
+        case 180:
+            return { x: width - point.x, y: height - point.y };
+        case 270:
+            return { x: point.y, y: width - point.x };
+        default:
+            return { x: point.x, y: point.y };
+    }
+}
+
+/**
+ * Map a box through a clockwise rotation of the whole image, keeping the
+ * order of its quad corners so they still follow the text direction.
+ * @param width Width of the image before rotation
+ * @param height Height of the image before rotation
+ */
+export function rotateBox(box: Box, angle: 0 | 90 | 180 | 270, width: number, height: number): Box {
+    const rotatedWidth = angle === 90 || angle === 270 ? height : width;
+    const rotatedHeight = angle === 90 || angle === 270 ? width : height;
+    const corners = rectToQuad(box).map((p) => rotatePoint(p, angle, width, height));
+    const rotated: Box = boundingBox(corners, rotatedWidth, rotatedHeight);
+    if (box.points) {
+        rotated.points = box.points.map((p) => rotatePoint(p, angle, width, height)) as Quad;
+    }
+    return rotated;
+}
+
+export function distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Solve the 3x3 homography mapping the four `src` points onto the four `dst` points.
+ * @returns The matrix in row-major order, with the last element normalized to 1.
+ */
+export function getPerspectiveTransform(src: Point[], dst: Point[]): number[] {
+    const a: number[][] = [];
+    const b: number[] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = src[i];
+        const { x: u, y: v } = dst[i];
+        a.push([x, y, 1, 0, 0, 0, -x * u, -y * u]);
+        b.push(u);
+        a.push([0, 0, 0, x, y, 1, -x * v, -y * v]);
+        b.push(v);
+    }
+    return [...solveLinearSystem(a, b), 1];
+}
+
+/**
+ * Apply a row-major 3x3 homography to a point.
+ */
+export function applyPerspectiveTransform(matrix: number[], point: Point): Point {
+    const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = matrix;
+    const w = m6 * point.x + m7 * point.y + m8;
+    return {
+        x: (m0 * point.x + m1 * point.y + m2) / w,
+        y: (m3 * point.x + m4 * point.y + m5) / w,
+    };
+}
+
+/**
+ * Apply an affine transform to a point.
+ */
+export function applyAffineTransform(matrix: AffineMatrix, point: Point): Point {
+    const [a, b, c, d, e, f] = matrix;
+    return { x: a * point.x + b * point.y + c, y: d * point.x + e * point.y + f };
+}
+
+/**
+ * Inverse of an affine transform.
+ */
+export function invertAffineTransform(matrix: AffineMatrix): AffineMatrix {
+    const [a, b, c, d, e, f] = matrix;
+    const determinant = a * e - b * d;
+    if (!determinant) {
+        throw new Error("Affine transform is not invertible");
+    }
+    return [
+        e / determinant,
+        -b / determinant,
+        (b * f - c * e) / determinant,
+        -d / determinant,
+        a / determinant,
+        (c * d - a * f) / determinant,
+    ];
+}
+
+/**
+ * Least-squares affine transform mapping the `src` points onto the `dst` points.
+ * Needs at least three points that are not on a line.
+ */
+export function estimateAffineTransform(src: Point[], dst: Point[]): AffineMatrix {
+    // Normal equations of [x, y, 1] · [a, b, c] = u, shared by the two rows of the matrix
+    const normal = [0, 1, 2].map(() => [0, 0, 0]);
+    const targetX = [0, 0, 0];
+    const targetY = [0, 0, 0];
+    src.forEach(({ x, y }, i) => {
+        const row = [x, y, 1];
+        for (let r = 0; r < 3; r++) {
+            for (let c = 0; c < 3; c++) {
+                normal[r][c] += row[r] * row[c];
+            }
+            targetX[r] += row[r] * dst[i].x;
+            targetY[r] += row[r] * dst[i].y;
+        }
+    });
+    return [...solveLinearSystem(normal, targetX), ...solveLinearSystem(normal, targetY)] as AffineMatrix;
+}
+
+/**
+ * Map a box through an affine transform. The result carries the transformed corners
+ * as `points`, with the rectangle fields holding their bounding box.
+ */
+export function transformBox(box: Box, matrix: AffineMatrix): Box {
+    const points = (box.points ?? rectToQuad(box)).map((p) => applyAffineTransform(matrix, p)) as Quad;
+    return { ...boundingBox(points), points };
+}
+
+/**
+ * Gaussian elimination with partial pivoting.
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) {
+            throw new Error("Cannot solve transform: points are degenerate");
+        }
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) {
+                m[row][k] -= factor * m[col][k];
+            }
+        }
+    }
+    return m.map((row, i) => row[n] / row[i]);
+}
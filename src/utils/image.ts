@@ -1,4 +1,7 @@
-import { Box } from "../interface.js";
+import { AffineMatrix, Box, ClaheOptions, DenoiseOptions, Point, Quad, SauvolaOptions } from "../interface.js";
+import { encodePng } from "../encoders/png.js";
+import { GLYPH_ADVANCE, GLYPH_HEIGHT, GLYPH_WIDTH, glyph } from "./font.js";
+import { applyPerspectiveTransform, getPerspectiveTransform, quadSize } from "./geometry.js";
 
 interface CropOptions {
     x: number;
@@ -42,6 +45,35 @@ interface ContoursOptions {
     minArea?: number;
 }
 
+interface RotateOptions {
+    angle: 0 | 90 | 180 | 270;
+}
+
+interface WarpPerspectiveOptions {
+    points: Quad;
+    width?: number;
+    height?: number;
+}
+
+/**
+ * 连通域信息
+ */
+export interface Region {
+    box: Box;
+    area: number;
+    /** 连通域边界像素的四个角点，用于计算凸包和最小外接矩形 */
+    points: Point[];
+}
+
+interface WarpAffineOptions {
+    /** 将目标图像坐标映射到源图像坐标的仿射矩阵 */
+    matrix: AffineMatrix;
+    width: number;
+    height: number;
+    /** 越界像素的填充颜色，默认白色 */
+    color?: number[];
+}
+
 interface RectOptions {
     x: number;
     y: number;
@@ -51,6 +83,30 @@ interface RectOptions {
     color?: number[];
 }
 
+interface FillRectOptions {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    color: number[];
+}
+
+interface LineOptions {
+    from: Point;
+    to: Point;
+    lineWidth?: number;
+    color: number[];
+}
+
+interface TextOptions {
+    x: number;
+    y: number;
+    text: string;
+    /** 字形放大倍数，默认1，即 5x7 像素 */
+    scale?: number;
+    color: number[];
+}
+
 export class Image {
     width: number;
     height: number;
@@ -96,6 +152,45 @@ export class Image {
         return new Image(width, height, this.channels, croppedData);
     }
 
+    /**
+     * 按检测框截取文字区域，带有角点的旋转框使用透视变换拉正
+     */
+    cropBox(box: Box) {
+        return box.points ? this.warpPerspective({ points: box.points }) : this.crop(box);
+    }
+
+    /**
+     * 顺时针旋转 90 的整数倍，无插值、无损
+     * @param options
+     */
+    rotate(options: RotateOptions): Image {
+        const { angle } = options;
+        const { width, height, channels } = this;
+        const swap = angle === 90 || angle === 270;
+        const dstW = swap ? height : width;
+        const dstH = swap ? width : height;
+        const out = new Uint8Array(this.data.length);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let dx = x,
+                    dy = y;
+                if (angle === 90) {
+                    dx = height - 1 - y;
+                    dy = x;
+                } else if (angle === 180) {
+                    dx = width - 1 - x;
+                    dy = height - 1 - y;
+                } else if (angle === 270) {
+                    dx = y;
+                    dy = width - 1 - x;
+                }
+                const srcIndex = (y * width + x) * channels;
+                out.set(this.data.subarray(srcIndex, srcIndex + channels), (dy * dstW + dx) * channels);
+            }
+        }
+        return new Image(dstW, dstH, channels, out);
+    }
+
     /**
      * 将图片缩放到指定的尺寸w
      * @param options
@@ -359,7 +454,15 @@ export class Image {
      * @returns
      */
     contours(options: ContoursOptions = {}): Box[] {
-        // Suzuki/Abe 边界跟踪算法，输入为灰度图，输出 Box[]
+        return this.regions(options).map((region) => region.box);
+    }
+
+    /**
+     * 获取图像中的连通域，包含外接矩形、面积和边界点
+     * @returns
+     */
+    regions(options: ContoursOptions = {}): Region[] {
+        // Suzuki/Abe 边界跟踪算法，输入为灰度图，输出 Region[]
         const minArea = options.minArea ?? 1;
         const width = this.width;
         const height = this.height;
@@ -370,8 +473,9 @@ export class Image {
         }
         // 轮廓提取
         const visited = new Uint8Array(width * height);
-        const boxes: Box[] = [];
+        const regions: Region[] = [];
         const at = (x: number, y: number) => y * width + x;
+        const isForeground = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height && bin[at(x, y)];
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
                 if (bin[at(x, y)] && !visited[at(x, y)]) {
@@ -381,15 +485,30 @@ export class Image {
                         maxX = x,
                         maxY = y,
                         area = 0;
+                    const points: Point[] = [];
                     const queue = [[x, y]];
                     visited[at(x, y)] = 1;
-                    while (queue.length) {
-                        const [cx, cy] = queue.shift()!;
+                    for (let head = 0; head < queue.length; head++) {
+                        const [cx, cy] = queue[head];
                         area++;
                         minX = Math.min(minX, cx);
                         minY = Math.min(minY, cy);
                         maxX = Math.max(maxX, cx);
                         maxY = Math.max(maxY, cy);
+                        // 边界像素：四邻域中存在背景
+                        if (
+                            !isForeground(cx - 1, cy) ||
+                            !isForeground(cx + 1, cy) ||
+                            !isForeground(cx, cy - 1) ||
+                            !isForeground(cx, cy + 1)
+                        ) {
+                            points.push(
+                                { x: cx, y: cy },
+                                { x: cx + 1, y: cy },
+                                { x: cx, y: cy + 1 },
+                                { x: cx + 1, y: cy + 1 },
+                            );
+                        }
                         for (const [dx, dy] of [
                             [-1, 0],
                             [1, 0],
@@ -402,31 +521,321 @@ export class Image {
                         ]) {
                             const nx = cx + dx,
                                 ny = cy + dy;
-                            if (
-                                nx >= 0 &&
-                                nx < width &&
-                                ny >= 0 &&
-                                ny < height &&
-                                bin[at(nx, ny)] &&
-                                !visited[at(nx, ny)]
-                            ) {
+                            if (isForeground(nx, ny) && !visited[at(nx, ny)]) {
                                 visited[at(nx, ny)] = 1;
                                 queue.push([nx, ny]);
                             }
                         }
                     }
                     if (area >= minArea) {
-                        boxes.push({
-                            x: minX,
-                            y: minY,
-                            width: maxX - minX + 1,
-                            height: maxY - minY + 1,
+                        regions.push({
+                            box: {
+                                x: minX,
+                                y: minY,
+                                width: maxX - minX + 1,
+                                height: maxY - minY + 1,
+                            },
+                            area,
+                            points,
                         });
                     }
                 }
             }
         }
-        return boxes;
+        return regions;
+    }
+
+    /**
+     * 计算每个像素的亮度（BT.601 加权），返回单通道数据
+     */
+    luminance(): Uint8Array {
+        const { width, height, channels, data } = this;
+        const out = new Uint8Array(width * height);
+        for (let i = 0, p = 0; i < out.length; i++, p += channels) {
+            out[i] = channels >= 3 ? Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) : data[p];
+        }
+        return out;
+    }
+
+    /**
+     * 用新的亮度生成图像，保留通道数和透明度
+     * shift 为 true 时颜色通道按亮度差平移以保留色彩，否则全部替换为灰度
+     */
+    private withLuminance(values: Uint8Array, shift: boolean): Image {
+        const { width, height, channels, data } = this;
+        const colors = channels >= 3 ? 3 : 1;
+        const original = shift ? this.luminance() : null;
+        const out = new Uint8Array(data);
+        for (let i = 0, p = 0; i < values.length; i++, p += channels) {
+            for (let c = 0; c < colors; c++) {
+                const value = original ? data[p + c] + values[i] - original[i] : values[i];
+                out[p + c] = value < 0 ? 0 : value > 255 ? 255 : value;
+            }
+        }
+        return new Image(width, height, channels, out);
+    }
+
+    /**
+     * 灰度化，颜色通道全部设为亮度，通道数不变
+     */
+    grayscale(): Image {
+        return this.withLuminance(this.luminance(), false);
+    }
+
+    /**
+     * 限制对比度的自适应直方图均衡化（CLAHE）
+     * 图像分块分别均衡化，块与块之间双线性插值，彩色图像按亮度变化平移各通道
+     * @param options
+     */
+    clahe(options: Required<ClaheOptions>): Image {
+        const { width, height } = this;
+        const gray = this.luminance();
+        const tilesX = Math.max(1, Math.min(Math.round(options.tiles), width));
+        const tilesY = Math.max(1, Math.min(Math.round(options.tiles), height));
+        const tileWidth = width / tilesX;
+        const tileHeight = height / tilesY;
+
+        // 1. 每个分块的直方图裁剪后累积，得到灰度映射表
+        const maps = new Uint8Array(tilesX * tilesY * 256);
+        const histogram = new Float64Array(256);
+        for (let ty = 0; ty < tilesY; ty++) {
+            for (let tx = 0; tx < tilesX; tx++) {
+                const x0 = Math.floor(tx * tileWidth);
+                const x1 = Math.floor((tx + 1) * tileWidth);
+                const y0 = Math.floor(ty * tileHeight);
+                const y1 = Math.floor((ty + 1) * tileHeight);
+                histogram.fill(0);
+                for (let y = y0; y < y1; y++) {
+                    for (let x = x0; x < x1; x++) histogram[gray[y * width + x]]++;
+                }
+                const count = (x1 - x0) * (y1 - y0);
+                const limit = Math.max(1, (options.clipLimit * count) / 256);
+                let excess = 0;
+                for (let v = 0; v < 256; v++) {
+                    if (histogram[v] > limit) {
+                        excess += histogram[v] - limit;
+                        histogram[v] = limit;
+                    }
+                }
+                // 裁掉的部分平均分配到所有灰度
+                const bonus = excess / 256;
+                const map = maps.subarray((ty * tilesX + tx) * 256, (ty * tilesX + tx + 1) * 256);
+                let sum = 0;
+                for (let v = 0; v < 256; v++) {
+                    sum += histogram[v] + bonus;
+                    map[v] = Math.min(255, Math.round((sum * 255) / count));
+                }
+            }
+        }
+
+        // 2. 按到相邻四个分块中心的距离插值
+        const out = new Uint8Array(width * height);
+        for (let y = 0; y < height; y++) {
+            const fy = (y + 0.5) / tileHeight - 0.5;
+            const ty = Math.floor(fy);
+            const ty0 = Math.max(ty, 0);
+            const ty1 = Math.min(ty + 1, tilesY - 1);
+            const wy = fy < 0 ? 0 : fy - ty;
+            for (let x = 0; x < width; x++) {
+                const fx = (x + 0.5) / tileWidth - 0.5;
+                const tx = Math.floor(fx);
+                const tx0 = Math.max(tx, 0);
+                const tx1 = Math.min(tx + 1, tilesX - 1);
+                const wx = fx < 0 ? 0 : fx - tx;
+                const v = gray[y * width + x];
+                const top = maps[(ty0 * tilesX + tx0) * 256 + v] * (1 - wx) + maps[(ty0 * tilesX + tx1) * 256 + v] * wx;
+                const bottom =
+                    maps[(ty1 * tilesX + tx0) * 256 + v] * (1 - wx) + maps[(ty1 * tilesX + tx1) * 256 + v] * wx;
+                out[y * width + x] = Math.round(top * (1 - wy) + bottom * wy);
+            }
+        }
+        return this.withLuminance(out, true);
+    }
+
+    /**
+     * Sauvola 自适应二值化，阈值 T = m * (1 + k * (s / R - 1))
+     * m、s 为窗口内亮度的均值和标准差，用积分图计算；结果为白底黑字
+     * @param options
+     */
+    sauvola(options: Required<SauvolaOptions>): Image {
+        const { width, height } = this;
+        const { k, dynamicRange } = options;
+        const gray = this.luminance();
+        const stride = width + 1;
+        const sums = new Float64Array(stride * (height + 1));
+        const squares = new Float64Array(stride * (height + 1));
+        for (let y = 0; y < height; y++) {
+            let rowSum = 0;
+            let rowSquare = 0;
+            for (let x = 0; x < width; x++) {
+                const v = gray[y * width + x];
+                rowSum += v;
+                rowSquare += v * v;
+                sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+                squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquare;
+            }
+        }
+        const half = Math.floor(options.windowSize / 2);
+        const out = new Uint8Array(width * height);
+        for (let y = 0; y < height; y++) {
+            const y0 = Math.max(0, y - half);
+            const y1 = Math.min(height, y + half + 1);
+            for (let x = 0; x < width; x++) {
+                const x0 = Math.max(0, x - half);
+                const x1 = Math.min(width, x + half + 1);
+                const count = (x1 - x0) * (y1 - y0);
+                const area = (table: Float64Array) =>
+                    table[y1 * stride + x1] -
+                    table[y0 * stride + x1] -
+                    table[y1 * stride + x0] +
+                    table[y0 * stride + x0];
+                const mean = area(sums) / count;
+                const deviation = Math.sqrt(Math.max(0, area(squares) / count - mean * mean));
+                const threshold = mean * (1 + k * (deviation / dynamicRange - 1));
+                out[y * width + x] = gray[y * width + x] > threshold ? 255 : 0;
+            }
+        }
+        return this.withLuminance(out, false);
+    }
+
+    /**
+     * 中值滤波去噪，边缘像素复制扩展，透明度通道不变
+     * 使用滑动直方图，每个像素的开销与窗口边长成正比
+     * @param options
+     */
+    median(options: Required<DenoiseOptions>): Image {
+        const { width, height, channels, data } = this;
+        const radius = Math.max(0, Math.round(options.radius));
+        const colors = channels >= 3 ? 3 : 1;
+        const out = new Uint8Array(data);
+        const half = Math.floor(((2 * radius + 1) * (2 * radius + 1)) / 2);
+        const histogram = new Int32Array(256);
+        // 越界的行列复制边缘像素，预先计算偏移
+        const columns = new Int32Array(width + 2 * radius + 1);
+        for (let i = 0; i < columns.length; i++) {
+            columns[i] = Math.max(0, Math.min(width - 1, i - radius - 1)) * channels;
+        }
+        const rows = new Int32Array(2 * radius + 1);
+
+        for (let c = 0; c < colors; c++) {
+            for (let y = 0; y < height; y++) {
+                for (let dy = -radius; dy <= radius; dy++) {
+                    rows[dy + radius] = Math.max(0, Math.min(height - 1, y + dy)) * width * channels + c;
+                }
+                histogram.fill(0);
+                for (const row of rows) {
+                    for (let dx = -radius; dx <= radius; dx++) histogram[data[row + columns[dx + radius + 1]]]++;
+                }
+                // median 为中值，below 为小于中值的像素数
+                let median = 0;
+                let below = 0;
+                while (below + histogram[median] <= half) below += histogram[median++];
+                for (let x = 0; x < width; x++) {
+                    if (x > 0) {
+                        // 移出第 x - radius - 1 列，移入第 x + radius 列
+                        const removedColumn = columns[x];
+                        const addedColumn = columns[x + 2 * radius + 1];
+                        for (const row of rows) {
+                            const removed = data[row + removedColumn];
+                            const added = data[row + addedColumn];
+                            histogram[removed]--;
+                            histogram[added]++;
+                            if (removed < median) below--;
+                            if (added < median) below++;
+                        }
+                        while (below > half) below -= histogram[--median];
+                        while (below + histogram[median] <= half) below += histogram[median++];
+                    }
+                    out[(y * width + x) * channels + c] = median;
+                }
+            }
+        }
+        return new Image(width, height, channels, out);
+    }
+
+    /**
+     * 仿射变换，以像素中心采样，双线性插值
+     * @param options
+     */
+    warpAffine(options: WarpAffineOptions): Image {
+        const { matrix, width, height } = options;
+        const [a, b, c, d, e, f] = matrix;
+        const channels = this.channels;
+        const src = this.data;
+        const color = options.color ?? Array(channels).fill(255);
+        const out = new Uint8Array(width * height * channels);
+        const sample = (x: number, y: number, channel: number) =>
+            x < 0 || y < 0 || x >= this.width || y >= this.height
+                ? color[channel]
+                : src[(y * this.width + x) * channels + channel];
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const sx = a * (x + 0.5) + b * (y + 0.5) + c - 0.5;
+                const sy = d * (x + 0.5) + e * (y + 0.5) + f - 0.5;
+                const x0 = Math.floor(sx);
+                const y0 = Math.floor(sy);
+                const fx = sx - x0;
+                const fy = sy - y0;
+                for (let ch = 0; ch < channels; ch++) {
+                    const top = sample(x0, y0, ch) * (1 - fx) + sample(x0 + 1, y0, ch) * fx;
+                    const bottom = sample(x0, y0 + 1, ch) * (1 - fx) + sample(x0 + 1, y0 + 1, ch) * fx;
+                    out[(y * width + x) * channels + ch] = Math.round(top + (bottom - top) * fy);
+                }
+            }
+        }
+        return new Image(width, height, channels, out);
+    }
+
+    /**
+     * 透视变换，将任意四边形区域拉正为矩形图像
+     * 输出尺寸默认取四边形对边长度的较大值，越界像素取边缘值
+     * @param options
+     */
+    warpPerspective(options: WarpPerspectiveOptions): Image {
+        const { points } = options;
+        const size = quadSize(points);
+        const width = options.width ?? size.width;
+        const height = options.height ?? size.height;
+        const matrix = getPerspectiveTransform(
+            [
+                { x: 0, y: 0 },
+                { x: width, y: 0 },
+                { x: width, y: height },
+                { x: 0, y: height },
+            ],
+            points,
+        );
+        const channels = this.channels;
+        const src = this.data;
+        const out = new Uint8Array(width * height * channels);
+        const clampX = (v: number) => Math.max(0, Math.min(this.width - 1, v));
+        const clampY = (v: number) => Math.max(0, Math.min(this.height - 1, v));
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                // 以像素中心采样，双线性插值
+                const p = applyPerspectiveTransform(matrix, { x: x + 0.5, y: y + 0.5 });
+                const sx = p.x - 0.5;
+                const sy = p.y - 0.5;
+                const x0 = Math.floor(sx);
+                const y0 = Math.floor(sy);
+                const fx = sx - x0;
+                const fy = sy - y0;
+                const ax = clampX(x0),
+                    bx = clampX(x0 + 1),
+                    ay = clampY(y0),
+                    by = clampY(y0 + 1);
+                for (let c = 0; c < channels; c++) {
+                    const v00 = src[(ay * this.width + ax) * channels + c];
+                    const v10 = src[(ay * this.width + bx) * channels + c];
+                    const v01 = src[(by * this.width + ax) * channels + c];
+                    const v11 = src[(by * this.width + bx) * channels + c];
+                    const top = v00 + (v10 - v00) * fx;
+                    const bottom = v01 + (v11 - v01) * fx;
+                    out[(y * width + x) * channels + c] = Math.round(top + (bottom - top) * fy);
+                }
+            }
+        }
+        return new Image(width, height, channels, out);
     }
 
     /**
@@ -485,24 +894,107 @@ export class Image {
     }
 
     /**
-     * 以png格式输出到指定位置
-     * @param path 输出路径
+     * 填充矩形区域，超出图像的部分被忽略
+     * @param options
+     */
+    fillRect(options: FillRectOptions) {
+        const { color } = options;
+        this.checkColor(color);
+        const x0 = Math.max(0, Math.round(options.x));
+        const y0 = Math.max(0, Math.round(options.y));
+        const x1 = Math.min(this.width, Math.round(options.x + options.width));
+        const y1 = Math.min(this.height, Math.round(options.y + options.height));
+        for (let y = y0; y < y1; y++) {
+            for (let x = x0; x < x1; x++) {
+                this.data.set(color, (y * this.width + x) * this.channels);
+            }
+        }
+    }
+
+    /**
+     * 绘制线段（Bresenham），线宽以方形笔刷实现
+     * @param options
+     */
+    line(options: LineOptions) {
+        const { color, lineWidth = 1 } = options;
+        const offset = Math.floor((lineWidth - 1) / 2);
+        let x = Math.round(options.from.x);
+        let y = Math.round(options.from.y);
+        const x1 = Math.round(options.to.x);
+        const y1 = Math.round(options.to.y);
+        const dx = Math.abs(x1 - x);
+        const dy = -Math.abs(y1 - y);
+        const sx = x < x1 ? 1 : -1;
+        const sy = y < y1 ? 1 : -1;
+        let error = dx + dy;
+        for (;;) {
+            this.fillRect({ x: x - offset, y: y - offset, width: lineWidth, height: lineWidth, color });
+            if (x === x1 && y === y1) break;
+            const e2 = 2 * error;
+            if (e2 >= dy) {
+                error += dy;
+                x += sx;
+            }
+            if (e2 <= dx) {
+                error += dx;
+                y += sy;
+            }
+        }
+    }
+
+    /**
+     * 用内置的 5x7 点阵字体绘制文字，(x, y) 为左上角
+     * 仅支持可打印 ASCII 字符，其余字符绘制为空心方框
+     * @param options
+     */
+    text(options: TextOptions) {
+        const { x, y, text, color, scale = 1 } = options;
+        Array.from(text).forEach((character, index) => {
+            const columns = glyph(character);
+            const left = x + index * GLYPH_ADVANCE * scale;
+            for (let column = 0; column < GLYPH_WIDTH; column++) {
+                for (let row = 0; row < GLYPH_HEIGHT; row++) {
+                    if ((columns[column] >> row) & 1) {
+                        this.fillRect({
+                            x: left + column * scale,
+                            y: y + row * scale,
+                            width: scale,
+                            height: scale,
+                            color,
+                        });
+                    }
+                }
+            }
+        });
+    }
+
+    private checkColor(color: number[]) {
+        if (this.channels != color.length) {
+            throw new Error(`Color length ${color.length} does not match image channels ${this.channels}`);
+        }
+    }
+
+    /**
+     * 转换为 RGBA 四通道图像，灰度值复制到三个颜色通道，缺少透明度时设为不透明
+     */
+    toRgba(): Image {
+        const { width, height, channels, data } = this;
+        if (channels === 4) {
+            return new Image(width, height, 4, new Uint8Array(data));
+        }
+        const out = new Uint8Array(width * height * 4);
+        for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+            const color = channels >= 3 ? [data[p], data[p + 1], data[p + 2]] : [data[p], data[p], data[p]];
+            out.set(color, i * 4);
+            out[i * 4 + 3] = channels === 2 ? data[p + 1] : 255;
+        }
+        return new Image(width, height, 4, out);
+    }
+
+    /**
+     * 编码为 PNG 文件数据，不依赖 fs 或 canvas，Node 与浏览器中均可使用
      */
-    // async saveAsPng(path: string) {
-    //     try {
-    //         const { encode } = await import("fast-png");
-    //         const pngData = encode({
-    //             width: this.width,
-    //             height: this.height,
-    //             depth: this.depth,
-    //             channels: this.channels,
-    //             data: this.data,
-    //         });
-    //         const { writeFile } = await import("fs/promises");
-    //         await writeFile(path, pngData);
-    //     } catch (e) {
-    //         console.error(`Failed to save image as PNG: ${e}`);
-    //         throw e;
-    //     }
-    // }
+    toPng(): Uint8Array {
+        return encodePng(this);
+    }
 }
@@ -0,0 +1,358 @@
+/**
+ * A tiny regular-expression engine used to constrain recognition to a known format,
+ * e.g. `\d{4}-\d{2}-\d{2}` or `[A-Z]{2}\d{6}`.
+ *
+ * Supported syntax: literals, `.`, escapes (`\d \D \w \W \s \S` and escaped metacharacters),
+ * character classes with ranges and negation (`[A-Z0-9]`, `[^ ]`), groups `( )`, alternation `|`
+ * and the quantifiers `? * + {n} {n,} {n,m}`. Patterns always match the whole text.
+ */
+
+type CharPredicate = (char: string) => boolean;
+
+type PatternNode =
+    | { type: "char"; test: CharPredicate }
+    | { type: "concat"; items: PatternNode[] }
+    | { type: "alternation"; options: PatternNode[] }
+    | { type: "repeat"; node: PatternNode; min: number; max: number };
+
+interface NfaState {
+    /** Consuming transition, taken when the predicate accepts the character. */
+    test?: CharPredicate;
+    next?: number;
+    /** Epsilon transitions. */
+    epsilon: number[];
+}
+
+/**
+ * Upper bound for `{n,m}` quantifiers, to keep the automaton small
+ */
+const MAX_REPEAT = 256;
+
+const ESCAPES: Record<string, CharPredicate> = {
+    d: (c) => c >= "0" && c <= "9",
+    D: (c) => !(c >= "0" && c <= "9"),
+    w: (c) => /^\w$/.test(c),
+    W: (c) => !/^\w$/.test(c),
+    s: (c) => /^\s$/.test(c),
+    S: (c) => !/^\s$/.test(c),
+};
+
+/**
+ * Deterministic automaton built lazily from a pattern, stepping one character at a time
+ */
+export class PatternAutomaton {
+    readonly source: string;
+    /** Id of the initial state. */
+    readonly start: number;
+
+    private readonly nfa: NfaState[];
+    private readonly accept: number;
+    private readonly states: number[][] = [];
+    private readonly stateIds = new Map<string, number>();
+    private readonly transitions: Map<string, number | null>[] = [];
+
+    constructor(pattern: string) {
+        this.source = pattern;
+        const ast = new PatternParser(pattern).parse();
+        this.nfa = [];
+        const fragment = this.build(ast);
+        this.accept = this.addState();
+        this.patch(fragment.out, this.accept);
+        this.start = this.stateFor(this.closure([fragment.start]));
+    }
+
+    /**
+     * State reached after reading a character, or `null` if the pattern rejects it
+     */
+    step(state: number, char: string): number | null {
+        const cache = this.transitions[state];
+        if (cache.has(char)) {
+            return cache.get(char)!;
+        }
+        const targets: number[] = [];
+        for (const index of this.states[state]) {
+            const nfaState = this.nfa[index];
+            if (nfaState.test && nfaState.next !== undefined && nfaState.test(char)) {
+                targets.push(nfaState.next);
+            }
+        }
+        const next = targets.length ? this.stateFor(this.closure(targets)) : null;
+        cache.set(char, next);
+        return next;
+    }
+
+    /**
+     * Whether the text read so far is a complete match
+     */
+    isAccepting(state: number): boolean {
+        return this.states[state].includes(this.accept);
+    }
+
+    /**
+     * Whether the pattern matches the whole text
+     */
+    matches(text: string): boolean {
+        let state: number | null = this.start;
+        for (const char of text) {
+            state = this.step(state, char);
+            if (state === null) return false;
+        }
+        return this.isAccepting(state);
+    }
+
+    private addState(): number {
+        this.nfa.push({ epsilon: [] });
+        return this.nfa.length - 1;
+    }
+
+    /**
+     * Thompson construction. `out` lists the dangling exits of the fragment as
+     * `[state, "next" | "epsilon"]` pairs to be patched to the following state.
+     */
+    private build(node: PatternNode): { start: number; out: [number, "next" | "epsilon"][] } {
+        switch (node.type) {
+            case "char": {
+                const state = this.addState();
+                this.nfa[state].test = node.test;
+                return { start: state, out: [[state, "next"]] };
+            }
+            case "concat": {
+                if (!node.items.length) {
+                    const state = this.addState();
+                    return { start: state, out: [[state, "epsilon"]] };
+                }
+                const fragments = node.items.map((item) => this.build(item));
+                for (let i = 0; i < fragments.length - 1; i++) {
+                    this.patch(fragments[i].out, fragments[i + 1].start);
+                }
+                return { start: fragments[0].start, out: fragments[fragments.length - 1].out };
+            }
+            case "alternation": {
+                const state = this.addState();
+                const fragments = node.options.map((option) => this.build(option));
+                this.nfa[state].epsilon.push(...fragments.map((f) => f.start));
+                return { start: state, out: fragments.flatMap((f) => f.out) };
+            }
+            case "repeat": {
+                const items: PatternNode[] = Array(node.min).fill(node.node);
+                if (node.max === Infinity) {
+                    // x* : loop state with an exit
+                    const loop = this.addState();
+                    const body = this.build(node.node);
+                    this.nfa[loop].epsilon.push(body.start);
+                    this.patch(body.out, loop);
+                    const prefix = this.build({ type: "concat", items });
+                    this.patch(prefix.out, loop);
+                    return { start: prefix.start, out: [[loop, "epsilon"]] };
+                }
+                const prefix = this.build({ type: "concat", items });
+                let out = prefix.out;
+                for (let i = node.min; i < node.max; i++) {
+                    // Optional copy: either skip to the end or go through the body
+                    const branch = this.addState();
+                    this.patch(out, branch);
+                    const body = this.build(node.node);
+                    this.nfa[branch].epsilon.push(body.start);
+                    out = [[branch, "epsilon"], ...body.out];
+                }
+                return { start: prefix.start, out };
+            }
+        }
+    }
+
+    private patch(out: [number, "next" | "epsilon"][], target: number) {
+        for (const [state, kind] of out) {
+            if (kind === "next") this.nfa[state].next = target;
+            else this.nfa[state].epsilon.push(target);
+        }
+    }
+
+    private closure(states: number[]): number[] {
+        const seen = new Set(states);
+        const stack = [...states];
+        while (stack.length) {
+            for (const next of this.nfa[stack.pop()!].epsilon) {
+                if (!seen.has(next)) {
+                    seen.add(next);
+                    stack.push(next);
+                }
+            }
+        }
+        return [...seen].sort((a, b) => a - b);
+    }
+
+    private stateFor(nfaStates: number[]): number {
+        const key = nfaStates.join(",");
+        let id = this.stateIds.get(key);
+        if (id === undefined) {
+            id = this.states.length;
+            this.states.push(nfaStates);
+            this.transitions.push(new Map());
+            this.stateIds.set(key, id);
+        }
+        return id;
+    }
+}
+
+/**
+ * Recursive descent parser producing the pattern syntax tree
+ */
+class PatternParser {
+    private readonly pattern: string;
+    private readonly chars: string[];
+    private position = 0;
+
+    constructor(pattern: string) {
+        this.pattern = pattern;
+        this.chars = [...pattern];
+    }
+
+    parse(): PatternNode {
+        const node = this.parseAlternation();
+        if (this.position < this.chars.length) {
+            throw this.error(`Unexpected '${this.chars[this.position]}'`);
+        }
+        return node;
+    }
+
+    private parseAlternation(): PatternNode {
+        const options = [this.parseConcat()];
+        while (this.peek() === "|") {
+            this.position++;
+            options.push(this.parseConcat());
+        }
+        return options.length === 1 ? options[0] : { type: "alternation", options };
+    }
+
+    private parseConcat(): PatternNode {
+        const items: PatternNode[] = [];
+        while (this.position < this.chars.length && this.peek() !== "|" && this.peek() !== ")") {
+            items.push(this.parseQuantified());
+        }
+        return items.length === 1 ? items[0] : { type: "concat", items };
+    }
+
+    private parseQuantified(): PatternNode {
+        let node = this.parseAtom();
+        for (;;) {
+            const char = this.peek();
+            if (char === "?") node = { type: "repeat", node, min: 0, max: 1 };
+            else if (char === "*") node = { type: "repeat", node, min: 0, max: Infinity };
+            else if (char === "+") node = { type: "repeat", node, min: 1, max: Infinity };
+            else if (char === "{") {
+                const [min, max] = this.parseBraces();
+                node = { type: "repeat", node, min, max };
+                continue;
+            } else break;
+            this.position++;
+        }
+        return node;
+    }
+
+    private parseBraces(): [number, number] {
+        const match = /^\{(\d+)(,(\d*))?\}/.exec(this.chars.slice(this.position).join(""));
+        if (!match) {
+            throw this.error("Invalid quantifier");
+        }
+        this.position += [...match[0]].length;
+        const min = Number(match[1]);
+        const max = match[2] === undefined ? min : match[3] === "" ? Infinity : Number(match[3]);
+        if (max < min || min > MAX_REPEAT || (max !== Infinity && max > MAX_REPEAT)) {
+            throw this.error(`Invalid quantifier range {${match[1]}${match[2] ?? ""}}`);
+        }
+        return [min, max];
+    }
+
+    private parseAtom(): PatternNode {
+        const char = this.chars[this.position++];
+        switch (char) {
+            case "(": {
+                // Non-capturing groups are accepted as plain groups
+                if (this.chars.slice(this.position, this.position + 2).join("") === "?:") {
+                    this.position += 2;
+                }
+                const node = this.parseAlternation();
+                if (this.chars[this.position++] !== ")") {
+                    throw this.error("Missing ')'");
+                }
+                return node;
+            }
+            case "[":
+                return { type: "char", test: this.parseClass() };
+            case ".":
+                return { type: "char", test: () => true };
+            case "\\":
+                return { type: "char", test: this.parseEscape() };
+            case "?":
+            case "*":
+            case "+":
+            case "{":
+            case ")":
+            case undefined:
+                throw this.error(char === undefined ? "Unexpected end of pattern" : `Unexpected '${char}'`);
+            default:
+                return { type: "char", test: (c) => c === char };
+        }
+    }
+
+    private parseEscape(): CharPredicate {
+        const char = this.chars[this.position++];
+        if (char === undefined) {
+            throw this.error("Pattern ends with a backslash");
+        }
+        return ESCAPES[char] ?? ((c) => c === char);
+    }
+
+    private parseClass(): CharPredicate {
+        const negated = this.peek() === "^";
+        if (negated) this.position++;
+        const tests: CharPredicate[] = [];
+        let first = true;
+        while (this.peek() !== "]" || first) {
+            first = false;
+            let char = this.chars[this.position++];
+            if (char === undefined) {
+                throw this.error("Missing ']'");
+            }
+            if (char === "\\") {
+                const escaped = this.chars[this.position];
+                if (escaped === undefined) {
+                    throw this.error("Missing ']'");
+                }
+                if (ESCAPES[escaped]) {
+                    tests.push(this.parseEscape());
+                    continue;
+                }
+                char = escaped;
+                this.position++;
+            }
+            if (
+                this.peek() === "-" &&
+                this.chars[this.position + 1] !== undefined &&
+                this.chars[this.position + 1] !== "]"
+            ) {
+                this.position++;
+                let end = this.chars[this.position++];
+                if (end === "\\") end = this.chars[this.position++];
+                const low = char;
+                if (end < low) {
+                    throw this.error(`Invalid range ${low}-${end}`);
+                }
+                tests.push((c) => c >= low && c <= end);
+            } else {
+                const literal = char;
+                tests.push((c) => c === literal);
+            }
+        }
+        this.position++;
+        return negated ? (c) => !tests.some((test) => test(c)) : (c) => tests.some((test) => test(c));
+    }
+
+    private peek(): string | undefined {
+        return this.chars[this.position];
+    }
+
+    private error(message: string): Error {
+        return new Error(`Invalid recognition pattern '${this.pattern}' at ${this.position}: ${message}`);
+    }
+}
@@ -0,0 +1,206 @@
+import { DEFAULT_PREPROCESS_OPTIONS } from "../constants";
+import type { Box, PreprocessStep, PreprocessTransform } from "../interface";
+import type { RecognitionResult } from "../processor/recognition";
+import { clampBox, invertAffineTransform, transformBox, translateBox } from "./geometry";
+import { Image } from "./image";
+
+/**
+ * Longest side of the reduced image the skew is estimated on
+ */
+const SKEW_IMAGE_SIZE = 1000;
+
+export interface PreprocessResult {
+    image: Image;
+    /** Geometric transforms applied by the steps, in order. */
+    transforms: PreprocessTransform[];
+}
+
+/**
+ * Run preprocessing steps in order. Photometric steps keep the channel count of the image,
+ * so the result can be fed to detection and recognition as is.
+ */
+export function preprocessImage(image: Image, steps: PreprocessStep[]): PreprocessResult {
+    const transforms: PreprocessTransform[] = [];
+    let current = image;
+    for (const entry of steps) {
+        const step = (typeof entry === "string" ? { type: entry } : entry) as Exclude<PreprocessStep, string>;
+        switch (step.type) {
+            case "grayscale":
+                current = current.grayscale();
+                break;
+            case "clahe":
+                current = current.clahe({ ...DEFAULT_PREPROCESS_OPTIONS.clahe, ...step });
+                break;
+            case "sauvola":
+                current = current.sauvola({ ...DEFAULT_PREPROCESS_OPTIONS.sauvola, ...step });
+                break;
+            case "denoise":
+                current = current.median({ ...DEFAULT_PREPROCESS_OPTIONS.denoise, ...step });
+                break;
+            case "deskew": {
+                const { maxAngle, minAngle } = { ...DEFAULT_PREPROCESS_OPTIONS.deskew, ...step };
+                const angle = estimateSkew(current, maxAngle);
+                if (Math.abs(angle) < minAngle) break;
+                const transform = deskewTransform(angle, current.width, current.height);
+                current = current.warpAffine({
+                    matrix: invertAffineTransform(transform.matrix),
+                    width: transform.width,
+                    height: transform.height,
+                });
+                transforms.push(transform);
+                break;
+            }
+            default:
+                throw new Error(`Unknown preprocessing step: ${JSON.stringify(entry)}`);
+        }
+    }
+    return { image: current, transforms };
+}
+
+/**
+ * Estimate the skew of the text lines in degrees clockwise, within `±maxAngle`.
+ * Dark pixels are projected onto the vertical axis at candidate angles; the angle
+ * with the sharpest profile (highest sum of squared bin counts) aligns with the lines.
+ */
+export function estimateSkew(image: Image, maxAngle: number): number {
+    const scale = Math.min(1, SKEW_IMAGE_SIZE / Math.max(image.width, image.height));
+    const reduced =
+        scale < 1
+            ? image.resize({
+                  width: Math.max(1, Math.round(image.width * scale)),
+                  height: Math.max(1, Math.round(image.height * scale)),
+              })
+            : image;
+    const { width, height } = reduced;
+    const gray = reduced.luminance();
+
+    // Text is the minority class of an Otsu threshold, whether dark on light or light on dark
+    const threshold = otsuThreshold(gray);
+    let dark = 0;
+    for (const v of gray) if (v <= threshold) dark++;
+    const textIsDark = dark * 2 <= gray.length;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (gray[y * width + x] <= threshold === textIsDark) {
+                xs.push(x - width / 2);
+                ys.push(y - height / 2);
+            }
+        }
+    }
+    if (!xs.length) return 0;
+
+    const radius = Math.ceil(Math.hypot(width, height) / 2) + 1;
+    const bins = new Float64Array(radius * 2 + 1);
+    const sharpness = (degrees: number) => {
+        const angle = (degrees * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        bins.fill(0);
+        for (let i = 0; i < xs.length; i++) bins[Math.round(ys[i] * cos - xs[i] * sin) + radius]++;
+        let score = 0;
+        for (const count of bins) score += count * count;
+        return score;
+    };
+    const search = (from: number, to: number, step: number) => {
+        let best = 0;
+        let bestScore = -1;
+        for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+            const score = sharpness(degrees);
+            // Prefer the smaller correction on ties
+            if (score > bestScore || (score === bestScore && Math.abs(degrees) < Math.abs(best))) {
+                best = degrees;
+                bestScore = score;
+            }
+        }
+        return best;
+    };
+
+    const coarse = search(-maxAngle, maxAngle, 0.5);
+    const fine = search(Math.max(-maxAngle, coarse - 0.5), Math.min(maxAngle, coarse + 0.5), 0.05);
+    return Math.round(fine * 100) / 100 || 0;
+}
+
+/**
+ * Rotation about the image center undoing a clockwise skew, on a canvas enlarged to keep every corner
+ */
+function deskewTransform(angle: number, width: number, height: number): PreprocessTransform {
+    const radians = (-angle * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const rotatedWidth = Math.ceil(Math.abs(width * cos) + Math.abs(height * sin));
+    const rotatedHeight = Math.ceil(Math.abs(width * sin) + Math.abs(height * cos));
+    const [cx, cy] = [width / 2, height / 2];
+    return {
+        type: "deskew",
+        angle,
+        matrix: [cos, -sin, rotatedWidth / 2 - cos * cx + sin * cy, sin, cos, rotatedHeight / 2 - sin * cx - cos * cy],
+        width: rotatedWidth,
+        height: rotatedHeight,
+    };
+}
+
+/**
+ * Map a box found on a preprocessed image back into the coordinates of the original image
+ */
+export function restoreBox(box: Box, transforms: PreprocessTransform[]): Box {
+    return transforms.reduceRight((restored, transform) => {
+        return transformBox(restored, invertAffineTransform(transform.matrix));
+    }, box);
+}
+
+/**
+ * Map the boxes of a result found on the padded, preprocessed image back into the coordinates
+ * of the original image, removing the detection padding first
+ * @param width Width of the original image, restored boxes being clipped to it
+ * @param height Height of the original image
+ */
+export function restoreResult(
+    result: RecognitionResult,
+    transforms: PreprocessTransform[],
+    padding: number,
+    width: number,
+    height: number,
+): RecognitionResult {
+    if (!transforms.length && !padding) {
+        return result;
+    }
+    // Boxes of text touching the edge grow into the padding or the corners added by deskewing
+    const restore = (box: Box) =>
+        clampBox(restoreBox(translateBox(box, -padding, -padding), transforms), width, height);
+    const restored: RecognitionResult = {
+        ...result,
+        box: restore(result.box),
+        characters: result.characters?.map((character) => ({ ...character, box: restore(character.box) })),
+    };
+    if (transforms.length) {
+        restored.skewAngle = transforms.reduce((sum, transform) => sum + transform.angle, 0);
+    }
+    return restored;
+}
+
+function otsuThreshold(gray: Uint8Array): number {
+    const histogram = new Float64Array(256);
+    for (const v of gray) histogram[v]++;
+    let total = 0;
+    for (let v = 0; v < 256; v++) total += v * histogram[v];
+
+    let best = 127;
+    let bestVariance = -1;
+    let count = 0;
+    let sum = 0;
+    for (let t = 0; t < 255; t++) {
+        count += histogram[t];
+        sum += t * histogram[t];
+        const rest = gray.length - count;
+        if (!count || !rest) continue;
+        const difference = sum / count - (total - sum) / rest;
+        const variance = count * rest * difference * difference;
+        if (variance > bestVariance) {
+            best = t;
+            bestVariance = variance;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,59 @@
+import type { Script } from "../interface";
+
+/**
+ * Unicode blocks of every script, as inclusive code point ranges
+ */
+const SCRIPT_RANGES: [Script, number, number][] = [
+    ["latin", 0x0041, 0x005a],
+    ["latin", 0x0061, 0x007a],
+    ["latin", 0x00c0, 0x024f],
+    ["latin", 0x1e00, 0x1eff],
+    ["greek", 0x0370, 0x03ff],
+    ["cyrillic", 0x0400, 0x052f],
+    ["arabic", 0x0600, 0x06ff],
+    ["arabic", 0x0750, 0x077f],
+    ["devanagari", 0x0900, 0x097f],
+    ["thai", 0x0e00, 0x0e7f],
+    ["hangul", 0x1100, 0x11ff],
+    ["kana", 0x3040, 0x30ff],
+    ["hangul", 0x3130, 0x318f],
+    ["han", 0x3400, 0x4dbf],
+    ["han", 0x4e00, 0x9fff],
+    ["hangul", 0xac00, 0xd7af],
+    ["han", 0xf900, 0xfaff],
+    ["kana", 0xff66, 0xff9f],
+    ["han", 0x20000, 0x2ffff],
+];
+
+/**
+ * Script of a single character, `null` for digits, punctuation and symbols
+ */
+export function characterScript(character: string): Script | null {
+    const code = character.codePointAt(0) ?? 0;
+    for (const [script, start, end] of SCRIPT_RANGES) {
+        if (code >= start && code <= end) return script;
+    }
+    return null;
+}
+
+/**
+ * Most frequent script among the letters of a text, `null` when it has none.
+ * Han characters count as kana when the text has any kana, since Japanese mixes both.
+ */
+export function identifyScript(text: string): Script | null {
+    const counts = new Map<Script, number>();
+    for (const character of text) {
+        const script = characterScript(character);
+        if (script) counts.set(script, (counts.get(script) ?? 0) + 1);
+    }
+    if (counts.has("kana") && counts.has("han")) {
+        counts.set("kana", counts.get("kana")! + counts.get("han")!);
+        counts.delete("han");
+    }
+
+    let best: Script | null = null;
+    for (const [script, count] of counts) {
+        if (!best || count > counts.get(best)!) best = script;
+    }
+    return best;
+}
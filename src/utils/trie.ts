@@ -0,0 +1,51 @@
+/**
+ * Node of a {@link CharacterTrie}
+ */
+export interface TrieNode {
+    children: Map<string, TrieNode>;
+    /** Whether the path from the root to this node spells a complete word. */
+    terminal: boolean;
+}
+
+/**
+ * Prefix tree over the characters of a word list, used to constrain or
+ * boost decoding towards known vocabulary.
+ */
+export class CharacterTrie {
+    readonly root: TrieNode = { children: new Map(), terminal: false };
+
+    constructor(words: Iterable<string> = []) {
+        for (const word of words) {
+            this.insert(word);
+        }
+    }
+
+    /**
+     * Add a word to the trie. Empty words are ignored.
+     */
+    insert(word: string) {
+        if (!word) return;
+        let node = this.root;
+        for (const char of word) {
+            let child = node.children.get(char);
+            if (!child) {
+                child = { children: new Map(), terminal: false };
+                node.children.set(char, child);
+            }
+            node = child;
+        }
+        node.terminal = true;
+    }
+
+    /**
+     * Whether the trie contains the exact word
+     */
+    has(word: string): boolean {
+        let node: TrieNode | undefined = this.root;
+        for (const char of word) {
+            node = node.children.get(char);
+            if (!node) return false;
+        }
+        return node.terminal;
+    }
+}
@@ -0,0 +1,591 @@
+/**
+ * Dependency-free zlib (RFC 1950) / DEFLATE (RFC 1951) compression and decompression, usable in Node and the browser
+ */
+
+const LENGTH_BASE = [
+    3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+    8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+    0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+/** Order in which code length code lengths are stored in a dynamic block header. */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const HASH_SIZE = 1 << 15;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+/** Number of earlier positions compared when looking for a match. */
+const MAX_CHAIN = 48;
+/** Number of LZ77 tokens encoded per block, each block getting its own Huffman codes. */
+const BLOCK_TOKENS = 1 << 16;
+
+/** Length code (0-28) of every match length from 0 to 258. */
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1);
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+    const end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1;
+    LENGTH_CODE.fill(code, LENGTH_BASE[code], end);
+}
+
+function distanceCode(distance: number): number {
+    let code = 0;
+    while (code + 1 < DISTANCE_BASE.length && DISTANCE_BASE[code + 1] <= distance) code++;
+    return code;
+}
+
+class BitWriter {
+    private buffer = new Uint8Array(1 << 16);
+    private length = 0;
+    private bits = 0;
+    private bitCount = 0;
+
+    writeBits(value: number, count: number) {
+        this.bits |= value << this.bitCount;
+        this.bitCount += count;
+        while (this.bitCount >= 8) {
+            this.writeByte(this.bits & 0xff);
+            this.bits >>>= 8;
+            this.bitCount -= 8;
+        }
+    }
+
+    writeByte(value: number) {
+        if (this.length === this.buffer.length) {
+            const grown = new Uint8Array(this.buffer.length * 2);
+            grown.set(this.buffer);
+            this.buffer = grown;
+        }
+        this.buffer[this.length++] = value;
+    }
+
+    /**
+     * Pad the last byte with zero bits and return the written data
+     */
+    finish(): Uint8Array {
+        if (this.bitCount > 0) this.writeBits(0, 8 - this.bitCount);
+        return this.buffer.subarray(0, this.length);
+    }
+}
+
+/**
+ * Huffman code lengths for the given symbol frequencies, limited to `limit` bits by
+ * flattening the frequencies until the tree is shallow enough
+ */
+function huffmanLengths(frequencies: number[], limit: number): number[] {
+    let current = frequencies;
+    for (;;) {
+        const lengths = buildHuffmanLengths(current);
+        if (Math.max(...lengths) <= limit) return lengths;
+        current = current.map((f) => (f ? (f + 1) >> 1 : 0));
+    }
+}
+
+function buildHuffmanLengths(frequencies: number[]): number[] {
+    const lengths = new Array<number>(frequencies.length).fill(0);
+    const leaves = frequencies
+        .map((frequency, symbol) => ({ frequency, symbol }))
+        .filter((leaf) => leaf.frequency > 0)
+        .sort((a, b) => a.frequency - b.frequency);
+    if (leaves.length === 1) {
+        lengths[leaves[0].symbol] = 1;
+        return lengths;
+    }
+
+    // Two-queue construction: leaves in ascending order, internal nodes created in ascending order
+    const parent: number[] = [];
+    const weights = leaves.map((leaf) => leaf.frequency);
+    const nodes: number[] = [];
+    let leafIndex = 0;
+    let nodeIndex = 0;
+    const takeSmallest = (): number => {
+        if (
+            nodeIndex >= nodes.length ||
+            (leafIndex < leaves.length && weights[leafIndex] <= weights[nodes[nodeIndex]])
+        ) {
+            return leafIndex++;
+        }
+        return nodes[nodeIndex++];
+    };
+    while (leaves.length - leafIndex + nodes.length - nodeIndex > 1) {
+        const a = takeSmallest();
+        const b = takeSmallest();
+        const node = weights.length;
+        weights.push(weights[a] + weights[b]);
+        parent[a] = node;
+        parent[b] = node;
+        nodes.push(node);
+    }
+
+    const depth: number[] = [];
+    depth[weights.length - 1] = 0;
+    for (let node = weights.length - 2; node >= 0; node--) {
+        depth[node] = depth[parent[node]] + 1;
+    }
+    leaves.forEach((leaf, i) => (lengths[leaf.symbol] = depth[i]));
+    return lengths;
+}
+
+/**
+ * Canonical Huffman codes, bit-reversed for LSB-first output
+ */
+function canonicalCodes(lengths: number[]): number[] {
+    const maxLength = Math.max(...lengths);
+    const counts = new Array<number>(maxLength + 1).fill(0);
+    for (const length of lengths) if (length) counts[length]++;
+    const next = new Array<number>(maxLength + 1).fill(0);
+    for (let bits = 1, code = 0; bits <= maxLength; bits++) {
+        code = (code + counts[bits - 1]) << 1;
+        next[bits] = code;
+    }
+    return lengths.map((length) => {
+        if (!length) return 0;
+        let code = next[length]++;
+        let reversed = 0;
+        for (let i = 0; i < length; i++) {
+            reversed = (reversed << 1) | (code & 1);
+            code >>= 1;
+        }
+        return reversed;
+    });
+}
+
+/**
+ * Run-length encode code lengths with the code length alphabet (16: repeat previous, 17/18: zeros)
+ */
+function encodeCodeLengths(lengths: number[]): { symbol: number; extra: number; extraBits: number }[] {
+    const symbols: { symbol: number; extra: number; extraBits: number }[] = [];
+    let i = 0;
+    while (i < lengths.length) {
+        const length = lengths[i];
+        let run = 1;
+        while (i + run < lengths.length && lengths[i + run] === length) run++;
+        if (length === 0 && run >= 3) {
+            const count = Math.min(run, 138);
+            symbols.push(
+                count >= 11
+                    ? { symbol: 18, extra: count - 11, extraBits: 7 }
+                    : { symbol: 17, extra: count - 3, extraBits: 3 },
+            );
+            i += count;
+        } else if (length !== 0 && run >= 4) {
+            symbols.push({ symbol: length, extra: 0, extraBits: 0 });
+            const count = Math.min(run - 1, 6);
+            symbols.push({ symbol: 16, extra: count - 3, extraBits: 2 });
+            i += count + 1;
+        } else {
+            symbols.push({ symbol: length, extra: 0, extraBits: 0 });
+            i++;
+        }
+    }
+    return symbols;
+}
+
+/**
+ * Write one block with dynamic Huffman codes. `lengths[i]` is 0 for a literal `values[i]`,
+ * otherwise a match of that length at distance `values[i]`.
+ */
+function writeBlock(writer: BitWriter, lengths: Uint16Array, values: Uint16Array, count: number, final: boolean) {
+    const literalFrequencies = new Array<number>(286).fill(0);
+    const distanceFrequencies = new Array<number>(30).fill(0);
+    for (let i = 0; i < count; i++) {
+        if (lengths[i] === 0) {
+            literalFrequencies[values[i]]++;
+        } else {
+            literalFrequencies[257 + LENGTH_CODE[lengths[i]]]++;
+            distanceFrequencies[distanceCode(values[i])]++;
+        }
+    }
+    literalFrequencies[256]++;
+    // Some decoders reject codes with fewer than two symbols
+    for (const frequencies of [literalFrequencies, distanceFrequencies]) {
+        for (let symbol = 0; frequencies.filter((f) => f > 0).length < 2; symbol++) {
+            if (!frequencies[symbol]) frequencies[symbol] = 1;
+        }
+    }
+
+    const literalLengths = huffmanLengths(literalFrequencies, 15);
+    const distanceLengths = huffmanLengths(distanceFrequencies, 15);
+    const literalCount = Math.max(257, literalLengths.findLastIndex((l) => l > 0) + 1);
+    const distanceCount = Math.max(1, distanceLengths.findLastIndex((l) => l > 0) + 1);
+
+    const codeLengthSymbols = encodeCodeLengths([
+        ...literalLengths.slice(0, literalCount),
+        ...distanceLengths.slice(0, distanceCount),
+    ]);
+    const codeLengthFrequencies = new Array<number>(19).fill(0);
+    for (const { symbol } of codeLengthSymbols) codeLengthFrequencies[symbol]++;
+    const codeLengthLengths = huffmanLengths(codeLengthFrequencies, 7);
+    const codeLengthCount = Math.max(4, CODE_LENGTH_ORDER.findLastIndex((symbol) => codeLengthLengths[symbol] > 0) + 1);
+
+    writer.writeBits(final ? 1 : 0, 1);
+    writer.writeBits(2, 2);
+    writer.writeBits(literalCount - 257, 5);
+    writer.writeBits(distanceCount - 1, 5);
+    writer.writeBits(codeLengthCount - 4, 4);
+    for (let i = 0; i < codeLengthCount; i++) {
+        writer.writeBits(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+    }
+    const codeLengthCodes = canonicalCodes(codeLengthLengths);
+    for (const { symbol, extra, extraBits } of codeLengthSymbols) {
+        writer.writeBits(codeLengthCodes[symbol], codeLengthLengths[symbol]);
+        if (extraBits) writer.writeBits(extra, extraBits);
+    }
+
+    const literalCodes = canonicalCodes(literalLengths);
+    const distanceCodes = canonicalCodes(distanceLengths);
+    for (let i = 0; i < count; i++) {
+        const length = lengths[i];
+        if (length === 0) {
+            writer.writeBits(literalCodes[values[i]], literalLengths[values[i]]);
+            continue;
+        }
+        const lengthCode = LENGTH_CODE[length];
+        writer.writeBits(literalCodes[257 + lengthCode], literalLengths[257 + lengthCode]);
+        if (LENGTH_EXTRA[lengthCode]) writer.writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+        const distance = values[i];
+        const code = distanceCode(distance);
+        writer.writeBits(distanceCodes[code], distanceLengths[code]);
+        if (DISTANCE_EXTRA[code]) writer.writeBits(distance - DISTANCE_BASE[code], DISTANCE_EXTRA[code]);
+    }
+    writer.writeBits(literalCodes[256], literalLengths[256]);
+}
+
+/**
+ * Raw DEFLATE compression with greedy LZ77 matching over hash chains
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+    const writer = new BitWriter();
+    const head = new Int32Array(HASH_SIZE).fill(-1);
+    const previous = new Int32Array(WINDOW_SIZE);
+    const lengths = new Uint16Array(BLOCK_TOKENS);
+    const values = new Uint16Array(BLOCK_TOKENS);
+    let count = 0;
+
+    const hash = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1);
+    const insert = (i: number) => {
+        const h = hash(i);
+        previous[i & (WINDOW_SIZE - 1)] = head[h];
+        head[h] = i;
+    };
+    const emit = (length: number, value: number) => {
+        lengths[count] = length;
+        values[count] = value;
+        if (++count === BLOCK_TOKENS) {
+            writeBlock(writer, lengths, values, count, false);
+            count = 0;
+        }
+    };
+
+    let i = 0;
+    while (i < data.length) {
+        let bestLength = 0;
+        let bestDistance = 0;
+        if (i + MIN_MATCH <= data.length) {
+            const maxLength = Math.min(MAX_MATCH, data.length - i);
+            let candidate = head[hash(i)];
+            for (let chain = 0; chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW_SIZE; chain++) {
+                if (data[candidate + bestLength] === data[i + bestLength]) {
+                    let length = 0;
+                    while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+                    if (length > bestLength) {
+                        bestLength = length;
+                        bestDistance = i - candidate;
+                        if (length === maxLength) break;
+                    }
+                }
+                const next = previous[candidate & (WINDOW_SIZE - 1)];
+                // Slots are reused every window, so stale links may point forward
+                if (next >= candidate) break;
+                candidate = next;
+            }
+            insert(i);
+        }
+
+        if (bestLength >= MIN_MATCH) {
+            emit(bestLength, bestDistance);
+            for (let k = 1; k < bestLength; k++) {
+                if (i + k + MIN_MATCH <= data.length) insert(i + k);
+            }
+            i += bestLength;
+        } else {
+            emit(0, data[i]);
+            i++;
+        }
+    }
+    writeBlock(writer, lengths, values, count, true);
+    return writer.finish();
+}
+
+export function adler32(data: Uint8Array): number {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < data.length; ) {
+        const end = Math.min(data.length, i + 5552);
+        for (; i < end; i++) {
+            a += data[i];
+            b += a;
+        }
+        a %= 65521;
+        b %= 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+/** CRC-32 (ISO 3309) lookup table of every byte value. */
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    CRC_TABLE[n] = c >>> 0;
+}
+
+/**
+ * CRC-32 checksum, as used by PNG chunks and gzip
+ */
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * zlib-wrapped DEFLATE compression, as used by PNG and the PDF `FlateDecode` filter
+ */
+export function deflate(data: Uint8Array): Uint8Array {
+    const compressed = deflateRaw(data);
+    const output = new Uint8Array(compressed.length + 6);
+    output[0] = 0x78;
+    output[1] = 0x9c;
+    output.set(compressed, 2);
+    const checksum = adler32(data);
+    output[output.length - 4] = checksum >>> 24;
+    output[output.length - 3] = (checksum >>> 16) & 0xff;
+    output[output.length - 2] = (checksum >>> 8) & 0xff;
+    output[output.length - 1] = checksum & 0xff;
+    return output;
+}
+
+/**
+ * Canonical Huffman decoding table: `lookup` is indexed by the next `maxLength` input bits
+ * (LSB first) and holds `symbol << 4 | codeLength`, or -1 for unused codes
+ */
+interface DecodeTable {
+    lookup: Int32Array;
+    maxLength: number;
+}
+
+function buildDecodeTable(lengths: ArrayLike<number>): DecodeTable {
+    let maxLength = 0;
+    for (let i = 0; i < lengths.length; i++) maxLength = Math.max(maxLength, lengths[i]);
+    const lookup = new Int32Array(1 << maxLength).fill(-1);
+    const codes = canonicalCodes(Array.from(lengths));
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+        const length = lengths[symbol];
+        if (!length) continue;
+        for (let index = codes[symbol]; index < lookup.length; index += 1 << length) {
+            lookup[index] = (symbol << 4) | length;
+        }
+    }
+    return { lookup, maxLength };
+}
+
+let fixedTables: { literal: DecodeTable; distance: DecodeTable } | null = null;
+
+function getFixedTables() {
+    if (!fixedTables) {
+        const literal = new Array<number>(288).fill(8, 0, 144).fill(9, 144, 256).fill(7, 256, 280).fill(8, 280, 288);
+        fixedTables = { literal: buildDecodeTable(literal), distance: buildDecodeTable(new Array<number>(30).fill(5)) };
+    }
+    return fixedTables;
+}
+
+class BitReader {
+    position: number;
+    private readonly data: Uint8Array;
+    private bits = 0;
+    private bitCount = 0;
+
+    constructor(data: Uint8Array, position: number) {
+        this.data = data;
+        this.position = position;
+    }
+
+    private fill(count: number) {
+        while (this.bitCount < count) {
+            // Past the end, zero bits are supplied so that the last code can be peeked
+            const byte = this.position < this.data.length ? this.data[this.position] : 0;
+            this.position++;
+            this.bits |= byte << this.bitCount;
+            this.bitCount += 8;
+        }
+    }
+
+    readBits(count: number): number {
+        if (!count) return 0;
+        this.fill(count);
+        const value = this.bits & ((1 << count) - 1);
+        this.bits >>>= count;
+        this.bitCount -= count;
+        this.checkBounds();
+        return value;
+    }
+
+    decode(table: DecodeTable): number {
+        this.fill(table.maxLength);
+        const entry = table.lookup[this.bits & ((1 << table.maxLength) - 1)];
+        if (entry < 0) {
+            throw new Error("Invalid deflate data: unknown Huffman code");
+        }
+        const length = entry & 15;
+        this.bits >>>= length;
+        this.bitCount -= length;
+        this.checkBounds();
+        return entry >> 4;
+    }
+
+    /**
+     * Drop the bits left in the current byte
+     */
+    alignToByte() {
+        const extra = this.bitCount % 8;
+        this.bits >>>= extra;
+        this.bitCount -= extra;
+        // Hand whole buffered bytes back to the byte stream
+        this.position -= this.bitCount / 8;
+        this.bits = 0;
+        this.bitCount = 0;
+    }
+
+    private checkBounds() {
+        if (this.position - Math.floor(this.bitCount / 8) > this.data.length) {
+            throw new Error("Invalid deflate data: unexpected end of stream");
+        }
+    }
+}
+
+/**
+ * Raw DEFLATE decompression
+ * @param sizeHint Expected output size, to avoid growing the output buffer
+ * @returns The decompressed data and the input position after the last block
+ */
+export function inflateRaw(data: Uint8Array, offset = 0, sizeHint = 0): { data: Uint8Array; end: number } {
+    const reader = new BitReader(data, offset);
+    let output = new Uint8Array(Math.max(sizeHint, data.length * 4, 1024));
+    let length = 0;
+    const ensure = (extra: number) => {
+        if (length + extra <= output.length) return;
+        const grown = new Uint8Array(Math.max(output.length * 2, length + extra));
+        grown.set(output.subarray(0, length));
+        output = grown;
+    };
+
+    let final = 0;
+    while (!final) {
+        final = reader.readBits(1);
+        const type = reader.readBits(2);
+        if (type === 0) {
+            reader.alignToByte();
+            const start = reader.position;
+            if (start + 4 > data.length) {
+                throw new Error("Invalid deflate data: unexpected end of stream");
+            }
+            const size = data[start] | (data[start + 1] << 8);
+            if ((size ^ (data[start + 2] | (data[start + 3] << 8))) !== 0xffff) {
+                throw new Error("Invalid deflate data: corrupted stored block length");
+            }
+            if (start + 4 + size > data.length) {
+                throw new Error("Invalid deflate data: unexpected end of stream");
+            }
+            ensure(size);
+            output.set(data.subarray(start + 4, start + 4 + size), length);
+            length += size;
+            reader.position = start + 4 + size;
+            continue;
+        }
+
+        let literalTable: DecodeTable;
+        let distanceTable: DecodeTable;
+        if (type === 1) {
+            ({ literal: literalTable, distance: distanceTable } = getFixedTables());
+        } else if (type === 2) {
+            const literalCount = reader.readBits(5) + 257;
+            const distanceCount = reader.readBits(5) + 1;
+            const codeLengthCount = reader.readBits(4) + 4;
+            const codeLengthLengths = new Array<number>(19).fill(0);
+            for (let i = 0; i < codeLengthCount; i++) {
+                codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+            }
+            const codeLengthTable = buildDecodeTable(codeLengthLengths);
+            const lengths: number[] = [];
+            while (lengths.length < literalCount + distanceCount) {
+                const symbol = reader.decode(codeLengthTable);
+                if (symbol < 16) {
+                    lengths.push(symbol);
+                } else if (symbol === 16) {
+                    if (!lengths.length) {
+                        throw new Error("Invalid deflate data: repeated code length without a previous one");
+                    }
+                    const previous = lengths[lengths.length - 1];
+                    for (let n = reader.readBits(2) + 3; n > 0; n--) lengths.push(previous);
+                } else {
+                    const zeros = symbol === 17 ? reader.readBits(3) + 3 : reader.readBits(7) + 11;
+                    for (let n = 0; n < zeros; n++) lengths.push(0);
+                }
+            }
+            if (lengths.length > literalCount + distanceCount) {
+                throw new Error("Invalid deflate data: too many code lengths");
+            }
+            literalTable = buildDecodeTable(lengths.slice(0, literalCount));
+            distanceTable = buildDecodeTable(lengths.slice(literalCount));
+        } else {
+            throw new Error("Invalid deflate data: reserved block type");
+        }
+
+        for (;;) {
+            const symbol = reader.decode(literalTable);
+            if (symbol < 256) {
+                ensure(1);
+                output[length++] = symbol;
+                continue;
+            }
+            if (symbol === 256) break;
+            const lengthCode = symbol - 257;
+            if (lengthCode >= LENGTH_BASE.length) {
+                throw new Error("Invalid deflate data: invalid length code");
+            }
+            const matchLength = LENGTH_BASE[lengthCode] + reader.readBits(LENGTH_EXTRA[lengthCode]);
+            const distanceSymbol = reader.decode(distanceTable);
+            if (distanceSymbol >= DISTANCE_BASE.length) {
+                throw new Error("Invalid deflate data: invalid distance code");
+            }
+            const distance = DISTANCE_BASE[distanceSymbol] + reader.readBits(DISTANCE_EXTRA[distanceSymbol]);
+            if (distance > length) {
+                throw new Error("Invalid deflate data: distance too far back");
+            }
+            ensure(matchLength);
+            for (let k = 0; k < matchLength; k++, length++) {
+                output[length] = output[length - distance];
+            }
+        }
+    }
+    reader.alignToByte();
+    return { data: output.subarray(0, length), end: reader.position };
+}
+
+/**
+ * zlib-wrapped DEFLATE decompression. Preset dictionaries are not supported.
+ */
+export function inflate(data: Uint8Array, sizeHint = 0): Uint8Array {
+    if (data.length < 2 || (data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31 !== 0) {
+        throw new Error("Invalid zlib data: bad header");
+    }
+    if (data[1] & 0x20) {
+        throw new Error("Invalid zlib data: preset dictionaries are not supported");
+    }
+    return inflateRaw(data, 2, sizeHint).data;
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { RecognitionService } from "../src/processor/recognition";
+import { ctcPatternSearch, ctcPrefixBeamSearch } from "../src/utils/ctc";
+import { Image } from "../src/utils/image";
+import { PatternAutomaton } from "../src/utils/pattern";
+import { CharacterTrie } from "../src/utils/trie";
+import { fakeOrt, fakeSession } from "./fake-ort";
+
+const dictionary = ["", "a", "b", "1", "2", " "];
+
+/**
+ * Model output from per-timestep probabilities keyed by character, the rest going to the blank
+ */
+function frames(...steps: Record<string, number>[]): Float32Array {
+    const output = new Float32Array(steps.length * dictionary.length);
+    steps.forEach((step, t) => {
+        let rest = 1;
+        for (const [char, probability] of Object.entries(step)) {
+            output[t * dictionary.length + dictionary.indexOf(char)] = probability;
+            rest -= probability;
+        }
+        output[t * dictionary.length] += Math.max(rest, 0);
+    });
+    return output;
+}
+
+function beamSearch(output: Float32Array, options: Partial<Parameters<typeof ctcPrefixBeamSearch>[3]> = {}) {
+    return ctcPrefixBeamSearch(output, output.length / dictionary.length, dictionary.length, {
+        dictionary,
+        beamWidth: 10,
+        topK: 5,
+        ...options,
+    });
+}
+
+function patternSearch(output: Float32Array, pattern: string, charWhiteSet?: Set<string>) {
+    return ctcPatternSearch(output, output.length / dictionary.length, dictionary.length, {
+        dictionary,
+        automaton: new PatternAutomaton(pattern),
+        charWhiteSet,
+    });
+}
+
+describe("ctcPrefixBeamSearch", () => {
+    it("collapses repeated classes unless a blank separates them", () => {
+        const [best] = beamSearch(frames({ a: 0.9 }, { a: 0.9 }, {}, { a: 0.9 }, { b: 0.9 }));
+        expect(best.text).toBe("aab");
+        expect(best.characters.map((c) => c.timestep)).toEqual([0, 3, 4]);
+    });
+
+    it("sums the paths of a prefix", () => {
+        // Blank is the most likely class of both timesteps, but "a" has three paths totalling 0.64
+        const hypotheses = beamSearch(frames({ a: 0.4 }, { a: 0.4 }));
+        expect(hypotheses.map((h) => h.text)).toEqual(["a", ""]);
+        expect(Math.exp(hypotheses[0].score)).toBeCloseTo(0.64, 5);
+        expect(Math.exp(hypotheses[1].score)).toBeCloseTo(0.36, 5);
+    });
+
+    it("keeps to the whitelist", () => {
+        const [best] = beamSearch(frames({ a: 0.7, b: 0.2 }), { charWhiteSet: new Set(["b"]) });
+        expect(best.text).toBe("b");
+    });
+
+    it("constrains or boosts words of the lexicon", () => {
+        const output = frames({ a: 0.6, b: 0.3 }, { b: 0.6, a: 0.3 });
+        const lexicon = new CharacterTrie(["ba"]);
+        expect(beamSearch(output)[0].text).toBe("ab");
+        expect(beamSearch(output, { lexicon, lexiconMode: "constrain" })[0].text).toBe("ba");
+        expect(beamSearch(output, { lexicon, lexiconMode: "boost", lexiconWeight: 1 })[0].text).toBe("ba");
+        // "bb" needs a blank between its characters, leaving only the empty text
+        const constrained = beamSearch(output, { lexicon: new CharacterTrie(["bb"]), lexiconMode: "constrain" });
+        expect(constrained.map((h) => h.text)).toEqual([""]);
+    });
+});
+
+describe("ctcPatternSearch", () => {
+    it("finds the best path matching the pattern", () => {
+        const output = frames({ a: 0.6, "1": 0.35 }, { "2": 0.9 });
+        expect(patternSearch(output, "\\d+")?.text).toBe("12");
+        expect(patternSearch(output, "[ab]\\d")?.text).toBe("a2");
+    });
+
+    it("needs a blank between repeated characters", () => {
+        expect(patternSearch(frames({ a: 0.9 }, { a: 0.9 }), "aa")).toBeNull();
+        expect(patternSearch(frames({ a: 0.9 }, {}, { a: 0.9 }), "aa")?.text).toBe("aa");
+    });
+
+    it("returns null when the pattern needs characters the model does not see", () => {
+        // Every class keeps some probability after softmax
+        const output = frames({ a: 0.98, b: 0.001 }, { a: 0.98, b: 0.001 });
+        expect(patternSearch(output, "b+")).toBeNull();
+        expect(patternSearch(output, "[ab]{3}")).toBeNull();
+        expect(patternSearch(output, "\\d", new Set(["1"]))).toBeNull();
+    });
+
+    it("matches empty texts", () => {
+        const match = patternSearch(frames({}, {}), "\\d*");
+        expect(match?.text).toBe("");
+        expect(match?.characters).toEqual([]);
+    });
+});
+
+describe("RecognitionService decoding", () => {
+    function recognize(output: Float32Array, options = {}, pattern?: string) {
+        const session = fakeSession((input) => ({
+            data: output.slice(),
+            dims: [input.dims[0], output.length / dictionary.length, dictionary.length],
+        }));
+        const service = new RecognitionService(fakeOrt(), session, { charactersDictionary: dictionary, ...options });
+        const crop = new Image(96, 48, 4, new Uint8Array(96 * 48 * 4).fill(255));
+        return service.recognizeCrop(crop, { pattern: pattern ? new PatternAutomaton(pattern) : undefined });
+    }
+
+    it.each(["greedy", "beam"])("reports zero confidence when the %s decoder reads nothing", async (decoder) => {
+        const decoded = await recognize(frames({}, {}, {}), { decoder });
+        expect(decoded.text).toBe("");
+        expect(decoded.confidence).toBe(0);
+    });
+
+    it("reports zero confidence for an empty pattern match", async () => {
+        const decoded = await recognize(frames({}, {}, {}), {}, "\\d*");
+        expect(decoded).toMatchObject({ text: "", confidence: 0, patternMatched: true });
+    });
+
+    it("keeps the unconstrained reading when no path matches the pattern", async () => {
+        const decoded = await recognize(frames({ a: 0.98 }, {}, { b: 0.98 }), { decoder: "beam" }, "\\d+");
+        expect(decoded).toMatchObject({ text: "ab", patternMatched: false });
+        expect(decoded.confidence).toBeCloseTo(0.98, 5);
+    });
+});
@@ -0,0 +1,382 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { decodeBmp } from "../src/decoders/bmp";
+import { decodeImage, detectImageFormat } from "../src/decoders/decode";
+import { decodeJpeg } from "../src/decoders/jpeg";
+import { decodePng } from "../src/decoders/png";
+import { decodePnm } from "../src/decoders/pnm";
+import { encodePng } from "../src/encoders/png";
+import { ImageDecodeError } from "../src/errors";
+import { crc32, deflate, inflate } from "../src/utils/zlib";
+
+const ascii = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+function concat(...parts: (Uint8Array | number[])[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+    return out;
+}
+
+function u32(value: number): number[] {
+    return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function pngChunk(type: string, data: Uint8Array | number[]): Uint8Array {
+    const body = concat(ascii(type), data);
+    return concat(u32(data.length), body, u32(crc32(body)));
+}
+
+/**
+ * PNG of already filtered scanlines, compressed with Node's zlib
+ */
+function buildPng(
+    width: number,
+    height: number,
+    bitDepth: number,
+    colorType: number,
+    scanlines: Uint8Array,
+    extra: Uint8Array[] = [],
+    interlace = 0,
+): Uint8Array {
+    return concat(
+        [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+        pngChunk("IHDR", [...u32(width), ...u32(height), bitDepth, colorType, 0, 0, interlace]),
+        ...extra,
+        pngChunk("IDAT", deflateSync(scanlines)),
+        pngChunk("IEND", []),
+    );
+}
+
+/**
+ * Filter the rows of 8-bit pixels with one PNG filter type
+ */
+function filterRows(rows: Uint8Array[], bytesPerPixel: number, filter: number): Uint8Array {
+    const filtered: Uint8Array[] = [];
+    rows.forEach((row, y) => {
+        const previous = y > 0 ? rows[y - 1] : new Uint8Array(row.length);
+        const out = new Uint8Array(row.length + 1);
+        out[0] = filter;
+        for (let i = 0; i < row.length; i++) {
+            const a = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+            const b = previous[i];
+            const c = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+            const p = a + b - c;
+            const paeth =
+                Math.abs(p - a) <= Math.abs(p - b) && Math.abs(p - a) <= Math.abs(p - c)
+                    ? a
+                    : Math.abs(p - b) <= Math.abs(p - c)
+                      ? b
+                      : c;
+            const predictor = [0, a, b, (a + b) >> 1, paeth][filter];
+            out[i + 1] = (row[i] - predictor) & 0xff;
+        }
+        filtered.push(out);
+    });
+    return concat(...filtered);
+}
+
+function pixel(image: { width: number; data: Uint8Array }, x: number, y: number): number[] {
+    const offset = (y * image.width + x) * 4;
+    return Array.from(image.data.subarray(offset, offset + 4));
+}
+
+describe("zlib", () => {
+    const text = ascii("the quick brown fox jumps over the lazy dog ".repeat(200));
+    const noise = Uint8Array.from({ length: 5000 }, (_, i) => (i * 7919 + (i >> 3) * 31) & 0xff);
+
+    it("computes the standard CRC-32", () => {
+        expect(crc32(ascii("123456789"))).toBe(0xcbf43926);
+    });
+
+    it.each([0, 1, 6, 9])("inflates zlib streams of level %i", (level) => {
+        for (const data of [text, noise, new Uint8Array(0)]) {
+            expect(inflate(deflateSync(data, { level }))).toEqual(data);
+        }
+    });
+
+    it("inflates its own deflate output", () => {
+        expect(inflate(deflate(text))).toEqual(text);
+        expect(inflate(deflate(noise))).toEqual(noise);
+    });
+
+    it("rejects corrupt streams", () => {
+        const stream = deflateSync(noise);
+        expect(() => inflate(Uint8Array.of(0x78, 0x00, ...stream.subarray(2)))).toThrow(/bad header/);
+        expect(() => inflate(stream.subarray(0, stream.length >> 1))).toThrow();
+    });
+});
+
+describe("decodePng", () => {
+    const width = 5;
+    const height = 4;
+    const rows = Array.from({ length: height }, (_, y) =>
+        Uint8Array.from({ length: width * 3 }, (_, i) => (y * 53 + i * 29 + ((i * y) % 7) * 11) & 0xff),
+    );
+
+    it.each([0, 1, 2, 3, 4])("reverses filter type %i", (filter) => {
+        const image = decodePng(buildPng(width, height, 8, 2, filterRows(rows, 3, filter)));
+        expect(image.width).toBe(width);
+        expect(image.height).toBe(height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                expect(pixel(image, x, y)).toEqual([...rows[y].subarray(x * 3, x * 3 + 3), 255]);
+            }
+        }
+    });
+
+    it("expands 2-bit palettes with transparency", () => {
+        // Indices 0 1 2 3 packed in one byte
+        const palette = pngChunk("PLTE", [255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9]);
+        const transparency = pngChunk("tRNS", [0, 128]);
+        const image = decodePng(buildPng(4, 1, 2, 3, Uint8Array.of(0, 0b00011011), [palette, transparency]));
+        expect(Array.from(image.data)).toEqual([255, 0, 0, 0, 0, 255, 0, 128, 0, 0, 255, 255, 9, 9, 9, 255]);
+    });
+
+    it("reduces 16-bit grayscale to 8 bits", () => {
+        const image = decodePng(buildPng(2, 1, 16, 0, Uint8Array.of(0, 0x12, 0x34, 0xff, 0xff)));
+        expect(pixel(image, 0, 0)).toEqual([0x12, 0x12, 0x12, 255]);
+        expect(pixel(image, 1, 0)).toEqual([255, 255, 255, 255]);
+    });
+
+    it("places the pixels of Adam7 passes", () => {
+        const size = 8;
+        const value = (x: number, y: number) => y * size + x;
+        const passes = [
+            [0, 0, 8, 8],
+            [4, 0, 8, 8],
+            [0, 4, 4, 8],
+            [2, 0, 4, 4],
+            [0, 2, 2, 4],
+            [1, 0, 2, 2],
+            [0, 1, 1, 2],
+        ];
+        const scanlines: number[] = [];
+        for (const [x0, y0, dx, dy] of passes) {
+            for (let y = y0; y < size; y += dy) {
+                scanlines.push(0);
+                for (let x = x0; x < size; x += dx) scanlines.push(value(x, y));
+            }
+        }
+        const image = decodePng(buildPng(size, size, 8, 0, Uint8Array.from(scanlines), [], 1));
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                expect(pixel(image, x, y)[0]).toBe(value(x, y));
+            }
+        }
+    });
+
+    it("round-trips images written by encodePng", () => {
+        for (const channels of [1, 2, 3, 4]) {
+            const data = Uint8Array.from({ length: 7 * 3 * channels }, (_, i) => (i * 37) & 0xff);
+            const image = decodePng(encodePng({ width: 7, height: 3, data, channels }));
+            const expanded = (i: number) => {
+                const p = data.subarray(i * channels, (i + 1) * channels);
+                return channels < 3
+                    ? [p[0], p[0], p[0], channels === 2 ? p[1] : 255]
+                    : [p[0], p[1], p[2], channels === 4 ? p[3] : 255];
+            };
+            for (let i = 0; i < 21; i++) {
+                expect(pixel(image, i % 7, Math.floor(i / 7))).toEqual(expanded(i));
+            }
+        }
+    });
+
+    it("rejects truncated files", () => {
+        const png = buildPng(width, height, 8, 2, filterRows(rows, 3, 0));
+        expect(() => decodePng(png.subarray(0, 40))).toThrow(ImageDecodeError);
+    });
+
+    it("refuses images over the pixel limit from their header", () => {
+        const forged = buildPng(30000, 30000, 8, 6, Uint8Array.of(0));
+        expect(() => decodePng(forged)).toThrow(/30000x30000 pixels exceeds the limit/);
+        // Under the limit, the few bytes of data cannot make the decoder allocate the declared size
+        expect(() => decodePng(buildPng(9000, 9000, 8, 6, Uint8Array.of(0)))).toThrow(/truncated/);
+    });
+});
+
+describe("decodeBmp", () => {
+    function bmp(infoHeader: number[], palette: number[], pixels: number[]): Uint8Array {
+        const offset = 14 + infoHeader.length + palette.length;
+        const size = offset + pixels.length;
+        const le32 = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+        return Uint8Array.from([
+            0x42,
+            0x4d,
+            ...le32(size),
+            0,
+            0,
+            0,
+            0,
+            ...le32(offset),
+            ...infoHeader,
+            ...palette,
+            ...pixels,
+        ]);
+    }
+    function infoHeader(width: number, height: number, bitCount: number, colors = 0): number[] {
+        const header = new DataView(new ArrayBuffer(40));
+        header.setUint32(0, 40, true);
+        header.setInt32(4, width, true);
+        header.setInt32(8, height, true);
+        header.setUint16(12, 1, true);
+        header.setUint16(14, bitCount, true);
+        header.setUint32(32, colors, true);
+        return Array.from(new Uint8Array(header.buffer));
+    }
+
+    it("reads bottom-up 24-bit rows with padding", () => {
+        // Rows of 2 BGR pixels padded to 8 bytes, bottom row first
+        const pixels = [0, 0, 255, 0, 255, 0, 0, 0, 255, 0, 0, 255, 255, 255, 0, 0];
+        const image = decodeBmp(bmp(infoHeader(2, 2, 24), [], pixels));
+        expect(pixel(image, 0, 0)).toEqual([0, 0, 255, 255]);
+        expect(pixel(image, 1, 0)).toEqual([255, 255, 255, 255]);
+        expect(pixel(image, 0, 1)).toEqual([255, 0, 0, 255]);
+        expect(pixel(image, 1, 1)).toEqual([0, 255, 0, 255]);
+    });
+
+    it("reads top-down 8-bit palette images", () => {
+        const palette = [0, 0, 0, 0, 255, 255, 255, 0, 0, 0, 255, 0];
+        const pixels = [1, 2, 0, 0, 0, 1, 0, 0];
+        const image = decodeBmp(bmp(infoHeader(2, -2, 8, 3), palette, pixels));
+        expect(pixel(image, 0, 0)).toEqual([255, 255, 255, 255]);
+        expect(pixel(image, 1, 0)).toEqual([255, 0, 0, 255]);
+        expect(pixel(image, 0, 1)).toEqual([0, 0, 0, 255]);
+    });
+
+    it("refuses images over the pixel limit from their header", () => {
+        expect(() => decodeBmp(bmp(infoHeader(30000, -30000, 24), [], [0, 0, 0, 0]))).toThrow(/exceeds the limit/);
+    });
+
+    it("rejects other signatures", () => {
+        expect(() => decodeBmp(ascii("XX".padEnd(40, "\0")))).toThrow(ImageDecodeError);
+    });
+});
+
+describe("decodePnm", () => {
+    it("reads raw PPM", () => {
+        const image = decodePnm(concat(ascii("P6\n2 1\n255\n"), [1, 2, 3, 4, 5, 6]));
+        expect(Array.from(image.data)).toEqual([1, 2, 3, 255, 4, 5, 6, 255]);
+    });
+
+    it("reads plain PGM with comments and scales the maximum value", () => {
+        const image = decodePnm(ascii("P2\n# comment\n2 2\n15\n0 15\n7 3\n"));
+        expect([0, 1, 2, 3].map((i) => image.data[i * 4])).toEqual([0, 255, 119, 51]);
+    });
+
+    it("reads plain PBM with 1 as black", () => {
+        const image = decodePnm(ascii("P1\n3 1\n1 0 1\n"));
+        expect([0, 1, 2].map((i) => image.data[i * 4])).toEqual([0, 255, 0]);
+    });
+
+    it("refuses images over the pixel limit from their header", () => {
+        expect(() => decodePnm(ascii("P6\n30000 30000\n255\n\0\0\0"))).toThrow(/exceeds the limit/);
+    });
+
+    it("rejects truncated pixel data", () => {
+        expect(() => decodePnm(concat(ascii("P6\n2 2\n255\n"), [1, 2, 3]))).toThrow(ImageDecodeError);
+    });
+});
+
+describe("decodeJpeg", () => {
+    /**
+     * Baseline 16x8 grayscale JPEG of two flat blocks, 150 on the left and 130 on the right.
+     * Both DC differences are in Huffman category 8, the only DC symbol; the only AC symbol is end of block.
+     */
+    function twoBlockJpeg(orientation?: number): Uint8Array {
+        const segment = (marker: number, body: number[]) => [
+            0xff,
+            marker,
+            (body.length + 2) >> 8,
+            (body.length + 2) & 0xff,
+            ...body,
+        ];
+        const huffman = (tableClass: number, symbol: number) => [tableClass << 4, 1, ...new Array(15).fill(0), symbol];
+        const exif = orientation
+            ? segment(0xe1, [
+                  ...ascii("Exif\0\0"),
+                  ...ascii("MM\0*"),
+                  ...u32(8),
+                  0,
+                  1,
+                  0x01,
+                  0x12,
+                  0,
+                  3,
+                  ...u32(1),
+                  0,
+                  orientation,
+                  0,
+                  0,
+                  ...u32(0),
+              ])
+            : [];
+        return Uint8Array.from([
+            0xff,
+            0xd8,
+            ...exif,
+            ...segment(0xdb, [0, ...new Array(64).fill(1)]),
+            ...segment(0xc0, [8, 0, 8, 0, 16, 1, 1, 0x11, 0]),
+            ...segment(0xc4, huffman(0, 8)),
+            ...segment(0xc4, huffman(1, 0)),
+            ...segment(0xda, [1, 1, 0x00, 0, 63, 0]),
+            // 0 10110000 0 | 0 01011111 0, padded with ones: DC 176 then -160
+            0x58,
+            0x0b,
+            0xef,
+            0xff,
+            0xd9,
+        ]);
+    }
+
+    it("decodes baseline Huffman blocks", () => {
+        const image = decodeJpeg(twoBlockJpeg());
+        expect([image.width, image.height]).toEqual([16, 8]);
+        expect(pixel(image, 3, 4)).toEqual([150, 150, 150, 255]);
+        expect(pixel(image, 12, 4)).toEqual([130, 130, 130, 255]);
+    });
+
+    it("applies the EXIF orientation", () => {
+        // Orientation 6 is displayed rotated 90 degrees clockwise: the left block comes on top
+        const image = decodeJpeg(twoBlockJpeg(6));
+        expect([image.width, image.height]).toEqual([8, 16]);
+        expect(pixel(image, 4, 3)[0]).toBe(150);
+        expect(pixel(image, 4, 12)[0]).toBe(130);
+        expect(decodeJpeg(twoBlockJpeg(6), false).width).toBe(16);
+    });
+
+    it("refuses images over the pixel limit from their frame header", () => {
+        const frame = [0xff, 0xc0, 0, 11, 8, 0xff, 0xff, 0xff, 0xff, 1, 1, 0x11, 0];
+        expect(() => decodeJpeg(Uint8Array.of(0xff, 0xd8, ...frame, 0xff, 0xd9))).toThrow(
+            /65535x65535 pixels exceeds the limit/,
+        );
+    });
+
+    it("rejects files without a frame", () => {
+        expect(() => decodeJpeg(Uint8Array.of(0xff, 0xd8, 0xff, 0xd9))).toThrow(ImageDecodeError);
+    });
+});
+
+describe("decodeImage", () => {
+    it("detects formats from their magic bytes", () => {
+        expect(detectImageFormat(encodePng({ width: 1, height: 1, data: Uint8Array.of(0) }))).toBe("png");
+        expect(detectImageFormat(Uint8Array.of(0xff, 0xd8, 0xff, 0xe0))).toBe("jpeg");
+        expect(detectImageFormat(ascii("BM\0\0"))).toBe("bmp");
+        expect(detectImageFormat(ascii("P5\n1 1\n255\n\0"))).toBe("pnm");
+        expect(detectImageFormat(ascii("GIF89a"))).toBeNull();
+    });
+
+    it("dispatches to the decoder of the format", () => {
+        const image = decodeImage(ascii("P5\n1 1\n255\nA").buffer);
+        expect(Array.from(image.data)).toEqual([65, 65, 65, 255]);
+    });
+
+    it("applies the pixel limit of the options", () => {
+        const png = encodePng({ width: 4, height: 4, data: new Uint8Array(16), channels: 1 });
+        expect(() => decodeImage(png, { maxPixels: 15 })).toThrow(ImageDecodeError);
+        expect(decodeImage(png, { maxPixels: 16 }).width).toBe(4);
+    });
+
+    it("rejects unsupported formats", () => {
+        expect(() => decodeImage(ascii("GIF89a"))).toThrow(ImageDecodeError);
+    });
+});
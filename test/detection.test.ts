@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { Box, DetectionServiceOptions } from "../src/interface";
+import { DetectionService, type DetectionArtifacts } from "../src/processor/detection";
+import { Image } from "../src/utils/image";
+import { fakeOrt, fakeSession } from "./fake-ort";
+
+/** Detection model taking dark pixels for text, as normalized inputs are negative below mid-gray. */
+const session = fakeSession(({ data, dims: [, , height, width] }) => ({
+    data: Float32Array.from(data.subarray(0, height * width), (value) => (value < 0 ? 0.9 : 0.05)),
+    dims: [1, 1, height, width],
+}));
+
+/**
+ * Light gray page with the given boxes painted black
+ */
+function page(width: number, height: number, boxes: Box[]): Image {
+    const data = new Uint8Array(width * height * 4).fill(200);
+    for (const box of boxes) {
+        for (let y = box.y; y < box.y + box.height; y++) {
+            data.fill(0, (y * width + box.x) * 4, (y * width + box.x + box.width) * 4);
+        }
+    }
+    return new Image(width, height, 4, data);
+}
+
+function createService(options: Partial<DetectionServiceOptions> = {}): DetectionService {
+    return new DetectionService(fakeOrt(), session, options);
+}
+
+describe("DetectionService tiling", () => {
+    const tiled = { tiling: "always", tileSize: 200, tileOverlap: 50 } as const;
+
+    it("aligns the last tile of each axis to the far edge", async () => {
+        const artifacts: DetectionArtifacts[] = [];
+        await createService(tiled).run(page(520, 260, []), artifacts);
+        expect(artifacts.map(({ x, y }) => [x, y])).toEqual([
+            [0, 0],
+            [150, 0],
+            [300, 0],
+            [320, 0],
+            [0, 60],
+            [150, 60],
+            [300, 60],
+            [320, 60],
+        ]);
+    });
+
+    it("merges the parts of a line cut by tile borders into one box", async () => {
+        const line = { x: 100, y: 60, width: 360, height: 20 };
+        const [reference] = await createService().run(page(520, 150, [line]));
+        const boxes = await createService(tiled).run(page(520, 150, [line]));
+        expect(boxes).toHaveLength(1);
+        expect(boxes[0].x).toBeLessThanOrEqual(line.x);
+        expect(boxes[0].x + boxes[0].width).toBeGreaterThanOrEqual(line.x + line.width);
+        expect(Math.abs(boxes[0].y - reference.y)).toBeLessThanOrEqual(2);
+        expect(Math.abs(boxes[0].height - reference.height)).toBeLessThanOrEqual(4);
+    });
+
+    it("keeps overlapping boxes found in the same tile apart", async () => {
+        // Two close words of the first tile, whose padded boxes overlap
+        const words = [
+            { x: 10, y: 60, width: 40, height: 20 },
+            { x: 56, y: 60, width: 40, height: 20 },
+        ];
+        const boxes = await createService(tiled).run(page(520, 150, words));
+        expect(boxes).toHaveLength(2);
+        expect(boxes[0].x + boxes[0].width).toBeGreaterThan(boxes[1].x);
+    });
+});
+
+describe("DetectionService DB post-process", () => {
+    /** Probability map of 0.9 on black pixels and 0.55 on dark gray ones, just above the text threshold. */
+    const graded = fakeSession(({ data, dims: [, , height, width] }) => ({
+        data: Float32Array.from(data.subarray(0, height * width), (value) =>
+            value < -0.5 ? 0.9 : value < 0 ? 0.55 : 0.05,
+        ),
+        dims: [1, 1, height, width],
+    }));
+
+    /** Black line at (50, 40) and faint gray line at (50, 100), each 100x20, on a page detected at its own size. */
+    function twoLines(): Image {
+        const image = page(320, 160, [{ x: 50, y: 40, width: 100, height: 20 }]);
+        for (let y = 100; y < 120; y++) {
+            image.data.fill(100, (y * 320 + 50) * 4, (y * 320 + 150) * 4);
+        }
+        return image;
+    }
+
+    const detect = (options: Partial<DetectionServiceOptions>) =>
+        new DetectionService(fakeOrt(), graded, { postprocessMode: "db", maxSideLength: 320, ...options }).run(
+            twoLines(),
+        );
+
+    it("drops regions whose mean probability is below boxScoreThreshold", async () => {
+        const confident = await detect({ boxScoreThreshold: 0.6 });
+        expect(confident).toHaveLength(1);
+        expect(confident[0].y).toBeLessThan(40);
+
+        const all = await detect({ boxScoreThreshold: 0.5 });
+        expect(all.map((box) => box.y > 60).sort()).toEqual([false, true]);
+    });
+
+    it("unclips the kept regions by area * unclipRatio / perimeter", async () => {
+        const [box] = await detect({ unclipRatio: 1.5 });
+        // Contour through the pixel centers: 99x19, offset by 99 * 19 * 1.5 / 236
+        const offset = (99 * 19 * 1.5) / 236;
+        expect(box.x).toBeCloseTo(50.5 - offset, -0.5);
+        expect(box.y).toBeCloseTo(40.5 - offset, -0.5);
+        expect(box.width).toBeCloseTo(99 + 2 * offset, -0.5);
+        expect(box.height).toBeCloseTo(19 + 2 * offset, -0.5);
+    });
+});
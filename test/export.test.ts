@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { parseAlto, toAlto } from "../src/export/alto";
+import { parseHocr, toHocr } from "../src/export/hocr";
+import { parsePageXml, toPageXml } from "../src/export/page-xml";
+import { analyzeLayout, type PageLayout } from "../src/layout/layout";
+import type { RecognitionResult } from "../src/processor/recognition";
+
+function line(text: string, x: number, y: number, confidence = 0.9): RecognitionResult {
+    const width = text.length * 10;
+    return {
+        text,
+        confidence,
+        box: { x, y, width, height: 20 },
+        characters: Array.from(text, (char, i) => ({
+            char,
+            confidence,
+            box: { x: x + i * 10, y, width: 10, height: 20 },
+        })),
+    };
+}
+
+const layout = analyzeLayout(
+    [
+        line("Invoice <A&B>", 40, 40),
+        line("Total 12.50", 40, 70, 0.8),
+        line("Page 1", 600, 40, 0.7),
+        line("Thank you", 40, 400, 0.95),
+    ],
+    { width: 800, height: 600 },
+);
+
+/**
+ * Shape of a layout that every format keeps: texts, boxes and rounded confidences
+ */
+function outline(page: PageLayout) {
+    return {
+        text: page.text,
+        size: [page.width, page.height],
+        blocks: page.blocks.map((block) =>
+            block.lines.map((l) => ({
+                text: l.text,
+                box: [l.box.x, l.box.y, l.box.width, l.box.height].map(Math.round),
+                words: l.words.map((word) => [word.text, Math.round(word.box.x), Math.round(word.box.width)]),
+                confidence: Math.round(l.confidence * 100),
+            })),
+        ),
+    };
+}
+
+describe.each([
+    ["hOCR", toHocr, parseHocr],
+    ["ALTO", toAlto, parseAlto],
+    ["PAGE XML", toPageXml, parsePageXml],
+])("%s", (_name, write, parse) => {
+    it("reads back the layout it wrote", () => {
+        expect(layout.blocks.length).toBeGreaterThan(1);
+        expect(layout.blocks[0].lines[0].words.length).toBeGreaterThan(1);
+        expect(outline(parse(write(layout, { imageName: "scan.png" })))).toEqual(outline(layout));
+    });
+
+    it("escapes the text", () => {
+        const document = write(layout);
+        expect(document).toContain("&lt;A&amp;B&gt;");
+        expect(document).not.toContain("<A&B>");
+    });
+});
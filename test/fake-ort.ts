@@ -0,0 +1,40 @@
+import type * as ort from "onnxruntime-node";
+
+export interface FakeTensor {
+    data: Float32Array;
+    dims: number[];
+}
+
+/**
+ * Inference session computing its single output `o` from the NCHW input `x` with `run`
+ */
+export function fakeSession(run: (input: FakeTensor) => FakeTensor): ort.InferenceSession {
+    const session = {
+        inputNames: ["x"],
+        outputNames: ["o"],
+        run: async (feeds: Record<string, FakeTensor>) => ({ o: run(feeds.x) }),
+        release: async () => undefined,
+    };
+    return session as unknown as ort.InferenceSession;
+}
+
+/**
+ * Runtime module creating plain tensors, and the sessions of `sessions` keyed by model buffer
+ */
+export function fakeOrt(sessions = new Map<ArrayBuffer, ort.InferenceSession>()): typeof ort {
+    const module = {
+        Tensor: class {
+            readonly data: Float32Array;
+            readonly dims: number[];
+
+            constructor(_type: string, data: Float32Array, dims: number[]) {
+                this.data = data;
+                this.dims = dims;
+            }
+        },
+        InferenceSession: {
+            create: async (model: ArrayBuffer) => sessions.get(model),
+        },
+    };
+    return module as unknown as typeof ort;
+}
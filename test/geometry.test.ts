@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import type { Point, Quad } from "../src/interface";
+import {
+    applyPerspectiveTransform,
+    getPerspectiveTransform,
+    minAreaRect,
+    distance,
+    orderQuadPoints,
+    polygonArea,
+    unclipQuad,
+} from "../src/utils/geometry";
+
+function expectPoints(actual: Point[], expected: Point[], digits = 6) {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((point, i) => {
+        expect(point.x).toBeCloseTo(expected[i].x, digits);
+        expect(point.y).toBeCloseTo(expected[i].y, digits);
+    });
+}
+
+/**
+ * Corners of a `width` x `height` rectangle centered on (cx, cy), turned clockwise by `degrees`
+ */
+function rotatedRect(cx: number, cy: number, width: number, height: number, degrees: number): Quad {
+    const radians = (degrees * Math.PI) / 180;
+    const [cos, sin] = [Math.cos(radians), Math.sin(radians)];
+    return [
+        [-1, -1],
+        [1, -1],
+        [1, 1],
+        [-1, 1],
+    ].map(([su, sv]) => {
+        const [u, v] = [(su * width) / 2, (sv * height) / 2];
+        return { x: cx + u * cos - v * sin, y: cy + u * sin + v * cos };
+    }) as Quad;
+}
+
+describe("minAreaRect", () => {
+    it("fits the rotated rectangle around its corners and inner points", () => {
+        const corners = rotatedRect(50, 50, 40, 10, 30);
+        const inner = [0.2, 0.5, 0.8].map((t) => ({
+            x: corners[0].x + (corners[2].x - corners[0].x) * t,
+            y: corners[0].y + (corners[2].y - corners[0].y) * t,
+        }));
+        const rect = minAreaRect([...inner, corners[2], corners[0], corners[3], corners[1]]);
+        expect(polygonArea(rect)).toBeCloseTo(400, 6);
+        expectPoints(rect, corners);
+    });
+
+    it("boxes sets of fewer than three hull points", () => {
+        expectPoints(
+            minAreaRect([
+                { x: 1, y: 2 },
+                { x: 5, y: 2 },
+            ]),
+            [
+                { x: 1, y: 2 },
+                { x: 5, y: 2 },
+                { x: 5, y: 2 },
+                { x: 1, y: 2 },
+            ],
+        );
+        expect(() => minAreaRect([])).toThrow();
+    });
+});
+
+describe("unclipQuad", () => {
+    it("offsets every side by area * ratio / perimeter, as PaddleOCR does", () => {
+        // 100x20: 2000 * 1.5 / 240
+        expectPoints(
+            unclipQuad(rotatedRect(50, 10, 100, 20, 0), 1.5),
+            rotatedRect(50, 10, 100 + 2 * 12.5, 20 + 2 * 12.5, 0),
+        );
+        expectPoints(unclipQuad(rotatedRect(50, 50, 40, 10, 30), 2), rotatedRect(50, 50, 56, 26, 30));
+    });
+
+    it("keeps the sides parallel to the original ones", () => {
+        const quad = rotatedRect(0, 0, 60, 12, -15);
+        const [tl, tr, , bl] = unclipQuad(quad, 1.5);
+        const offset = (60 * 12 * 1.5) / 144;
+        expect(distance(tl, tr)).toBeCloseTo(60 + 2 * offset, 6);
+        expect(distance(tl, bl)).toBeCloseTo(12 + 2 * offset, 6);
+        expect(Math.atan2(tr.y - tl.y, tr.x - tl.x)).toBeCloseTo(
+            Math.atan2(quad[1].y - quad[0].y, quad[1].x - quad[0].x),
+        );
+    });
+
+    it("leaves degenerate quads as they are", () => {
+        const point = { x: 3, y: 4 };
+        const quad: Quad = [point, point, point, point];
+        expect(unclipQuad(quad, 1.5)).toBe(quad);
+    });
+});
+
+describe("orderQuadPoints", () => {
+    it("orders the corners top-left, top-right, bottom-right, bottom-left", () => {
+        const quad: Quad = [
+            { x: 10, y: 0 },
+            { x: 100, y: 10 },
+            { x: 95, y: 40 },
+            { x: 5, y: 30 },
+        ];
+        for (const order of [
+            [2, 0, 3, 1],
+            [3, 2, 1, 0],
+            [1, 3, 0, 2],
+        ]) {
+            expect(orderQuadPoints(order.map((i) => quad[i]))).toEqual(quad);
+        }
+    });
+});
+
+describe("getPerspectiveTransform", () => {
+    const square: Quad = [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 50 },
+        { x: 0, y: 50 },
+    ];
+    const trapezoid: Quad = [
+        { x: 20, y: 10 },
+        { x: 90, y: 0 },
+        { x: 110, y: 70 },
+        { x: 0, y: 60 },
+    ];
+
+    it("maps the corners onto the target quad", () => {
+        const matrix = getPerspectiveTransform(square, trapezoid);
+        expect(matrix).toHaveLength(9);
+        expect(matrix[8]).toBe(1);
+        expectPoints(
+            square.map((p) => applyPerspectiveTransform(matrix, p)),
+            trapezoid,
+        );
+    });
+
+    it("maps the center onto the crossing of the diagonals", () => {
+        const matrix = getPerspectiveTransform(square, trapezoid);
+        const [a, b, c, d] = trapezoid;
+        // Intersection of the diagonals a-c and b-d
+        const t =
+            ((b.x - a.x) * (d.y - b.y) - (b.y - a.y) * (d.x - b.x)) /
+            ((c.x - a.x) * (d.y - b.y) - (c.y - a.y) * (d.x - b.x));
+        const crossing = { x: a.x + (c.x - a.x) * t, y: a.y + (c.y - a.y) * t };
+        expectPoints([applyPerspectiveTransform(matrix, { x: 50, y: 25 })], [crossing]);
+    });
+
+    it("inverts when source and target are swapped", () => {
+        const forward = getPerspectiveTransform(square, trapezoid);
+        const backward = getPerspectiveTransform(trapezoid, square);
+        const point = { x: 37, y: 12 };
+        expectPoints([applyPerspectiveTransform(backward, applyPerspectiveTransform(forward, point))], [point]);
+    });
+});
@@ -0,0 +1,42 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { expandGlob } from "../src/cli/glob";
+
+describe("expandGlob", () => {
+    let root = "";
+    const files = ["a.png", "b.jpg", "c1.png", ".hidden.png", "scans/d.png", "scans/deep/e.png", ".git/f.png"];
+
+    beforeAll(async () => {
+        root = await mkdtemp(join(tmpdir(), "paddleocr-glob-"));
+        for (const file of files) {
+            await mkdir(join(root, file, ".."), { recursive: true });
+            await writeFile(join(root, file), "");
+        }
+    });
+    afterAll(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    const expand = async (pattern: string) =>
+        (await expandGlob(`${root}/${pattern}`)).map((path) => path.slice(root.length + 1));
+
+    it("matches wildcards within a directory, skipping hidden entries", async () => {
+        expect(await expand("*.png")).toEqual(["a.png", "c1.png"]);
+        expect(await expand("?.*")).toEqual(["a.png", "b.jpg"]);
+        expect(await expand("[ab].*")).toEqual(["a.png", "b.jpg"]);
+        expect(await expand("[!ab]*")).toEqual(["c1.png"]);
+        expect(await expand(".*.png")).toEqual([".hidden.png"]);
+    });
+
+    it("descends any number of directories with **", async () => {
+        expect(await expand("**/*.png")).toEqual(["a.png", "c1.png", "scans/d.png", "scans/deep/e.png"]);
+        expect(await expand("scans/**")).toEqual(["scans/d.png", "scans/deep/e.png"]);
+    });
+
+    it("returns paths without wildcards as they are", async () => {
+        expect(await expandGlob("missing/file.png")).toEqual(["missing/file.png"]);
+        expect(await expand("missing/*.png")).toEqual([]);
+    });
+});
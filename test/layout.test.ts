@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { Box } from "../src/interface";
+import { analyzeLayout, splitWords } from "../src/layout/layout";
+import type { RecognitionResult } from "../src/processor/recognition";
+
+function result(text: string, box: Box, confidence = 0.9): RecognitionResult {
+    return { text, confidence, box };
+}
+
+const row = (text: string, x: number, y: number, width = 200) => result(text, { x, y, width, height: 20 });
+
+describe("analyzeLayout", () => {
+    it("reads a title then two columns top to bottom, left column first", () => {
+        const page = analyzeLayout(
+            [
+                row("right 1", 300, 60),
+                row("left 1", 0, 60),
+                row("right 2", 300, 90),
+                row("left 2", 0, 90),
+                row("Title", 0, 0, 500),
+                row("left 3", 0, 120),
+            ],
+            { width: 600, height: 200 },
+        );
+        expect(page.blocks.map((block) => [block.text, block.column])).toEqual([
+            ["Title", 0],
+            ["left 1\nleft 2\nleft 3", 0],
+            ["right 1\nright 2", 1],
+        ]);
+        expect(page.text).toBe("Title\n\nleft 1\nleft 2\nleft 3\n\nright 1\nright 2");
+        expect([page.width, page.height]).toEqual([600, 200]);
+    });
+
+    it("merges results sharing a row into one line of the block", () => {
+        const page = analyzeLayout([
+            row("world", 60, 2, 50),
+            row("Hello", 0, 0, 50),
+            row("again", 0, 25, 50),
+            // Far below, a paragraph of its own
+            row("Bye", 0, 100, 30),
+        ]);
+        expect(page.blocks).toHaveLength(2);
+        const [block] = page.blocks;
+        expect(block.lines.map((line) => line.text)).toEqual(["Hello world", "again"]);
+        expect(block.lines[0].box).toEqual({ x: 0, y: 0, width: 110, height: 22 });
+        expect(block.lines[0].results.map((r) => r.text)).toEqual(["Hello", "world"]);
+        expect(block.box).toEqual({ x: 0, y: 0, width: 110, height: 45 });
+    });
+});
+
+describe("splitWords", () => {
+    it("boxes words with their character boxes", () => {
+        const widths = [4, 6, 20, 8, 5];
+        let x = 0;
+        const characters = Array.from("ab cd", (char, i) => {
+            const box = { x, y: 0, width: widths[i], height: 10 };
+            x += widths[i];
+            return { char, confidence: 0.5 + i / 10, box };
+        });
+        const words = splitWords({ ...result("ab cd", { x: 0, y: 0, width: x, height: 10 }), characters });
+        expect(words.map((word) => [word.text, word.box.x, word.box.width])).toEqual([
+            ["ab", 0, 10],
+            ["cd", 30, 13],
+        ]);
+        expect(words[0].confidence).toBeCloseTo(0.55);
+        expect(words[1].confidence).toBeCloseTo(0.85);
+    });
+
+    it("divides the line box by the character count without character boxes", () => {
+        const words = splitWords(result("ab  cd", { x: 10, y: 5, width: 60, height: 10 }, 0.7));
+        expect(words).toEqual([
+            { text: "ab", box: { x: 10, y: 5, width: 20, height: 10 }, confidence: 0.7 },
+            { text: "cd", box: { x: 50, y: 5, width: 20, height: 10 }, confidence: 0.7 },
+        ]);
+    });
+
+    it("divides the height of vertical lines", () => {
+        const words = splitWords({ ...result("ab c", { x: 0, y: 0, width: 10, height: 40 }), direction: "vertical" });
+        expect(words.map((word) => word.box)).toEqual([
+            { x: 0, y: 0, width: 10, height: 20 },
+            { x: 0, y: 30, width: 10, height: 10 },
+        ]);
+    });
+});
@@ -0,0 +1,171 @@
+import type * as ort from "onnxruntime-node";
+import { describe, expect, it } from "vitest";
+import { ModelValidationError } from "../src/errors";
+import { loadModelBundle, parseModelManifest } from "../src/models/bundle";
+import { outputClasses, validateDictionary, validateModel, type ModelSignature } from "../src/models/validate";
+import { fakeSession } from "./fake-ort";
+
+type Shape = (number | string)[];
+
+/**
+ * Session whose input `x` and first output have the given shapes in their metadata
+ */
+function sessionWith(input?: Shape, output?: Shape, names: Partial<ort.InferenceSession> = {}): ort.InferenceSession {
+    const session = fakeSession(() => ({ data: new Float32Array(0), dims: [] }));
+    const metadata = (name: string, shape?: Shape) =>
+        shape ? [{ name, isTensor: true, type: "float32", shape }] : undefined;
+    return {
+        ...session,
+        inputMetadata: metadata("x", input),
+        outputMetadata: metadata("o", output),
+        ...names,
+    } as unknown as ort.InferenceSession;
+}
+
+const recognition: ModelSignature = { model: "Recognition", inputHeight: 48, outputRank: 3, classes: 97 };
+
+describe("validateModel", () => {
+    it.each<[string, ort.InferenceSession, string]>([
+        [
+            "a misnamed input",
+            sessionWith(undefined, undefined, { inputNames: ["image"] }),
+            'Recognition model has inputs [image], expected an input named "x"',
+        ],
+        ["no outputs", sessionWith(undefined, undefined, { outputNames: [] }), "Recognition model has no outputs"],
+        [
+            "an input of rank 3",
+            sessionWith([1, 3, 48]),
+            "Recognition model input has shape [1, 3, 48], expected [batch, 3, height, width]",
+        ],
+        [
+            "a grayscale input",
+            sessionWith(["N", 1, 48, "W"]),
+            "Recognition model input has shape [N, 1, 48, W], expected [batch, 3, height, width]",
+        ],
+        [
+            "another input height",
+            sessionWith(["N", 3, 32, "W"]),
+            "Recognition model expects inputs 32 pixels high, but is configured for 48",
+        ],
+        [
+            "an output of another rank",
+            sessionWith(["N", 3, 48, "W"], ["N", 1, "H", "W"]),
+            "Recognition model output has shape [N, 1, H, W], expected 3 dimensions. Is it the right model?",
+        ],
+        [
+            "another class count",
+            sessionWith(["N", 3, 48, "W"], ["N", "T", 6625]),
+            "Recognition model outputs 6625 classes, expected 97. Is it the right model?",
+        ],
+    ])("refuses %s", (_name, session, message) => {
+        expect(() => validateModel(session, recognition)).toThrow(new ModelValidationError(message));
+    });
+
+    it("refuses another input width", () => {
+        const session = sessionWith([1, 3, 48, 192]);
+        expect(() => validateModel(session, { ...recognition, inputWidth: 160 })).toThrow(
+            "Recognition model expects inputs 192 pixels wide, but is configured for 160",
+        );
+    });
+
+    it("accepts symbolic dimensions and sessions without metadata", () => {
+        expect(() => validateModel(sessionWith(["N", 3, "H", "W"], ["N", "T", "C"]), recognition)).not.toThrow();
+        expect(() => validateModel(sessionWith(["N", 3, 48, "W"], ["N", "T", 97]), recognition)).not.toThrow();
+        expect(() => validateModel(sessionWith(), recognition)).not.toThrow();
+    });
+
+    it("reads the class count of the output", () => {
+        expect(outputClasses(sessionWith(undefined, ["N", "T", 97]))).toBe(97);
+        expect(outputClasses(sessionWith(undefined, ["N", "T", "C"]))).toBeNull();
+        expect(outputClasses(sessionWith())).toBeNull();
+    });
+});
+
+describe("validateDictionary", () => {
+    it.each([
+        [96, 'Is the blank entry at index 0 missing? Dictionaries start with an empty line ("").'],
+        [95, "Are both the blank entry at index 0 and the trailing space entry missing?"],
+        [50, "Is it the dictionary of this model?"],
+    ])("refuses %i entries for 97 classes", (entries, hint) => {
+        expect(() => validateDictionary(97, new Array<string>(entries).fill("a"))).toThrow(
+            new ModelValidationError(
+                `Recognition dictionary has ${entries} entries (blank included) but the model outputs 97 classes. ${hint}`,
+            ),
+        );
+    });
+
+    it("accepts a dictionary of one entry per class", () => {
+        expect(() => validateDictionary(3, ["", "a", "b"])).not.toThrow();
+    });
+});
+
+describe("parseModelManifest", () => {
+    const detection = { file: "det.onnx" };
+
+    it.each<[unknown, string]>([
+        ["{", "Invalid model manifest: "],
+        [[], "expected an object"],
+        [{}, "version must be a string"],
+        [{ version: "1", name: 3, detection }, "name must be a string"],
+        [{ version: "1" }, "expected a detection or a recognition model"],
+        [{ version: "1", detection: "det.onnx" }, "detection must be an object"],
+        [{ version: "1", detection: { file: "" } }, "detection.file must be a path"],
+        [{ version: "1", detection: { ...detection, mean: [0.5, 0.5] } }, "detection.mean must be 3 numbers"],
+        [{ version: "1", detection: { ...detection, std: [0.5, 0, 0.5] } }, "detection.std must be 3 positive numbers"],
+        [{ version: "1", recognition: { file: "rec.onnx" } }, "recognition.dictionary must be a path or a list"],
+        [{ version: "1", recognition: { file: "rec.onnx", dictionary: [1, 2] } }, "recognition.dictionary must be"],
+        [
+            { version: "1", recognition: { file: "rec.onnx", dictionary: "keys.txt", imageHeight: 0 } },
+            "recognition.imageHeight must be a positive integer",
+        ],
+        [
+            { version: "1", detection, classification: { file: "cls.onnx", imageShape: [48] } },
+            "classification.imageShape must be [height, width]",
+        ],
+        [
+            { version: "1", detection, orientation: { file: "ori.onnx", imageSize: 1.5 } },
+            "orientation.imageSize must be a positive integer",
+        ],
+    ])("refuses %j", (manifest, message) => {
+        const parse = () => parseModelManifest(typeof manifest === "string" ? manifest : (manifest as object));
+        expect(parse).toThrow(ModelValidationError);
+        expect(parse).toThrow(message);
+    });
+});
+
+describe("loadModelBundle", () => {
+    const files: Record<string, ArrayBuffer | Uint8Array | string> = {
+        "det.onnx": Uint8Array.of(9, 1, 2, 3).subarray(1),
+        "rec.onnx": Uint8Array.of(4, 5).buffer,
+        "keys.txt": new TextEncoder().encode("\na\r\nb"),
+        "cls.onnx": "not binary",
+    };
+    const readFile = async (path: string) => files[path];
+
+    it("reads the models and converts PaddleOCR's normalization", async () => {
+        const manifest = JSON.stringify({
+            version: "1",
+            detection: { file: "det.onnx", mean: [0.485, 0.456, 0.406], std: [0.229, 0.224, 0.225] },
+            recognition: { file: "rec.onnx", dictionary: "keys.txt", imageHeight: 32, mean: [0.5, 0.5, 0.5] },
+        });
+        const { detection, recognition, classification } = await loadModelBundle(manifest, readFile);
+
+        expect(new Uint8Array(detection!.modelBuffer!)).toEqual(Uint8Array.of(1, 2, 3));
+        detection!.mean!.forEach((value, i) => expect(value).toBeCloseTo([123.675, 116.28, 103.53][i]));
+        detection!.stdDeviation!.forEach((value, i) => expect(value).toBeCloseTo(1 / [58.395, 57.12, 57.375][i], 8));
+        expect(recognition).toEqual({
+            modelBuffer: files["rec.onnx"],
+            mean: [127.5, 127.5, 127.5],
+            charactersDictionary: ["", "a", "b"],
+            imageHeight: 32,
+        });
+        expect(classification).toBeUndefined();
+    });
+
+    it("refuses models read as text", async () => {
+        const manifest = { version: "1", detection: { file: "det.onnx" }, classification: { file: "cls.onnx" } };
+        await expect(loadModelBundle(JSON.stringify(manifest), readFile)).rejects.toThrow(
+            "Model files must be read as binary data, not text",
+        );
+    });
+});
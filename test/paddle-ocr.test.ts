@@ -0,0 +1,199 @@
+import type * as ort from "onnxruntime-node";
+import { describe, expect, it } from "vitest";
+import { OcrAbortError } from "../src/errors";
+import type { Box, ImageInput, OcrProgress, RecognitionServiceOptions } from "../src/interface";
+import { PaddleOcrService } from "../src/processor/paddle-ocr";
+import { fakeOrt, fakeSession } from "./fake-ort";
+
+const dictionary = ["", ..."abcdefghij"];
+
+/** Detection model taking dark pixels for text, as normalized inputs are negative below mid-gray. */
+const detection = fakeSession(({ data, dims: [, , height, width] }) => ({
+    data: Float32Array.from(data.subarray(0, height * width), (value) => (value < 0 ? 0.9 : 0.05)),
+    dims: [1, 1, height, width],
+}));
+
+/** Inference calls of the recognition model. */
+let recognitionRuns = 0;
+
+/** Recognition model reading one character every third timestep. */
+const recognition = fakeSession(({ dims: [batch, , , width] }) => {
+    recognitionRuns++;
+    const timesteps = Math.floor(width / 8);
+    const classes = dictionary.length;
+    const output = new Float32Array(batch * timesteps * classes);
+    for (let n = 0; n < batch; n++) {
+        for (let t = 0; t < timesteps; t++) {
+            output[(n * timesteps + t) * classes + (t % 3 === 1 ? 1 + (t % 10) : 0)] = 0.9;
+        }
+    }
+    return { data: output, dims: [batch, timesteps, classes] };
+});
+
+/** The same recognition model, answering on the next timer tick like a real runtime. */
+const slowRecognition = {
+    ...recognition,
+    run: async (feeds: ort.InferenceSession.FeedsType) => {
+        await new Promise((resolve) => setTimeout(resolve));
+        return recognition.run(feeds);
+    },
+} as ort.InferenceSession;
+
+const detectionModel = new ArrayBuffer(1);
+const recognitionModel = new ArrayBuffer(1);
+const slowRecognitionModel = new ArrayBuffer(1);
+const ortModule = fakeOrt(
+    new Map([
+        [detectionModel, detection],
+        [recognitionModel, recognition],
+        [slowRecognitionModel, slowRecognition],
+    ]),
+);
+
+/** Light gray page with a dark 280x30 line at (60, 100). */
+const input: ImageInput = { width: 500, height: 300, data: new Uint8Array(500 * 300 * 4).fill(200) };
+for (let y = 100; y < 130; y++) {
+    input.data.fill(0, (y * 500 + 60) * 4, (y * 500 + 340) * 4);
+}
+
+/** The same page with three dark lines at y 40, 130 and 220. */
+const threeLines: ImageInput = { width: 500, height: 300, data: new Uint8Array(500 * 300 * 4).fill(200) };
+for (const top of [40, 130, 220]) {
+    for (let y = top; y < top + 20; y++) {
+        threeLines.data.fill(0, (y * 500 + 60) * 4, (y * 500 + 340) * 4);
+    }
+}
+
+function createService(
+    padding: number,
+    recognitionOptions: Partial<RecognitionServiceOptions> = {},
+): Promise<PaddleOcrService> {
+    return PaddleOcrService.createInstance({
+        ort: ortModule,
+        detection: { modelBuffer: detectionModel, padding },
+        recognition: { modelBuffer: recognitionModel, charactersDictionary: dictionary, ...recognitionOptions },
+    });
+}
+
+function expectBox(actual: Box, expected: Box) {
+    for (const key of ["x", "y", "width", "height"] as const) {
+        expect(actual[key]).toBeCloseTo(expected[key], 0);
+    }
+}
+
+describe("PaddleOcrService", () => {
+    it("reports boxes in input coordinates whatever the detection padding", async () => {
+        const unpadded = await createService(0);
+        const [reference] = await unpadded.detect(input);
+        // Unclipping enlarges the line by a few pixels
+        expect(reference.x).toBeGreaterThan(30);
+        expect(reference.x).toBeLessThanOrEqual(60);
+        expect(reference.y).toBeGreaterThan(70);
+        expect(reference.y).toBeLessThanOrEqual(100);
+
+        for (const padding of [0, 50]) {
+            const service = await createService(padding);
+            const [detected] = await service.detect(input);
+            const [recognized] = await service.recognize(input);
+            expectBox(detected, reference);
+            expectBox(recognized.box, reference);
+            expect(recognized.text).not.toBe("");
+            for (const character of recognized.characters ?? []) {
+                expect(character.box.y).toBeGreaterThanOrEqual(reference.y - 1);
+                expect(character.box.x + character.box.width).toBeLessThanOrEqual(reference.x + reference.width + 1);
+            }
+        }
+    });
+
+    it("keeps the boxes of text touching the edges inside the input", async () => {
+        const corner: ImageInput = { width: 300, height: 100, data: new Uint8Array(300 * 100 * 4).fill(200) };
+        for (let y = 0; y < 30; y++) {
+            corner.data.fill(0, y * 300 * 4, (y * 300 + 280) * 4);
+        }
+        const service = await createService(50);
+        const [detected] = await service.detect(corner);
+        const [recognized] = await service.recognize(corner);
+        for (const box of [detected, recognized.box, ...(recognized.characters ?? []).map((c) => c.box)]) {
+            expect(box.x).toBeGreaterThanOrEqual(0);
+            expect(box.y).toBeGreaterThanOrEqual(0);
+            expect(box.x + box.width).toBeLessThanOrEqual(300);
+            expect(box.y + box.height).toBeLessThanOrEqual(100);
+        }
+        expect([detected.x, detected.y]).toEqual([0, 0]);
+        expect(recognized.box).toEqual(detected);
+    });
+
+    it("annotates the debug image where the results are", async () => {
+        const service = await createService(50);
+        const { results, artifacts } = await service.recognizeDebug(input);
+        const { annotated } = artifacts;
+        const [{ box }] = results;
+        const pixel = (x: number, y: number) => {
+            const offset = (Math.round(y) * annotated.width + Math.round(x)) * annotated.channels;
+            return Array.from(annotated.data.subarray(offset, offset + 3));
+        };
+
+        expect([annotated.width, annotated.height]).toEqual([input.width, input.height]);
+        // The outline surrounds the dark line
+        expect(box.y).toBeLessThan(100);
+        expect(box.y + box.height).toBeGreaterThan(130);
+        const middle = box.x + box.width / 2;
+        expect(pixel(middle, box.y)).not.toEqual([200, 200, 200]);
+        // Where the outline would be drawn if the padding was not removed
+        expect(pixel(middle, box.y + 50)).toEqual([200, 200, 200]);
+    });
+
+    it("reports the progress of every stage", async () => {
+        const service = await createService(50, { batchSize: 2 });
+        const progress: OcrProgress[] = [];
+        await service.recognize(threeLines, { onProgress: (event) => progress.push(event) });
+        const steps = (stage: string) =>
+            progress.filter((event) => event.stage === stage).map(({ completed, total }) => [completed, total]);
+        expect(steps("detection")).toEqual([
+            [0, 1],
+            [1, 1],
+        ]);
+        expect(steps("classification")).toEqual([]);
+        expect(steps("recognition")).toEqual([
+            [0, 3],
+            [1, 3],
+            [2, 3],
+            [3, 3],
+        ]);
+    });
+
+    it("streams the lines in input coordinates", async () => {
+        const service = await createService(50, { batchSize: 1 });
+        const streamed = [];
+        for await (const result of service.recognizeStream(threeLines)) {
+            streamed.push(result);
+        }
+        const byTop = (a: { box: Box }, b: { box: Box }) => a.box.y - b.box.y;
+        const results = await service.recognize(threeLines);
+        expect(streamed.sort(byTop)).toEqual(results.sort(byTop));
+        [50, 140, 230].forEach((middle, i) => {
+            expect(results[i].box.y + results[i].box.height / 2).toBeCloseTo(middle, -0.5);
+        });
+    });
+
+    it("stops the run when the stream is left early", async () => {
+        const service = await createService(0, { modelBuffer: slowRecognitionModel, batchSize: 1 });
+        recognitionRuns = 0;
+        for await (const result of service.recognizeStream(threeLines)) {
+            expect(result.text).not.toBe("");
+            break;
+        }
+        // Let the call in flight when the loop was left return
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(recognitionRuns).toBe(2);
+    });
+
+    it("rejects runs whose signal is already aborted", async () => {
+        const service = await createService(0);
+        const signal = AbortSignal.abort("stop");
+        await expect(service.recognize(input, { signal })).rejects.toThrow(OcrAbortError);
+        await expect(service.detect(input, { signal })).rejects.toThrow(OcrAbortError);
+        const stream = service.recognizeStream(input, { signal });
+        await expect(stream.next()).rejects.toMatchObject({ name: "OcrAbortError", reason: "stop" });
+    });
+});
@@ -0,0 +1,102 @@
+import { inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { toPdf, type PdfPage } from "../src/export/pdf";
+import type { RecognitionResult } from "../src/processor/recognition";
+
+function line(text: string, x: number, y: number): RecognitionResult {
+    return { text, confidence: 0.9, box: { x, y, width: 20 * [...text].length, height: 20 } };
+}
+
+function page(width: number, height: number, results: RecognitionResult[], dpi?: number): PdfPage {
+    return { image: { width, height, data: new Uint8Array(width * height * 3).fill(255) }, results, dpi };
+}
+
+/**
+ * Objects of a PDF file read through its cross-reference table, keyed by object number
+ */
+function readPdf(pdf: Uint8Array) {
+    const text = Buffer.from(pdf).toString("latin1");
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)![1]);
+    const [, first, count, entries, trailer] = /^xref\n(\d+) (\d+)\n((?:\d{10} \d{5} [fn] \n)+)trailer\n(.*)\n/.exec(
+        text.slice(startxref),
+    )!;
+    expect(Number(first)).toBe(0);
+    const offsets = entries
+        .trimEnd()
+        .split("\n")
+        .map((entry) => Number(entry.slice(0, 10)));
+    expect(offsets).toHaveLength(Number(count));
+
+    const objects = new Map<number, string>();
+    offsets.slice(1).forEach((offset, i) => {
+        const header = `${i + 1} 0 obj\n`;
+        expect(text.slice(offset, offset + header.length)).toBe(header);
+        const end = text.indexOf("\nendobj\n", offset);
+        objects.set(i + 1, text.slice(offset + header.length, end));
+    });
+    const reference = (source: string, key: string) => Number(new RegExp(`/${key} (\\d+) 0 R`).exec(source)![1]);
+    const streamData = (id: number) => {
+        const object = objects.get(id)!;
+        const data = object.slice(object.indexOf("stream\n") + 7, object.lastIndexOf("\nendstream"));
+        return inflateSync(Buffer.from(data, "latin1")).toString("latin1");
+    };
+    const pagesId = reference(objects.get(reference(trailer, "Root"))!, "Pages");
+    const pageIds = [.../\/Kids \[(.*?)\]/.exec(objects.get(pagesId)!)![1].matchAll(/(\d+) 0 R/g)].map(([, id]) =>
+        Number(id),
+    );
+    return { objects, trailer, reference, streamData, pagesId, pageIds };
+}
+
+/**
+ * Text of every `Tj` of a page read back through the `ToUnicode` CMap of its font
+ */
+function extractText(pdf: Uint8Array, pageId: number): string[] {
+    const { objects, reference, streamData } = readPdf(pdf);
+    const font = objects.get(reference(objects.get(pageId)!, "F1"))!;
+    const cmap = new Map(
+        [...streamData(reference(font, "ToUnicode")).matchAll(/^<([0-9a-f]{4})> <([0-9a-f]+)>$/gm)].map(
+            ([, cid, utf16]) => [cid, String.fromCharCode(...utf16.match(/.{4}/g)!.map((u) => parseInt(u, 16)))],
+        ),
+    );
+    return [...streamData(reference(objects.get(pageId)!, "Contents")).matchAll(/<([0-9a-f]+)> Tj/g)].map(([, hex]) =>
+        hex
+            .match(/.{4}/g)!
+            .map((cid) => cmap.get(cid))
+            .join(""),
+    );
+}
+
+describe("toPdf", () => {
+    it("writes a cross-reference table pointing at every object", () => {
+        const pdf = toPdf(page(300, 150, [line("Hello", 10, 10)]), { title: "Scan" });
+        // Offsets and object headers are checked while reading
+        const { objects, trailer } = readPdf(pdf);
+        expect(Buffer.from(pdf.subarray(0, 9)).toString("latin1")).toBe("%PDF-1.7\n");
+        expect(trailer).toBe(`<< /Size ${objects.size + 1} /Root 1 0 R /Info ${objects.size} 0 R >>`);
+        expect(objects.get(objects.size)).toBe(
+            "<< /Producer <FEFF0070006100640064006c0065006f00630072002e006a0073> /Title <FEFF005300630061006e> >>",
+        );
+    });
+
+    it("keeps characters outside the Basic Multilingual Plane through the ToUnicode CMap", () => {
+        const pdf = toPdf(page(300, 150, [line("𠀋a", 10, 10), line("a 😀", 10, 50)]));
+        const [pageId] = readPdf(pdf).pageIds;
+        expect(extractText(pdf, pageId)).toEqual(["𠀋a", "a 😀"]);
+    });
+
+    it("builds a page tree of several pages", () => {
+        const pdf = toPdf([page(300, 150, [line("one", 0, 0)], 150), page(100, 200, [line("two", 0, 0)])], { dpi: 72 });
+        const { objects, reference, pagesId, pageIds: kids } = readPdf(pdf);
+        expect(objects.get(1)).toMatch(/\/Type \/Catalog/);
+        expect(objects.get(pagesId)).toBe(`<< /Type /Pages /Kids [${kids[0]} 0 R ${kids[1]} 0 R] /Count 2 >>`);
+
+        expect(kids.map((id) => reference(objects.get(id)!, "Parent"))).toEqual([pagesId, pagesId]);
+        expect(kids.map((id) => /\/MediaBox \[(.*?)\]/.exec(objects.get(id)!)![1])).toEqual([
+            "0 0 144 72",
+            "0 0 100 200",
+        ]);
+        expect(kids.map((id) => extractText(pdf, id))).toEqual([["one"], ["two"]]);
+        // Both pages share the font
+        expect(new Set(kids.map((id) => reference(objects.get(id)!, "F1"))).size).toBe(1);
+    });
+});
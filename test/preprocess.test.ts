@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { Box, PreprocessTransform } from "../src/interface";
+import type { RecognitionResult } from "../src/processor/recognition";
+import { rectToQuad, transformBox, translateBox } from "../src/utils/geometry";
+import { restoreBox, restoreResult } from "../src/utils/preprocess";
+
+/** Quarter turn clockwise of a 10x8 image, as a deskew step of 90 degrees would do. */
+const rotation: PreprocessTransform = { type: "deskew", angle: 90, matrix: [0, -1, 8, 1, 0, 0], width: 8, height: 10 };
+/** Shift onto a larger canvas, as a small deskew step would do. */
+const shift: PreprocessTransform = { type: "deskew", angle: -2, matrix: [1, 0, 10, 0, 1, 20], width: 28, height: 30 };
+
+const original: Box = { x: 2, y: 3, width: 4, height: 1 };
+const character: Box = { x: 2, y: 3, width: 1, height: 1 };
+
+/**
+ * Result holding the boxes the pipeline finds on the transformed image padded by `padding`
+ */
+function found(transforms: PreprocessTransform[], padding: number): RecognitionResult {
+    const forward = (box: Box) =>
+        translateBox(
+            transforms.reduce((current, transform) => transformBox(current, transform.matrix), box),
+            padding,
+            padding,
+        );
+    return {
+        text: "ab",
+        confidence: 0.9,
+        box: forward(original),
+        characters: [{ char: "a", confidence: 0.9, box: forward(character) }],
+    };
+}
+
+function expectBox(actual: Box, expected: Box) {
+    for (const key of ["x", "y", "width", "height"] as const) {
+        expect(actual[key]).toBeCloseTo(expected[key], 6);
+    }
+}
+
+describe("restoreBox", () => {
+    it("undoes the transforms last first", () => {
+        const { box } = found([rotation, shift], 0);
+        expectBox(box, { x: 14, y: 22, width: 1, height: 4 });
+        expectBox(restoreBox(box, [rotation, shift]), original);
+    });
+});
+
+describe("restoreResult", () => {
+    it("returns results of untouched images as they are", () => {
+        const result = found([], 0);
+        expect(restoreResult(result, [], 0, 10, 8)).toBe(result);
+    });
+
+    it("removes the padding", () => {
+        const restored = restoreResult(found([], 50), [], 50, 10, 8);
+        expectBox(restored.box, original);
+        expectBox(restored.characters![0].box, character);
+        expect(restored.skewAngle).toBeUndefined();
+    });
+
+    it("removes the padding before undoing the transforms", () => {
+        const transforms = [rotation, shift];
+        const restored = restoreResult(found(transforms, 7), transforms, 7, 10, 8);
+        expectBox(restored.box, original);
+        expectBox(restored.characters![0].box, character);
+        expect(restored.skewAngle).toBe(88);
+        expect(restored.text).toBe("ab");
+    });
+
+    it("clips boxes grown into the padding to the original image", () => {
+        const result = found([], 50);
+        result.box = translateBox({ ...original, points: rectToQuad(original) }, 47, 48);
+        const restored = restoreResult(result, [], 50, 5, 8);
+        expect(restored.box).toEqual({
+            x: 0,
+            y: 1,
+            width: 3,
+            height: 1,
+            points: rectToQuad({ x: 0, y: 1, width: 3, height: 1 }),
+        });
+        expectBox(restored.characters![0].box, character);
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { ImageInput, PaddleOptions } from "../src/interface";
+import { PaddleOcrService } from "../src/processor/paddle-ocr";
+import { fakeOrt, fakeSession } from "./fake-ort";
+
+type Band = "dark" | "gray" | "light";
+
+/** Dictionary shared by both models: Latin and Cyrillic letters. */
+const dictionary = ["", "a", "b", "ж", "д"];
+
+/**
+ * Recognition model reading the class and confidence given for the band of every line,
+ * told apart by the normalized value of its first pixel
+ */
+function readingSession(readings: Record<Band, [number, number]>) {
+    return fakeSession(({ data, dims: [batch, channels, height, width] }) => {
+        const timesteps = Math.floor(width / 8);
+        const classes = dictionary.length;
+        const output = new Float32Array(batch * timesteps * classes);
+        for (let n = 0; n < batch; n++) {
+            const value = data[n * channels * height * width];
+            const [index, confidence] = readings[value < -0.5 ? "dark" : value > 0.5 ? "light" : "gray"];
+            for (let t = 0; t < timesteps; t++) {
+                const offset = (n * timesteps + t) * classes;
+                if (t % 3 === 1) {
+                    output[offset + index] = confidence;
+                } else {
+                    output[offset] = 0.9;
+                }
+            }
+        }
+        return { data: output, dims: [batch, timesteps, classes] };
+    });
+}
+
+/** Latin model, reading Cyrillic on light lines and unsure on gray ones. */
+const latinModel = new ArrayBuffer(1);
+/** Cyrillic model, surer than the Latin one on gray lines. */
+const cyrillicModel = new ArrayBuffer(1);
+/** Cyrillic model, less sure than the Latin one on gray lines. */
+const unsureCyrillicModel = new ArrayBuffer(1);
+/** Script model taking gray lines for Russian and the others for English, which has no model. */
+const scriptModel = new ArrayBuffer(1);
+
+const ort = fakeOrt(
+    new Map([
+        [latinModel, readingSession({ dark: [1, 0.95], gray: [2, 0.5], light: [3, 0.9] })],
+        [cyrillicModel, readingSession({ dark: [4, 0.6], gray: [4, 0.8], light: [4, 0.95] })],
+        [unsureCyrillicModel, readingSession({ dark: [4, 0.6], gray: [4, 0.3], light: [4, 0.95] })],
+        [
+            scriptModel,
+            fakeSession(({ data }) => ({
+                data: Float32Array.of(...(Math.abs(data[0]) < 0.5 ? [0, 1] : [1, 0])),
+                dims: [1, 2],
+            })),
+        ],
+    ]),
+);
+
+/** Black, gray and white bands of 30 pixels, one line each. */
+const input: ImageInput = { width: 300, height: 90, data: new Uint8Array(300 * 90 * 4) };
+[0, 128, 255].forEach((value, band) => input.data.fill(value, band * 30 * 300 * 4, (band + 1) * 30 * 300 * 4));
+const lines = [0, 30, 60].map((y) => ({ x: 0, y, width: 300, height: 30 }));
+
+function createService(options: Partial<PaddleOptions> = {}): Promise<PaddleOcrService> {
+    return PaddleOcrService.createInstance({
+        ort,
+        recognition: { modelBuffer: latinModel, charactersDictionary: dictionary },
+        languages: { ru: { modelBuffer: cyrillicModel, charactersDictionary: dictionary, scripts: ["cyrillic"] } },
+        ...options,
+    });
+}
+
+const readings = (results: { text: string; language?: string }[]) =>
+    results.map(({ text, language }) => [text[0], language]);
+
+describe("RecognitionRouter", () => {
+    it("routes every line to the model of the script found by the script model", async () => {
+        const service = await createService({
+            scriptClassification: { modelBuffer: scriptModel, labels: ["en", "ru"] },
+        });
+        const results = await service.recognizeRegions(input, lines, { language: "auto" });
+        // Unsure lines are not read again when the script model decided
+        expect(readings(results)).toEqual([
+            ["a", "default"],
+            ["д", "ru"],
+            ["ж", "default"],
+        ]);
+    });
+
+    it("routes lines by the script of their default reading, and reads unsure lines with every model", async () => {
+        const service = await createService();
+        const results = await service.recognizeRegions(input, lines, { language: "auto" });
+        expect(readings(results)).toEqual([
+            ["a", "default"],
+            ["д", "ru"],
+            ["д", "ru"],
+        ]);
+        expect(results[1].confidence).toBeCloseTo(0.8);
+    });
+
+    it("keeps the default reading of unsure lines when the other models are less confident", async () => {
+        const service = await createService({
+            languages: {
+                ru: { modelBuffer: unsureCyrillicModel, charactersDictionary: dictionary, scripts: ["cyrillic"] },
+            },
+        });
+        const [, gray] = await service.recognizeRegions(input, lines, { language: "auto" });
+        expect([gray.text[0], gray.language]).toEqual(["b", "default"]);
+        expect(gray.confidence).toBeCloseTo(0.5);
+    });
+
+    it("refuses languages without a model", async () => {
+        const service = await createService();
+        await expect(service.recognizeRegions(input, lines, { language: "fr" })).rejects.toThrow(
+            'No recognition model for language "fr". Available: default, ru, auto.',
+        );
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { Box, ImageInput } from "../src/interface";
+import type { PaddleOcrService } from "../src/processor/paddle-ocr";
+import { FrameSequence, type TextTrackEvent } from "../src/processor/sequence";
+
+interface SceneText {
+    box: Box;
+    /** Gray level the text is drawn with, standing for its pixels. */
+    value: number;
+    text: string;
+}
+
+const width = 100;
+const height = 50;
+const line: Box = { x: 10, y: 30, width: 60, height: 10 };
+const caption: Box = { x: 10, y: 5, width: 20, height: 8 };
+
+function draw(scene: SceneText[]): ImageInput {
+    const data = new Uint8Array(width * height);
+    for (const { box, value } of scene) {
+        for (let y = box.y; y < box.y + box.height; y++) {
+            data.fill(value, y * width + box.x, y * width + box.x + box.width);
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * Service detecting the texts of the current scene, counting its calls
+ */
+function sceneService() {
+    const state = { scene: [] as SceneText[], detections: 0, recognitions: 0 };
+    const service = {
+        detect: async () => {
+            state.detections++;
+            return state.scene.map(({ box }) => ({ ...box }));
+        },
+        recognizeRegions: async (_frame: ImageInput, boxes: Box[]) =>
+            boxes.map((box) => {
+                state.recognitions++;
+                const found = state.scene.find((text) => text.box.x === box.x && text.box.y === box.y);
+                return { text: found?.text ?? "", confidence: 0.9, box };
+            }),
+    };
+    return { state, service: service as unknown as PaddleOcrService };
+}
+
+const describeEvents = (events: TextTrackEvent[]) =>
+    events.map((event) => `${event.type} ${event.text} ${event.firstFrame}-${event.lastFrame}`);
+
+describe("FrameSequence", () => {
+    it("follows texts from the frame they appear on to the one they are gone from", async () => {
+        const { state, service } = sceneService();
+        const sequence = new FrameSequence(service, { maxMissedFrames: 0 });
+        const push = (scene: SceneText[]) => {
+            state.scene = scene;
+            return sequence.push(draw(scene)).then(describeEvents);
+        };
+
+        expect(await push([{ box: line, value: 200, text: "hello" }])).toEqual(["appear hello 0-0"]);
+        expect(await push([{ box: line, value: 200, text: "hello" }])).toEqual([]);
+        // Unchanged frames are neither detected nor recognized
+        expect([state.detections, state.recognitions]).toEqual([1, 1]);
+
+        expect(
+            await push([
+                { box: line, value: 200, text: "hello" },
+                { box: caption, value: 90, text: "foo" },
+            ]),
+        ).toEqual(["appear foo 2-2"]);
+        // Only the new text is recognized
+        expect(state.recognitions).toBe(2);
+
+        expect(await push([{ box: line, value: 120, text: "world" }])).toEqual([
+            "disappear hello 0-2",
+            "disappear foo 2-2",
+            "appear world 3-3",
+        ]);
+        expect(sequence.activeTracks.map((track) => track.text)).toEqual(["world"]);
+        expect(describeEvents(await sequence.end())).toEqual(["disappear world 3-3"]);
+        expect(sequence.frameCount).toBe(0);
+    });
+
+    it("counts unchanged frames as missed by texts no longer detected", async () => {
+        const { state, service } = sceneService();
+        const sequence = new FrameSequence(service, { maxMissedFrames: 2 });
+        const subtitle = { box: caption, value: 255, text: "sub" };
+        const events: string[][] = [];
+        for (const scene of [[subtitle], [], [], [], []]) {
+            state.scene = scene;
+            events.push(describeEvents(await sequence.push(draw(scene))));
+        }
+
+        // The empty frames after the first are unchanged, yet the subtitle stays gone
+        expect(state.detections).toBe(2);
+        expect(events).toEqual([["appear sub 0-0"], [], [], ["disappear sub 0-0"], []]);
+    });
+
+    it("runs frames pushed together one after the other", async () => {
+        const { state, service } = sceneService();
+        const sequence = new FrameSequence(service);
+        state.scene = [{ box: line, value: 200, text: "hello" }];
+        const frame = draw(state.scene);
+        const events = await Promise.all([sequence.push(frame), sequence.push(frame)]);
+        expect(events.map(describeEvents)).toEqual([["appear hello 0-0"], []]);
+        expect(state.detections).toBe(1);
+    });
+
+    it("rejects frames of inconsistent size", async () => {
+        const { service } = sceneService();
+        const sequence = new FrameSequence(service);
+        await expect(sequence.push({ width: 3, height: 3, data: new Uint8Array(5) })).rejects.toThrow(/channels/);
+    });
+});
@@ -0,0 +1,192 @@
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { encodePng } from "../src/encoders/png";
+import { TSV_HEADER } from "../src/export/format";
+import type { Box, RecognitionOptions } from "../src/interface";
+import type { PaddleOcrService } from "../src/processor/paddle-ocr";
+import { parseMultipart } from "../src/server/multipart";
+import { QueueFullError, RequestQueue } from "../src/server/queue";
+import { createOcrServer } from "../src/server/server";
+
+/**
+ * Task resolving when told to
+ */
+function deferred() {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>((done) => (resolve = done));
+    return { task: () => promise, resolve };
+}
+
+describe("RequestQueue", () => {
+    it("runs tasks up to the concurrency and queues the next in order", async () => {
+        const queue = new RequestQueue(1, 2);
+        const [first, second, third] = [deferred(), deferred(), deferred()];
+        const order: string[] = [];
+        const runs = [first, second, third].map((d, i) =>
+            queue.run(d.task).then((value) => order.push(`${i}:${value}`)),
+        );
+        await Promise.resolve();
+        expect([queue.running, queue.queued]).toEqual([1, 2]);
+        await expect(queue.run(async () => "late")).rejects.toBeInstanceOf(QueueFullError);
+
+        third.resolve("c");
+        second.resolve("b");
+        first.resolve("a");
+        await Promise.all(runs);
+        expect(order).toEqual(["0:a", "1:b", "2:c"]);
+        expect([queue.running, queue.queued]).toEqual([0, 0]);
+    });
+
+    it("frees the slot of failed tasks", async () => {
+        const queue = new RequestQueue(1, 0);
+        await expect(queue.run(async () => Promise.reject(new Error("failed")))).rejects.toThrow("failed");
+        expect(await queue.run(async () => "next")).toBe("next");
+        expect(queue.running).toBe(0);
+    });
+});
+
+describe("parseMultipart", () => {
+    async function encode(form: FormData): Promise<[Buffer, string]> {
+        const response = new Response(form);
+        return [Buffer.from(await response.arrayBuffer()), response.headers.get("content-type")!];
+    }
+
+    it("reads the fields and files of a form", async () => {
+        const form = new FormData();
+        form.append("format", "tsv");
+        const bytes = Uint8Array.of(0x89, 0x0d, 0x0a, 0x2d, 0x2d, 0x00, 0xff);
+        form.append("image", new Blob([bytes], { type: "image/png" }), "page.png");
+
+        const parts = parseMultipart(...(await encode(form)));
+        expect(parts).toHaveLength(2);
+        expect(parts[0]).toMatchObject({ name: "format" });
+        expect(parts[0].data.toString()).toBe("tsv");
+        expect(parts[1]).toMatchObject({ name: "image", filename: "page.png", contentType: "image/png" });
+        expect(Uint8Array.from(parts[1].data)).toEqual(bytes);
+    });
+
+    it("accepts quoted boundaries", () => {
+        const body = Buffer.from('--a b\r\nContent-Disposition: form-data; name="x"\r\n\r\n1\r\n--a b--\r\n');
+        const [part] = parseMultipart(body, 'multipart/form-data; boundary="a b"');
+        expect(part.name).toBe("x");
+        expect(part.data.toString()).toBe("1");
+    });
+
+    it("rejects bodies without boundary or cut short", async () => {
+        const form = new FormData();
+        form.append("image", new Blob([new Uint8Array(100)]), "page.png");
+        const [body, contentType] = await encode(form);
+        expect(() => parseMultipart(body, "multipart/form-data")).toThrow(/boundary/);
+        expect(() => parseMultipart(body.subarray(0, 120), contentType)).toThrow(/Truncated/);
+    });
+});
+
+describe("createOcrServer", () => {
+    const box: Box = { x: 1, y: 1, width: 2, height: 2 };
+    const png = encodePng({ width: 4, height: 4, data: new Uint8Array(16).fill(255), channels: 1 });
+    /** Options of every call to the service. */
+    const calls: (RecognitionOptions | undefined)[] = [];
+    let detectDelay = 0;
+    const service = {
+        detect: (_image: unknown, options?: RecognitionOptions) => {
+            calls.push(options);
+            return new Promise<Box[]>((resolve, reject) => {
+                const timer = setTimeout(() => resolve([box]), detectDelay);
+                options?.signal?.addEventListener("abort", () => {
+                    clearTimeout(timer);
+                    reject(options.signal!.reason);
+                });
+            });
+        },
+        recognize: async (_image: unknown, options?: RecognitionOptions) => {
+            calls.push(options);
+            return [{ text: "hi", confidence: 0.9, box }];
+        },
+    };
+    const server = createOcrServer(service as unknown as PaddleOcrService);
+    let base = "";
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    const post = (path: string, init: RequestInit = {}) => fetch(base + path, { method: "POST", body: png, ...init });
+
+    it("answers detected boxes as JSON", async () => {
+        const response = await post("/detect");
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ width: 4, height: 4, boxes: [box] });
+    });
+
+    it("refuses formats and whitelists on /detect", async () => {
+        for (const query of ["?format=text", "?whitelist=1"]) {
+            const response = await post(`/detect${query}`);
+            expect(response.status).toBe(400);
+            expect((await response.json()).error).toMatch(/takes no format or whitelist/);
+        }
+        expect((await post("/detect?format=json")).status).toBe(200);
+    });
+
+    it("writes recognition results in the requested format with the whitelist", async () => {
+        const response = await post("/ocr?format=tsv&whitelist=hi");
+        expect(response.status).toBe(200);
+        expect((await response.text()).startsWith(TSV_HEADER)).toBe(true);
+        expect(calls.at(-1)?.charWhiteList).toEqual(["h", "i"]);
+    });
+
+    it("stops detecting when the client leaves", async () => {
+        detectDelay = 5000;
+        const controller = new AbortController();
+        const request = post("/detect", { signal: controller.signal }).catch(() => null);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const options = calls.at(-1);
+        controller.abort();
+        await request;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(options?.signal?.aborted).toBe(true);
+    });
+});
+
+describe("createOcrServer with a full queue", () => {
+    const png = encodePng({ width: 4, height: 4, data: new Uint8Array(16).fill(255), channels: 1 });
+    let release = () => {};
+    let detections = 0;
+    const service = {
+        detect: () => {
+            detections++;
+            return new Promise<Box[]>((resolve) => (release = () => resolve([])));
+        },
+    };
+    const server = createOcrServer(service as unknown as PaddleOcrService, { concurrency: 1, maxQueue: 0 });
+    let base = "";
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("refuses further requests with 503 before decoding them", async () => {
+        const running = fetch(`${base}/detect`, { method: "POST", body: png });
+        while (!detections) await new Promise((resolve) => setTimeout(resolve, 10));
+
+        // Not an image: decoding it would answer 400
+        const refused = await fetch(`${base}/detect`, { method: "POST", body: "not an image" });
+        expect(refused.status).toBe(503);
+        expect(refused.headers.get("retry-after")).toBe("1");
+        expect(detections).toBe(1);
+
+        release();
+        expect((await running).status).toBe(200);
+        const rejected = await fetch(`${base}/detect`, { method: "POST", body: "not an image" });
+        expect(rejected.status).toBe(400);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { extractTable, tableToCsv, tableToHtml, tableToMarkdown } from "../src/layout/table";
+import type { RecognitionResult } from "../src/processor/recognition";
+
+function result(text: string, x: number, y: number, width: number): RecognitionResult {
+    return { text, confidence: 0.9, box: { x, y, width, height: 20 } };
+}
+
+/** Three columns at x 0, 200 and 400 under a title spanning the first two. */
+const results = [
+    result('Report, Q1 "final"', 0, 0, 300),
+    result("Date", 400, 0, 40),
+    result("Item", 0, 40, 40),
+    result("Qty", 200, 40, 30),
+    result("Price", 400, 40, 50),
+    result("a|b", 0, 80, 30),
+    result("2", 200, 80, 10),
+    result("<5> & up", 400, 80, 80),
+    result("Total", 0, 120, 50),
+    result("9", 400, 120, 10),
+];
+
+const table = extractTable(results);
+
+describe("extractTable", () => {
+    it("finds the rows and columns, with cells spanning columns", () => {
+        expect(table.columnCount).toBe(3);
+        expect(table.rows.map((cells) => cells.map((cell) => [cell.text, cell.column, cell.columnSpan]))).toEqual([
+            [
+                ['Report, Q1 "final"', 0, 2],
+                ["Date", 2, 1],
+            ],
+            [
+                ["Item", 0, 1],
+                ["Qty", 1, 1],
+                ["Price", 2, 1],
+            ],
+            [
+                ["a|b", 0, 1],
+                ["2", 1, 1],
+                ["<5> & up", 2, 1],
+            ],
+            [
+                ["Total", 0, 1],
+                ["", 1, 1],
+                ["9", 2, 1],
+            ],
+        ]);
+        expect(table.box).toEqual({ x: 0, y: 0, width: 480, height: 140 });
+    });
+
+    it("only keeps the results of the region", () => {
+        const region = extractTable(results, { region: { x: 0, y: 30, width: 500, height: 60 } });
+        expect(region.rows.map((cells) => cells.map((cell) => cell.text))).toEqual([
+            ["Item", "Qty", "Price"],
+            ["a|b", "2", "<5> & up"],
+        ]);
+    });
+});
+
+describe("table serialization", () => {
+    it("quotes CSV fields holding the delimiter or quotes", () => {
+        expect(tableToCsv(table).split("\r\n")).toEqual([
+            '"Report, Q1 ""final""",,Date',
+            "Item,Qty,Price",
+            "a|b,2,<5> & up",
+            "Total,,9",
+        ]);
+        expect(tableToCsv(table, "\t").split("\r\n")[0]).toBe('"Report, Q1 ""final"""\t\tDate');
+    });
+
+    it("escapes pipes in Markdown", () => {
+        expect(tableToMarkdown(table).split("\n")).toEqual([
+            '| Report, Q1 "final" |  | Date |',
+            "| --- | --- | --- |",
+            "| Item | Qty | Price |",
+            "| a\\|b | 2 | <5> & up |",
+            "| Total |  | 9 |",
+        ]);
+    });
+
+    it("escapes HTML and sets the column span", () => {
+        const html = tableToHtml(table);
+        expect(html).toContain('<tr><td colspan="2">Report, Q1 &quot;final&quot;</td><td>Date</td></tr>');
+        expect(html).toContain("<tr><td>a|b</td><td>2</td><td>&lt;5&gt; &amp; up</td></tr>");
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { Box, Quad } from "../src/interface";
+import { findAnchors, locateFields, type FormTemplate } from "../src/layout/template";
+import type { RecognitionResult } from "../src/processor/recognition";
+import { rectToQuad } from "../src/utils/geometry";
+
+const CHAR_WIDTH = 6;
+const LINE_HEIGHT = 15;
+
+/**
+ * The template printed shifted and scaled on an 800x1000 page
+ */
+const toPage = (u: number, v: number) => ({ x: 50 + 600 * u, y: 30 + 900 * v });
+
+function textLine(text: string, x: number, y: number): RecognitionResult {
+    return {
+        text,
+        confidence: 0.9,
+        box: { x, y, width: text.length * CHAR_WIDTH, height: LINE_HEIGHT },
+        characters: Array.from(text, (char, i) => ({
+            char,
+            confidence: 0.9,
+            box: { x: x + i * CHAR_WIDTH, y, width: CHAR_WIDTH, height: LINE_HEIGHT },
+        })),
+    };
+}
+
+/**
+ * Line printed at the template position (u, v)
+ */
+function pageLine(text: string, u: number, v: number): RecognitionResult {
+    const { x, y } = toPage(u, v);
+    return textLine(text, x, y);
+}
+
+/**
+ * Template box of a text printed at (u, v)
+ */
+function anchorBox(text: string, u: number, v: number): Box {
+    return { x: u, y: v, width: (text.length * CHAR_WIDTH) / 600, height: LINE_HEIGHT / 900 };
+}
+
+function fieldBox(u: number, v: number): Box {
+    return { x: u, y: v, width: 0.2, height: LINE_HEIGHT / 900 };
+}
+
+const template: FormTemplate = {
+    anchors: {
+        invoice: { text: "Invoice number", box: anchorBox("Invoice number", 0.1, 0.1) },
+        date: { text: "Date of issue", box: anchorBox("Date of issue", 0.6, 0.1) },
+        total: { text: "Total amount", box: anchorBox("Total amount", 0.1, 0.8) },
+    },
+    fields: {
+        number: { box: fieldBox(0.26, 0.1), anchors: ["invoice"] },
+        date: { box: fieldBox(0.75, 0.1), anchors: ["date"] },
+        total: { box: fieldBox(0.3, 0.8), anchors: ["total"] },
+    },
+};
+
+const anchorLines = {
+    invoice: pageLine("Invoice number", 0.1, 0.1),
+    date: pageLine("Date of issue", 0.6, 0.1),
+    total: pageLine("Total amount", 0.1, 0.8),
+};
+
+function expectQuad(actual: Quad | undefined, expected: Quad): void {
+    expect(actual).toBeDefined();
+    actual!.forEach((point, i) => {
+        expect(point.x).toBeCloseTo(expected[i].x, 6);
+        expect(point.y).toBeCloseTo(expected[i].y, 6);
+    });
+}
+
+/**
+ * Corners of a template box printed on the page
+ */
+const printed = (box: Box) => rectToQuad(box).map((p) => toPage(p.x, p.y)) as Quad;
+
+describe("findAnchors", () => {
+    it("matches an anchor with one misread character and covers only its characters", () => {
+        const found = findAnchors(template, [textLine("lnvoice number 0042", 110, 120)], 800, 1000);
+        expectQuad(found.invoice, rectToQuad({ x: 110, y: 120, width: 14 * CHAR_WIDTH, height: LINE_HEIGHT }));
+    });
+
+    it("misses anchors with more misreadings than the tolerance", () => {
+        const results = [pageLine("Dafe 0f lssue", 0.6, 0.1)];
+        expect(findAnchors(template, results, 800, 1000).date).toBeUndefined();
+        expect(findAnchors(template, results, 800, 1000, { anchorTolerance: 0.3 }).date).toBeDefined();
+    });
+});
+
+describe("locateFields", () => {
+    it("places the fields of a shifted and scaled page", () => {
+        const fields = locateFields(template, Object.values(anchorLines), 800, 1000);
+        expect(fields.map((field) => field.label)).toEqual(["number", "date", "total"]);
+        for (const field of fields) {
+            expect(field.anchorsMissing).toBe(false);
+            expectQuad(field.box, printed(template.fields[field.label].box));
+        }
+    });
+
+    it("places fields of missing anchors with the anchors found for the others", () => {
+        const fields = locateFields(template, [anchorLines.invoice, anchorLines.date], 800, 1000);
+        const total = fields.find((field) => field.label === "total")!;
+        expect(total.anchorsMissing).toBe(true);
+        expectQuad(total.box, printed(template.fields.total.box));
+        expect(fields.filter((field) => field.anchorsMissing)).toEqual([total]);
+    });
+
+    it("scales the template to the page when no anchor is found", () => {
+        const fields = locateFields(template, [pageLine("Unrelated text", 0.4, 0.5)], 800, 1000);
+        const { x, y, width, height } = template.fields.number.box;
+        expect(fields[0].anchorsMissing).toBe(true);
+        expectQuad(fields[0].box, rectToQuad({ x: x * 800, y: y * 1000, width: width * 800, height: height * 1000 }));
+    });
+
+    it("throws on fields referring to unknown anchors", () => {
+        const broken: FormTemplate = { ...template, fields: { number: { box: fieldBox(0, 0), anchors: ["missing"] } } };
+        expect(() => locateFields(broken, [], 800, 1000)).toThrow(/unknown anchor "missing"/);
+    });
+});